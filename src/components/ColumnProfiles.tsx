@@ -0,0 +1,132 @@
+import React from 'react';
+import { Tile, SkeletonText } from '@carbon/react';
+import { ColumnMeta, columnDisplayName } from '@/utils/dataProcessor';
+import { ColumnProfile, HistogramBin } from '@/utils/columnProfile';
+
+interface ColumnProfilesProps {
+  profiles: ColumnProfile[] | null;
+  columns?: ColumnMeta[];
+  error?: string | null;
+}
+
+const SHOWN_TOP_VALUES = 5;
+
+const formatNumber = (value: number): string =>
+  Math.abs(value) >= 1000 || Number.isInteger(value)
+    ? Math.round(value).toLocaleString()
+    : Number(value.toPrecision(4)).toLocaleString();
+
+const percent = (part: number, total: number): string => (total > 0 ? `${Math.round((part / total) * 1000) / 10}%` : '0%');
+
+const MiniHistogram: React.FC<{ bins: HistogramBin[] }> = ({ bins }) => {
+  const max = Math.max(...bins.map(bin => bin.count), 1);
+  return (
+    <div className="flex items-end gap-px h-12 mt-2" aria-hidden="true">
+      {bins.map((bin, index) => (
+        <div
+          key={index}
+          className="flex-1 bg-blue-400"
+          style={{ height: `${Math.max(2, (bin.count / max) * 100)}%` }}
+          title={`${bin.label}: ${bin.count.toLocaleString()}`}
+        />
+      ))}
+    </div>
+  );
+};
+
+const Stat: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="flex justify-between gap-2">
+    <span className="text-gray-500">{label}</span>
+    <span className="font-mono">{value}</span>
+  </div>
+);
+
+const ProfileCard: React.FC<{ profile: ColumnProfile; title: string }> = ({ profile, title }) => {
+  const filled = profile.count - profile.empty;
+  const { numeric, dates } = profile;
+
+  return (
+    <Tile className="p-4 text-sm">
+      <div className="flex justify-between items-baseline mb-2">
+        <h4 className="font-medium text-gray-900 truncate" title={profile.name}>{title}</h4>
+        <span className="text-xs text-gray-500">{profile.kind}</span>
+      </div>
+
+      <Stat label="Empty" value={`${profile.empty.toLocaleString()} (${percent(profile.empty, profile.count)})`} />
+      <Stat label="Distinct" value={`${profile.distinct.toLocaleString()} (${percent(profile.distinct, filled)})`} />
+
+      {numeric && (
+        <>
+          <Stat label="Min / max" value={`${formatNumber(numeric.min)} / ${formatNumber(numeric.max)}`} />
+          <Stat label="Mean / median" value={`${formatNumber(numeric.mean)} / ${formatNumber(numeric.median)}`} />
+          <Stat label="Std dev" value={formatNumber(numeric.stddev)} />
+          <Stat
+            label="P5 · P25 · P75 · P95"
+            value={[numeric.p5, numeric.p25, numeric.p75, numeric.p95].map(formatNumber).join(' · ')}
+          />
+        </>
+      )}
+
+      {dates && (
+        <>
+          <Stat label="Range" value={`${dates.min} – ${dates.max}`} />
+          {dates.stepDays > 0 && <Stat label="Usual step" value={`${dates.stepDays} ${dates.stepDays === 1 ? 'day' : 'days'}`} />}
+          <Stat label="Gaps" value={dates.gapCount.toLocaleString()} />
+          {dates.gaps.length > 0 && (
+            <ul className="text-xs text-gray-600 mt-1">
+              {dates.gaps.map(gap => (
+                <li key={gap.from}>{gap.from} → {gap.to} ({gap.days} days)</li>
+              ))}
+            </ul>
+          )}
+          {dates.unparsed > 0 && <Stat label="Not dates" value={dates.unparsed.toLocaleString()} />}
+        </>
+      )}
+
+      {profile.kind === 'text' ? (
+        <ul className="mt-2 space-y-1">
+          {profile.topValues.slice(0, SHOWN_TOP_VALUES).map(top => (
+            <li key={top.value} className="relative">
+              <div
+                className="absolute inset-y-0 left-0 bg-green-100 rounded"
+                style={{ width: percent(top.count, profile.topValues[0].count) }}
+              />
+              <div className="relative flex justify-between gap-2 px-1">
+                <span className="truncate" title={top.value}>{top.value}</span>
+                <span className="font-mono text-gray-600">{top.count.toLocaleString()}</span>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        profile.histogram.length > 0 && <MiniHistogram bins={profile.histogram} />
+      )}
+    </Tile>
+  );
+};
+
+const ColumnProfiles: React.FC<ColumnProfilesProps> = ({ profiles, columns, error }) => {
+  if (error) {
+    return <p className="mt-4 text-red-700">Column profiles could not be computed: {error}</p>;
+  }
+
+  return (
+    <div className="mt-4">
+      <h3 className="font-medium text-gray-900 mb-2">Column Profiles</h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {profiles
+          ? profiles.map(profile => (
+            <ProfileCard key={profile.name} profile={profile} title={columnDisplayName(columns, profile.name)} />
+          ))
+          : [1, 2, 3].map(i => (
+            <Tile key={i} className="p-4">
+              <SkeletonText heading />
+              <SkeletonText paragraph lineCount={4} />
+            </Tile>
+          ))}
+      </div>
+    </div>
+  );
+};
+
+export default ColumnProfiles;
@@ -0,0 +1,186 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Modal, Select, SelectItem, NumberInput } from '@carbon/react';
+import {
+  CsvFormat,
+  CsvPreview,
+  DATE_FORMATS,
+  decodeSample,
+  DELIMITERS,
+  ENCODINGS,
+  fieldNormalizer,
+  sampleRecords
+} from '@/utils/csvDetect';
+
+interface CsvImportDialogProps {
+  open: boolean;
+  filename: string;
+  preview: CsvPreview | null;
+  onImport: (format: CsvFormat) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 8;
+
+const QUOTES = [
+  { value: '"', label: 'Double quote (")' },
+  { value: "'", label: "Single quote (')" }
+];
+
+const THOUSANDS: { value: CsvFormat['thousandsSeparator']; label: string }[] = [
+  { value: '', label: 'None' },
+  { value: ',', label: 'Comma (1,234)' },
+  { value: '.', label: 'Period (1.234)' },
+  { value: ' ', label: 'Space (1 234)' },
+  { value: "'", label: "Apostrophe (1'234)" }
+];
+
+const CsvImportDialog: React.FC<CsvImportDialogProps> = ({ open, filename, preview, onImport, onCancel }) => {
+  const [format, setFormat] = useState<CsvFormat | null>(null);
+
+  useEffect(() => {
+    setFormat(preview ? preview.format : null);
+  }, [preview]);
+
+  // Decoding is the slow part, so it only reruns when the encoding changes.
+  const encoding = format?.encoding;
+  const text = useMemo(() => (preview && encoding ? decodeSample(preview, encoding) : ''), [preview, encoding]);
+
+  if (!preview || !format) return null;
+
+  const update = <K extends keyof CsvFormat>(key: K, value: CsvFormat[K]) => {
+    setFormat(prev => ({ ...prev, [key]: value }));
+  };
+
+  const records = sampleRecords(text, format, format.headerRow + PREVIEW_ROWS + 1);
+  const header = records[format.headerRow] || [];
+  const normalize = fieldNormalizer(format);
+  const rows = records.slice(format.headerRow + 1).map(record => record.map(normalize));
+
+  return (
+    <Modal
+      open={open}
+      onRequestClose={onCancel}
+      onRequestSubmit={() => onImport(format)}
+      modalHeading={`Import ${filename}`}
+      primaryButtonText="Import"
+      primaryButtonDisabled={format.decimalSeparator === format.thousandsSeparator}
+      secondaryButtonText="Cancel"
+      size="lg"
+    >
+      <p className="text-gray-600 mb-4">
+        These settings were detected from the start of the file. Change any that look wrong;
+        the preview shows the values as they will be imported.
+      </p>
+
+      <div className="grid grid-cols-3 gap-4 mb-6">
+        <Select
+          id="csv-encoding"
+          labelText="Encoding"
+          value={format.encoding}
+          onChange={(e) => update('encoding', e.target.value as CsvFormat['encoding'])}
+        >
+          {ENCODINGS.map(option => (
+            <SelectItem key={option.value} value={option.value} text={option.label} />
+          ))}
+        </Select>
+        <Select
+          id="csv-delimiter"
+          labelText="Delimiter"
+          value={format.delimiter}
+          onChange={(e) => update('delimiter', e.target.value)}
+        >
+          {DELIMITERS.map(delimiter => (
+            <SelectItem key={delimiter.value} value={delimiter.value} text={delimiter.label} />
+          ))}
+        </Select>
+        <Select
+          id="csv-quote"
+          labelText="Quote character"
+          value={format.quoteChar}
+          onChange={(e) => update('quoteChar', e.target.value)}
+        >
+          {QUOTES.map(quote => (
+            <SelectItem key={quote.value} value={quote.value} text={quote.label} />
+          ))}
+        </Select>
+        <NumberInput
+          id="csv-header-row"
+          label="Header row"
+          min={1}
+          value={format.headerRow + 1}
+          onChange={(_, { value }) => {
+            const row = Number(value);
+            if (Number.isInteger(row) && row >= 1) update('headerRow', row - 1);
+          }}
+        />
+        <Select
+          id="csv-decimal"
+          labelText="Decimal separator"
+          value={format.decimalSeparator}
+          onChange={(e) => update('decimalSeparator', e.target.value as CsvFormat['decimalSeparator'])}
+        >
+          <SelectItem value="." text="Period (1.5)" />
+          <SelectItem value="," text="Comma (1,5)" />
+        </Select>
+        <Select
+          id="csv-thousands"
+          labelText="Thousands separator"
+          value={format.thousandsSeparator}
+          onChange={(e) => update('thousandsSeparator', e.target.value as CsvFormat['thousandsSeparator'])}
+        >
+          {THOUSANDS.map(separator => (
+            <SelectItem key={separator.label} value={separator.value} text={separator.label} />
+          ))}
+        </Select>
+        <Select
+          id="csv-date-format"
+          labelText="Date format"
+          value={format.dateFormat}
+          onChange={(e) => update('dateFormat', e.target.value as CsvFormat['dateFormat'])}
+        >
+          {DATE_FORMATS.map(dateFormat => (
+            <SelectItem
+              key={dateFormat}
+              value={dateFormat}
+              text={dateFormat === 'none' ? 'Keep as written' : dateFormat}
+            />
+          ))}
+        </Select>
+      </div>
+
+      {format.decimalSeparator === format.thousandsSeparator && (
+        <p className="text-red-700 mb-4">The decimal and thousands separators must differ.</p>
+      )}
+
+      <h4 className="font-medium mb-2">Preview</h4>
+      {header.length > 0 ? (
+        <div className="overflow-auto">
+          <table className="text-sm border">
+            <thead>
+              <tr className="bg-gray-100">
+                {header.map((label, c) => (
+                  <th key={c} className="px-2 py-1 text-left whitespace-nowrap">{label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, r) => (
+                <tr key={r} className="border-t">
+                  {row.map((value, c) => (
+                    <td key={c} className={`px-2 py-1 whitespace-nowrap ${c >= header.length ? 'text-red-700' : ''}`}>
+                      {value}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-gray-500">No rows at or below the header row.</p>
+      )}
+    </Modal>
+  );
+};
+
+export default CsvImportDialog;
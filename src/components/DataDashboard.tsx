@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { 
   Grid, 
   Column, 
@@ -21,11 +21,13 @@ import {
   Analytics
 } from '@carbon/icons-react';
 
-import FileUpload from './FileUpload';
+import FileUpload, { LoadDetails, LoadedFile } from './FileUpload';
 import DataOverview from './DataOverview';
-import QueryInterface from './QueryInterface';
+import QueryInterface, { QueryRequest, RerunRequest } from './QueryInterface';
 import DataVisualization from './DataVisualization';
 import QueryHistory, { QueryHistoryItem } from './QueryHistory';
+import TableSwitcher from './TableSwitcher';
+import StoredDatasets from './StoredDatasets';
 
 import { 
   DataRow, 
@@ -33,73 +35,319 @@ import {
   analyzeData, 
   QueryResult, 
   exportToCSV, 
-  generateSampleData 
+  generateSampleData,
+  statsFromSchema
 } from '@/utils/dataProcessor';
+import { describeSchemaChanges, snapshotSchema, toTableName, WorkspaceTable } from '@/utils/workspace';
+import { applySchemaOverrides, ColumnOverride, renameColumn } from '@/utils/schemaOverride';
+import { ChartSettings } from '@/utils/chartBuilder';
+import {
+  clearHistory,
+  loadDataset,
+  loadHistory,
+  loadPreferences,
+  saveDataset,
+  saveHistoryItem,
+  savePreferences
+} from '@/utils/storage';
 import { useToast } from '@/hooks/use-toast';
 
+const SAMPLE_FILENAME = 'sample-ecommerce-data.csv';
+
 const DataDashboard: React.FC = () => {
-  const [data, setData] = useState<DataRow[]>([]);
-  const [filename, setFilename] = useState<string>('');
-  const [stats, setStats] = useState<DataStats | null>(null);
+  const [tables, setTables] = useState<WorkspaceTable[]>([]);
+  const [activeTableName, setActiveTableName] = useState<string>('');
   const [queryResult, setQueryResult] = useState<QueryResult | null>(null);
   const [queryHistory, setQueryHistory] = useState<QueryHistoryItem[]>([]);
   const [isLoadingFile, setIsLoadingFile] = useState(false);
   const [isLoadingQuery, setIsLoadingQuery] = useState(false);
   const [selectedTab, setSelectedTab] = useState(0);
+  const [isRestoring, setIsRestoring] = useState(true);
+  const [showStoredDatasets, setShowStoredDatasets] = useState(false);
+  const [rerunRequest, setRerunRequest] = useState<RerunRequest | null>(null);
+  // History entry of the result on screen, which holds its chart settings.
+  const [resultHistoryId, setResultHistoryId] = useState<string | null>(null);
   
   const { toast } = useToast();
 
-  // Load sample data on component mount
+  const activeTable = tables.find(table => table.name === activeTableName) || null;
+  const data: DataRow[] = activeTable ? activeTable.data : [];
+  const stats: DataStats | null = activeTable ? activeTable.stats : null;
+  const filename = activeTable ? activeTable.filename : '';
+  // Column names to show for query results, which may come from any open table;
+  // the active table's names win when two tables share a column key.
+  const resultColumns = [activeTable, ...tables.filter(table => table !== activeTable)]
+    .flatMap(table => table?.columns || []);
+
+  const reportStorageError = useCallback((action: string) => (error: unknown) => {
+    toast({
+      title: `Could not ${action}`,
+      description: error instanceof Error ? error.message : "Browser storage is unavailable.",
+      variant: "destructive"
+    });
+  }, [toast]);
+
+  // Restore the previous session on mount; first-time visitors get the sample data
   useEffect(() => {
-    const sampleData = generateSampleData();
-    handleDataLoad(sampleData, 'sample-ecommerce-data.csv');
-  }, []);
+    const restoreSession = async () => {
+      try {
+        const [preferences, storedHistory] = await Promise.all([loadPreferences(), loadHistory()]);
+        setQueryHistory(storedHistory);
+
+        if (preferences) {
+          const restored = (await Promise.all(preferences.openTables.map(loadDataset))).filter(Boolean);
+          setTables(restored);
+          setActiveTableName(
+            restored.some(table => table.name === preferences.activeTable)
+              ? preferences.activeTable
+              : restored[0]?.name || ''
+          );
+          // Results are not stored, so fall back from the results tab to the query tab.
+          setSelectedTab(preferences.selectedTab === 2 ? 1 : preferences.selectedTab);
+          return;
+        }
+      } catch (error) {
+        toast({
+          title: "Previous session not restored",
+          description: error instanceof Error ? error.message : "Browser storage could not be read.",
+          variant: "destructive"
+        });
+      }
+
+      const sampleData = generateSampleData();
+      const sample: WorkspaceTable = {
+        name: toTableName(SAMPLE_FILENAME, []),
+        filename: SAMPLE_FILENAME,
+        data: sampleData,
+        stats: analyzeData(sampleData)
+      };
+      setTables([sample]);
+      setActiveTableName(sample.name);
+      setSelectedTab(0);
+      saveDataset(sample).catch(reportStorageError('save the dataset'));
+    };
+
+    restoreSession().finally(() => setIsRestoring(false));
+  }, [toast, reportStorageError]);
+
+  // Remember the open tables and the current view
+  useEffect(() => {
+    if (isRestoring) return;
+    savePreferences({
+      selectedTab,
+      activeTable: activeTableName,
+      openTables: tables.map(table => table.name)
+    }).catch(() => {
+      // Preferences are a convenience; the session still works without them.
+    });
+  }, [isRestoring, selectedTab, activeTableName, tables]);
+
+  const addTables = (added: WorkspaceTable[]) => {
+    setTables(prev => added.reduce((current, table) => {
+      const index = current.findIndex(candidate => candidate.name === table.name);
+      return index === -1 ? [...current, table] : current.map(candidate => (candidate.name === table.name ? table : candidate));
+    }, prev));
+    setActiveTableName(added[added.length - 1].name);
+  };
+
+  const addTable = (table: WorkspaceTable) => addTables([table]);
 
-  const handleDataLoad = (newData: DataRow[], newFilename: string) => {
-    setData(newData);
-    setFilename(newFilename);
-    setStats(analyzeData(newData));
+  const handleTablesLoad = (loaded: LoadedFile[]) => {
+    // Names are made unique against the other tables of the batch as well as the open ones.
+    const taken = tables.map(table => table.name);
+    const added = loaded.map(({ data: newData, filename: newFilename, details = {} }): WorkspaceTable => {
+      const { columns, parseReport, sheet, schema, jsonPaths } = details;
+      // Re-uploading a file (or sheet) replaces its table; anything else becomes a new table.
+      const existing = tables.find(table => table.filename === newFilename && table.sheet === sheet);
+      const name = existing ? existing.name : toTableName(newFilename, taken, sheet);
+      taken.push(name);
+      return {
+        name,
+        filename: newFilename,
+        data: newData,
+        // A declared schema beats guessing types from the values.
+        stats: schema ? statsFromSchema(schema, newData.length) : analyzeData(newData),
+        columns,
+        parseReport,
+        sheet,
+        schema,
+        jsonPaths
+      };
+    });
+
+    addTables(added);
+    added.forEach(table => saveDataset(table).catch(reportStorageError('save the dataset')));
     setQueryResult(null);
     setSelectedTab(0); // Switch to overview tab
   };
 
-  const handleQueryResult = (result: QueryResult) => {
+  const handleDataLoad = (newData: DataRow[], newFilename: string, details: LoadDetails = {}) => {
+    handleTablesLoad([{ data: newData, filename: newFilename, details }]);
+  };
+
+  // Replaces the active table with an edited copy and stores it.
+  const updateActiveTable = (update: (table: WorkspaceTable) => WorkspaceTable) => {
+    if (!activeTable) return;
+    const table = update(activeTable);
+    setTables(prev => prev.map(candidate => (candidate.name === table.name ? table : candidate)));
+    saveDataset(table).catch(reportStorageError('save the schema'));
+  };
+
+  const handleOverride = (column: string, override: ColumnOverride) => {
+    updateActiveTable(table => applySchemaOverrides(table, { ...table.overrides, [column]: override }));
+  };
+
+  const handleRename = (column: string, displayName: string) => {
+    updateActiveTable(table => renameColumn(table, column, displayName));
+  };
+
+  const handleResetSchema = () => {
+    updateActiveTable(table => {
+      const source = table.sourceData || table.data;
+      const baseStats = table.schema ? statsFromSchema(table.schema, source.length) : analyzeData(source);
+      return applySchemaOverrides(table, {}, baseStats);
+    });
+  };
+
+  const handleSelectTable = (name: string) => {
+    setActiveTableName(name);
+  };
+
+  const handleRemoveTable = (name: string) => {
+    const remaining = tables.filter(table => table.name !== name);
+    setTables(remaining);
+    if (name === activeTableName) {
+      setActiveTableName(remaining.length > 0 ? remaining[0].name : '');
+    }
+    toast({
+      title: "Table closed",
+      description: `${name} has been removed from the workspace. It stays in browser storage until you delete it.`
+    });
+  };
+
+  const handleOpenStoredDataset = async (name: string) => {
+    try {
+      const table = await loadDataset(name);
+      if (!table) throw new Error(`${name} is no longer stored.`);
+      addTable(table);
+      setQueryResult(null);
+      setShowStoredDatasets(false);
+    } catch (error) {
+      reportStorageError('open the dataset')(error);
+    }
+  };
+
+  const handleStoredDatasetDeleted = (name: string) => {
+    if (tables.some(table => table.name === name)) {
+      const remaining = tables.filter(table => table.name !== name);
+      setTables(remaining);
+      if (name === activeTableName) {
+        setActiveTableName(remaining.length > 0 ? remaining[0].name : '');
+      }
+    }
+  };
+
+  const handleQueryResult = (result: QueryResult, request: QueryRequest) => {
     setQueryResult(result);
+
+    // Snapshot every table the query read so a rerun can tell if they changed
+    const readTables = result.plan
+      ? [result.plan.from, ...result.plan.joins.map(join => join.table)]
+      : [request.table];
+    const schema = Object.fromEntries(
+      tables
+        .filter(table => readTables.includes(table.name))
+        .map(table => [table.name, snapshotSchema(table)])
+    );
     
+    // A query that ran before keeps the chart it was last shown with
+    const previousChart = [...queryHistory].reverse().find(item => item.sql === result.sql && item.chart)?.chart;
+
     // Add to history
     const historyItem: QueryHistoryItem = {
       id: Date.now().toString(),
-      query: result.sql ? result.sql.split('SELECT')[0] || 'Query' : 'Unknown Query',
+      query: request.text,
       sql: result.sql,
       timestamp: new Date(),
       resultCount: result.data.length,
-      error: result.error
+      error: result.error,
+      mode: request.mode,
+      table: request.table,
+      provider: request.provider,
+      schema,
+      chart: previousChart
     };
     
     setQueryHistory(prev => [...prev, historyItem]);
+    setResultHistoryId(historyItem.id);
+    saveHistoryItem(historyItem).catch(reportStorageError('save the query history'));
     setSelectedTab(2); // Switch to visualization tab
   };
 
+  const handleChartSettingsChange = (chart: ChartSettings) => {
+    const item = queryHistory.find(candidate => candidate.id === resultHistoryId);
+    if (!item) return;
+    const updated = { ...item, chart };
+    setQueryHistory(prev => prev.map(candidate => (candidate.id === updated.id ? updated : candidate)));
+    saveHistoryItem(updated).catch(reportStorageError('save the chart settings'));
+  };
+
   const handleClearHistory = () => {
     setQueryHistory([]);
+    clearHistory().catch(reportStorageError('clear the stored history'));
     toast({
       title: "History cleared",
       description: "Query history has been cleared."
     });
   };
 
-  const handleRerunQuery = (query: string) => {
-    // This would trigger the query interface with the previous query
-    setSelectedTab(1); // Switch to query tab
-    toast({
-      title: "Query loaded",
-      description: "Previous query has been loaded in the query interface."
+  const handleRerunQuery = async (item: QueryHistoryItem) => {
+    let workspace = tables;
+
+    // Reopen the dataset from storage if it was closed since
+    if (item.table && !workspace.some(table => table.name === item.table)) {
+      const stored = await loadDataset(item.table).catch(() => null);
+      if (!stored) {
+        toast({
+          title: "Dataset not available",
+          description: `${item.table} is no longer in the workspace or browser storage, so this query cannot be re-run.`,
+          variant: "destructive"
+        });
+        return;
+      }
+      addTable(stored);
+      workspace = [...workspace, stored];
+    } else if (item.table) {
+      setActiveTableName(item.table);
+    }
+
+    const changes = Object.entries(item.schema || {}).flatMap(([name, before]) => {
+      const current = workspace.find(table => table.name === name);
+      if (!current) return [`${name} is no longer loaded`];
+      return describeSchemaChanges(before, snapshotSchema(current)).map(change => `${name}: ${change}`);
     });
+    if (changes.length > 0) {
+      toast({
+        title: "Schema changed since this query ran",
+        description: `${changes.join('; ')}. Results may differ from before.`
+      });
+    }
+
+    // Entries saved before questions were recorded only have their SQL
+    setRerunRequest({
+      id: `${item.id}-${Date.now()}`,
+      text: item.mode ? item.query : item.sql,
+      mode: item.mode || 'sql',
+      provider: item.provider
+    });
+    setSelectedTab(1); // Switch to query tab
   };
 
   const handleExportHistory = () => {
     const historyData = queryHistory.map(item => ({
       query: item.query,
+      mode: item.mode || '',
+      table: item.table || '',
       sql: item.sql,
       timestamp: item.timestamp.toISOString(),
       result_count: item.resultCount,
@@ -115,7 +363,7 @@ const DataDashboard: React.FC = () => {
 
   const handleExportResults = () => {
     if (queryResult && queryResult.data.length > 0) {
-      exportToCSV(queryResult.data, 'query_results.csv');
+      exportToCSV(queryResult.data, 'query_results.csv', resultColumns);
       toast({
         title: "Results exported",
         description: "Query results have been exported as CSV."
@@ -125,7 +373,7 @@ const DataDashboard: React.FC = () => {
 
   const handleLoadSampleData = () => {
     const sampleData = generateSampleData();
-    handleDataLoad(sampleData, 'sample-ecommerce-data.csv');
+    handleDataLoad(sampleData, SAMPLE_FILENAME);
     toast({
       title: "Sample data loaded",
       description: "E-commerce sample dataset has been loaded."
@@ -144,6 +392,22 @@ const DataDashboard: React.FC = () => {
 
         <Content>
           <div className="p-6">
+            <TableSwitcher
+              tables={tables}
+              activeTable={activeTableName}
+              onSelectTable={handleSelectTable}
+              onRemoveTable={handleRemoveTable}
+              onManageStorage={() => setShowStoredDatasets(true)}
+            />
+
+            <StoredDatasets
+              open={showStoredDatasets}
+              openTables={tables.map(table => table.name)}
+              onClose={() => setShowStoredDatasets(false)}
+              onOpenDataset={handleOpenStoredDataset}
+              onDatasetDeleted={handleStoredDatasetDeleted}
+            />
+
             <Tabs selectedIndex={selectedTab} onChange={(e) => setSelectedTab(e.selectedIndex)}>
               <TabList aria-label="Dashboard navigation">
                 <Tab>
@@ -185,13 +449,21 @@ const DataDashboard: React.FC = () => {
                         >
                           Try with Sample E-commerce Data
                         </Button>
+                        <Button
+                          kind="ghost"
+                          className="ml-2"
+                          onClick={() => setShowStoredDatasets(true)}
+                          renderIcon={DataTableIcon}
+                        >
+                          Manage Stored Datasets
+                        </Button>
                       </div>
                     </div>
 
                     <Grid>
                       <Column sm={4} md={8} lg={12}>
                         <FileUpload
-                          onDataLoad={handleDataLoad}
+                          onDataLoad={handleTablesLoad}
                           isLoading={isLoadingFile}
                           setIsLoading={setIsLoadingFile}
                         />
@@ -204,6 +476,14 @@ const DataDashboard: React.FC = () => {
                           data={data}
                           stats={stats}
                           filename={filename}
+                          columns={activeTable?.columns}
+                          parseReport={activeTable?.parseReport}
+                          jsonPaths={activeTable?.jsonPaths}
+                          overrides={activeTable?.overrides}
+                          castFailures={activeTable?.castFailures}
+                          onOverride={handleOverride}
+                          onRename={handleRename}
+                          onResetSchema={handleResetSchema}
                           isLoading={isLoadingFile}
                         />
                       </div>
@@ -239,9 +519,12 @@ const DataDashboard: React.FC = () => {
                     <Column sm={4} md={8} lg={12}>
                       <QueryInterface
                         data={data}
+                        tables={tables}
+                        activeTable={activeTableName}
                         onQueryResult={handleQueryResult}
                         isLoading={isLoadingQuery}
                         setIsLoading={setIsLoadingQuery}
+                        rerunRequest={rerunRequest}
                       />
                     </Column>
                   </Grid>
@@ -272,8 +555,11 @@ const DataDashboard: React.FC = () => {
                         ) : (
                           <DataVisualization
                             data={queryResult.data}
+                            columns={resultColumns}
                             query={queryResult.sql}
                             sql={queryResult.sql}
+                            chartSettings={queryHistory.find(item => item.id === resultHistoryId)?.chart}
+                            onChartSettingsChange={handleChartSettingsChange}
                           />
                         )}
                       </Column>
@@ -1,15 +1,66 @@
-import React from 'react';
-import { Tile, SkeletonText } from '@carbon/react';
-import { DataRow, DataStats } from '@/utils/dataProcessor';
+import React, { useEffect, useState } from 'react';
+import { Tile, SkeletonText, InlineNotification, Button } from '@carbon/react';
+import { ColumnMeta, columnDisplayName, DataRow, DataStats, ParseReport } from '@/utils/dataProcessor';
+import { InferredType } from '@/utils/typeInference';
+import { CastFailure, ColumnOverride } from '@/utils/schemaOverride';
+import { ColumnProfile, profileColumns } from '@/utils/columnProfile';
+import ColumnProfiles from './ColumnProfiles';
+import ParseReportDialog from './ParseReportDialog';
+import SchemaPanel from './SchemaPanel';
 
 interface DataOverviewProps {
   data: DataRow[];
   stats: DataStats;
   filename: string;
+  columns?: ColumnMeta[];
+  parseReport?: ParseReport;
+  // JSON path of each column, shown as a tooltip on its name.
+  jsonPaths?: Record<string, string>;
+  overrides?: Record<string, ColumnOverride>;
+  castFailures?: Record<string, CastFailure>;
+  // Schema edits; the panel is only offered when these are given.
+  onOverride?: (column: string, override: ColumnOverride) => void;
+  onRename?: (column: string, displayName: string) => void;
+  onResetSchema?: () => void;
   isLoading?: boolean;
 }
 
-const DataOverview: React.FC<DataOverviewProps> = ({ data, stats, filename, isLoading = false }) => {
+const DataOverview: React.FC<DataOverviewProps> = ({
+  data,
+  stats,
+  filename,
+  columns,
+  parseReport,
+  jsonPaths,
+  overrides,
+  castFailures,
+  onOverride,
+  onRename,
+  onResetSchema,
+  isLoading = false
+}) => {
+  const [showParseReport, setShowParseReport] = useState(false);
+  const [showSchema, setShowSchema] = useState(false);
+  const [profiles, setProfiles] = useState<ColumnProfile[] | null>(null);
+  const [profileError, setProfileError] = useState<string | null>(null);
+
+  // Profiles are recomputed whenever the rows or their types change; a newer
+  // run cancels the one in progress.
+  useEffect(() => {
+    if (isLoading) return;
+    const controller = new AbortController();
+    setProfiles(null);
+    setProfileError(null);
+    profileColumns(data, stats, controller.signal)
+      .then(result => {
+        if (!controller.signal.aborted) setProfiles(result);
+      })
+      .catch(error => {
+        if (!controller.signal.aborted) setProfileError(error instanceof Error ? error.message : String(error));
+      });
+    return () => controller.abort();
+  }, [data, stats, isLoading]);
+
   if (isLoading) {
     return (
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
@@ -23,6 +74,27 @@ const DataOverview: React.FC<DataOverviewProps> = ({ data, stats, filename, isLo
     );
   }
 
+  const describeType = (inferred: InferredType) => [
+    `${inferred.type.replace('_', ' ')}${inferred.format ? ` (${inferred.format})` : ''}`,
+    `${Math.round(inferred.confidence * 100)}% confidence`,
+    inferred.mismatches > 0 ? `${inferred.mismatches.toLocaleString()} values don't match` : ''
+  ].filter(Boolean).join(', ');
+
+  const columnChip = (col: string, className: string) => {
+    const inferred = stats.columnTypes?.[col];
+    return (
+      <span
+        key={col}
+        className={`px-2 py-1 rounded text-sm ${className}`}
+        title={[jsonPaths?.[col] || col, inferred && describeType(inferred)].filter(Boolean).join('\n')}
+      >
+        {columnDisplayName(columns, col)}
+        {inferred && <span className="ml-1 opacity-70 text-xs">{inferred.type.replace('_', ' ')}</span>}
+        {inferred && inferred.mismatches > 0 && <span className="ml-1 text-red-700 text-xs">({inferred.mismatches})</span>}
+      </span>
+    );
+  };
+
   const metrics = [
     {
       label: 'Total Rows',
@@ -48,10 +120,34 @@ const DataOverview: React.FC<DataOverviewProps> = ({ data, stats, filename, isLo
 
   return (
     <div className="mb-6">
-      <div className="mb-4">
-        <h2 className="text-xl font-semibold mb-2">Dataset Overview</h2>
-        <p className="text-gray-600">File: {filename}</p>
+      <div className="mb-4 flex justify-between items-start">
+        <div>
+          <h2 className="text-xl font-semibold mb-2">Dataset Overview</h2>
+          <p className="text-gray-600">File: {filename}</p>
+        </div>
+        {onOverride && (
+          <Button kind="tertiary" size="sm" onClick={() => setShowSchema(!showSchema)}>
+            {showSchema ? 'Hide schema' : 'Edit schema'}
+          </Button>
+        )}
       </div>
+
+      {parseReport && parseReport.totalIssues > 0 && (
+        <div className="mb-4 flex items-center gap-2">
+          <InlineNotification
+            kind="warning"
+            lowContrast
+            hideCloseButton
+            title="Malformed rows"
+            subtitle={`${parseReport.totalIssues.toLocaleString()} rows did not match the header and were ${
+              parseReport.resolution === 'skip' ? 'skipped' : 'padded or truncated'
+            }.`}
+          />
+          <Button kind="ghost" size="sm" onClick={() => setShowParseReport(true)}>
+            View parse report
+          </Button>
+        </div>
+      )}
       
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         {metrics.map((metric, index) => (
@@ -73,11 +169,7 @@ const DataOverview: React.FC<DataOverviewProps> = ({ data, stats, filename, isLo
         <div className="mt-4 p-4 bg-blue-50 rounded-lg">
           <h3 className="font-medium text-gray-900 mb-2">Numeric Columns:</h3>
           <div className="flex flex-wrap gap-2">
-            {stats.numericColumns.map((col, index) => (
-              <span key={index} className="px-2 py-1 bg-blue-100 text-blue-800 rounded text-sm">
-                {col}
-              </span>
-            ))}
+            {stats.numericColumns.map(col => columnChip(col, 'bg-blue-100 text-blue-800'))}
           </div>
         </div>
       )}
@@ -86,14 +178,41 @@ const DataOverview: React.FC<DataOverviewProps> = ({ data, stats, filename, isLo
         <div className="mt-2 p-4 bg-green-50 rounded-lg">
           <h3 className="font-medium text-gray-900 mb-2">Text Columns:</h3>
           <div className="flex flex-wrap gap-2">
-            {stats.textColumns.map((col, index) => (
-              <span key={index} className="px-2 py-1 bg-green-100 text-green-800 rounded text-sm">
-                {col}
-              </span>
-            ))}
+            {stats.textColumns.map(col => columnChip(col, 'bg-green-100 text-green-800'))}
           </div>
         </div>
       )}
+
+      {stats.dateColumns.length > 0 && (
+        <div className="mt-2 p-4 bg-purple-50 rounded-lg">
+          <h3 className="font-medium text-gray-900 mb-2">Date Columns:</h3>
+          <div className="flex flex-wrap gap-2">
+            {stats.dateColumns.map(col => columnChip(col, 'bg-purple-100 text-purple-800'))}
+          </div>
+        </div>
+      )}
+
+      <ColumnProfiles profiles={profiles} columns={columns} error={profileError} />
+
+      {showSchema && onOverride && (
+        <SchemaPanel
+          columnNames={Object.keys(data[0] || {})}
+          stats={stats}
+          columns={columns}
+          overrides={overrides}
+          castFailures={castFailures}
+          onOverride={onOverride}
+          onRename={onRename}
+          onReset={onResetSchema}
+        />
+      )}
+
+      <ParseReportDialog
+        open={showParseReport}
+        filename={filename}
+        report={parseReport || null}
+        onClose={() => setShowParseReport(false)}
+      />
     </div>
   );
 };
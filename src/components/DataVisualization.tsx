@@ -1,4 +1,4 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   Chart as ChartJS,
   CategoryScale,
@@ -10,9 +10,17 @@ import {
   Tooltip,
   Legend,
   ArcElement,
-  RadialLinearScale
+  RadialLinearScale,
+  BarController,
+  LineController,
+  Filler,
+  TimeScale,
+  ChartData,
+  Scale,
+  TooltipItem
 } from 'chart.js';
-import { Bar, Line, Pie, Radar } from 'react-chartjs-2';
+import 'chartjs-adapter-date-fns';
+import { Bar, Bubble, Chart, Doughnut, Line, Pie, Radar, Scatter } from 'react-chartjs-2';
 import { 
   Select, 
   SelectItem, 
@@ -25,12 +33,46 @@ import {
   TableRow,
   TableHeader,
   TableBody,
-  TableCell
+  TableCell,
+  NumberInput,
+  ClickableTile,
+  Checkbox,
+  InlineNotification
 } from '@carbon/react';
-import { Download, ChartBar, ChartLine, ChartPie } from '@carbon/icons-react';
-import { DataRow } from '@/utils/dataProcessor';
+import { Download, ChartBar, ChartLine, ChartPie, Add, Close } from '@carbon/icons-react';
+import { analyzeData, ColumnMeta, columnDisplayName, DataRow } from '@/utils/dataProcessor';
+import { AggregateFunction } from '@/utils/queryPlan';
+import {
+  AGGREGATE_LABELS,
+  BoxStats,
+  buildBoxPlotSeries,
+  buildChartSeries,
+  buildHeatmapSeries,
+  buildHistogramSeries,
+  buildScatterSeries,
+  ChartSettings,
+  ChartSort,
+  ChartStacking,
+  ChartTruncation,
+  ChartType,
+  DEFAULT_BINS,
+  numericColumnsOf,
+  reconcileChartSettings,
+  ROW_NUMBER,
+  toPercentages
+} from '@/utils/chartBuilder';
+import { recommendCharts } from '@/utils/chartRecommender';
+import {
+  bucketLabel,
+  buildTimeSeries,
+  DEFAULT_TIME_AXIS,
+  TIME_BUCKET_LABELS,
+  TimeAxisSettings,
+  TimeBucket,
+  TimeComparison
+} from '@/utils/timeSeries';
 
-// Register ChartJS components
+// Register ChartJS components (the controllers are needed for mixed bar and line charts)
 ChartJS.register(
   CategoryScale,
   LinearScale,
@@ -41,118 +83,176 @@ ChartJS.register(
   Tooltip,
   Legend,
   ArcElement,
-  RadialLinearScale
+  RadialLinearScale,
+  BarController,
+  LineController,
+  Filler,
+  TimeScale
 );
 
 interface DataVisualizationProps {
   data: DataRow[];
+  // Original names for the result's columns; other columns are shown by key.
+  columns?: ColumnMeta[];
   query: string;
   sql: string;
+  // Chart settings saved for this result, and where to report changes to them.
+  chartSettings?: ChartSettings;
+  onChartSettingsChange?: (settings: ChartSettings) => void;
 }
 
-type ChartType = 'table' | 'bar' | 'line' | 'pie' | 'radar';
+const CHART_TYPE_LABELS: Record<ChartType, string> = {
+  table: 'Data Table',
+  bar: 'Bar Chart',
+  line: 'Line Chart',
+  area: 'Area Chart',
+  combo: 'Bar + Line (Dual Axis)',
+  pie: 'Pie Chart',
+  doughnut: 'Doughnut Chart',
+  radar: 'Radar Chart',
+  scatter: 'Scatter Plot',
+  histogram: 'Histogram',
+  box: 'Box Plot',
+  heatmap: 'Heatmap'
+};
+
+const COLORS = [
+  'rgba(54, 162, 235, 0.8)',
+  'rgba(255, 99, 132, 0.8)',
+  'rgba(255, 205, 86, 0.8)',
+  'rgba(75, 192, 192, 0.8)',
+  'rgba(153, 102, 255, 0.8)',
+  'rgba(255, 159, 64, 0.8)'
+];
+const color = (index: number) => COLORS[index % COLORS.length];
+
+// Heatmap cells go from light to dark blue as the value goes from min to max.
+const heatShade = (value: number, min: number, max: number): string =>
+  `rgba(54, 162, 235, ${(0.1 + 0.9 * (max > min ? (value - min) / (max - min) : 1)).toFixed(2)})`;
+
+const STACKABLE_TYPES: ChartType[] = ['bar', 'area'];
+// Chart types drawn from grouped labels and datasets.
+const LABELLED_TYPES: ChartType[] = ['bar', 'line', 'area', 'combo', 'pie', 'doughnut', 'radar'];
+// Chart types that plot only the first measure.
+const SINGLE_MEASURE_TYPES: ChartType[] = ['pie', 'doughnut', 'scatter', 'box', 'heatmap'];
+// Chart types that plot row values, so the measure is not aggregated.
+const RAW_VALUE_TYPES: ChartType[] = ['scatter', 'box'];
+// Chart types whose x values are grouped, so they can be sorted and cut.
+const GROUPED_TYPES: ChartType[] = ['bar', 'line', 'area', 'combo', 'pie', 'doughnut', 'radar', 'box', 'heatmap'];
+
+// Chart types drawn on a time axis when x is a date column.
+const TIME_AXIS_TYPES: ChartType[] = ['bar', 'line', 'area'];
+// At most this many labelled ticks on a time axis.
+const TIME_TICKS = 12;
+
+const COMPARISON_OPTIONS: { value: TimeComparison; label: string }[] = [
+  { value: 'none', label: 'Nothing' },
+  { value: 'previous', label: 'Previous period' },
+  { value: 'year', label: 'Same period a year earlier' }
+];
+
+// What a chart leaves out of a large result, in a sentence or two.
+const truncationNotice = (truncation: ChartTruncation, x: string, series: string): string => {
+  const rest = ({ total, shown }: { total: number; shown: number }) => {
+    const count = total - shown;
+    const verb = count === 1 ? 'is' : 'are';
+    return `${count.toLocaleString()} more ${verb} ${truncation.other ? 'combined into “Other”' : 'left out'}`;
+  };
+  const parts: string[] = [];
+  if (truncation.values) {
+    parts.push(`Showing ${truncation.values.shown.toLocaleString()} of ${truncation.values.total.toLocaleString()} ${x} values; ${rest(truncation.values)}.`);
+  }
+  if (truncation.series) {
+    parts.push(`Showing ${truncation.series.shown.toLocaleString()} of ${truncation.series.total.toLocaleString()} ${series} series; ${rest(truncation.series)}.`);
+  }
+  if (truncation.points) {
+    parts.push(`Lines are downsampled from ${truncation.points.total.toLocaleString()} to ${truncation.points.shown.toLocaleString()} points, keeping their peaks and dips.`);
+  }
+  if (truncation.periods) {
+    parts.push(`Showing the latest ${truncation.periods.shown.toLocaleString()} of ${truncation.periods.total.toLocaleString()} periods; choose a longer period to see them all.`);
+  }
+  if (truncation.sampled) {
+    parts.push(`Showing an even sample of ${truncation.sampled.shown.toLocaleString()} of ${truncation.sampled.total.toLocaleString()} points.`);
+  }
+  return parts.join(' ');
+};
+
+const SERIES_LABELS: Partial<Record<ChartType, string>> = {
+  scatter: 'Color by',
+  heatmap: 'Y axis'
+};
+
+const STACKING_OPTIONS: { value: ChartStacking; label: string }[] = [
+  { value: 'none', label: 'Side by side' },
+  { value: 'stacked', label: 'Stacked' },
+  { value: 'percent', label: 'Stacked to 100%' }
+];
+
+const SORT_OPTIONS: { value: ChartSort; label: string }[] = [
+  { value: 'none', label: 'As returned' },
+  { value: 'x-asc', label: 'X ascending' },
+  { value: 'x-desc', label: 'X descending' },
+  { value: 'value-desc', label: 'First measure, largest first' },
+  { value: 'value-asc', label: 'First measure, smallest first' }
+];
 
-const DataVisualization: React.FC<DataVisualizationProps> = ({ data, query, sql }) => {
-  const [chartType, setChartType] = React.useState<ChartType>('table');
+const DataVisualization: React.FC<DataVisualizationProps> = ({
+  data,
+  columns: columnMeta,
+  query,
+  sql,
+  chartSettings,
+  onChartSettingsChange
+}) => {
+  // Changes made here before the parent has stored them.
+  const [editedSettings, setEditedSettings] = useState<ChartSettings | null>(null);
   const chartRef = useRef(null);
 
   useEffect(() => {
-    // Auto-select appropriate chart type based on data and query
-    if (data.length === 0) {
-      setChartType('table');
-      return;
-    }
-
-    const columns = Object.keys(data[0]);
-    const numericColumns = columns.filter(col => 
-      data.every(row => !isNaN(Number(row[col])) && row[col] !== '')
-    );
+    setEditedSettings(null);
+  }, [data]);
 
-    const queryLower = query.toLowerCase();
-
-    if (queryLower.includes('trend') || queryLower.includes('over time')) {
-      setChartType('line');
-    } else if (queryLower.includes('count') || queryLower.includes('group')) {
-      setChartType('bar');
-    } else if (queryLower.includes('distribution') && numericColumns.length > 0) {
-      setChartType('pie');
-    } else if (columns.length > 2 && numericColumns.length >= 2) {
-      setChartType('bar');
-    } else {
-      setChartType('table');
-    }
-  }, [data, query]);
+  const displayName = useCallback(
+    (key: string) => columnDisplayName(columnMeta, key, key.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())),
+    [columnMeta]
+  );
 
-  const generateChartData = () => {
-    if (data.length === 0) return null;
+  const recommendations = useMemo(
+    () => recommendCharts(data, key => columnDisplayName(columnMeta, key, key)),
+    [data, columnMeta]
+  );
 
-    const columns = Object.keys(data[0]);
-    const numericColumns = columns.filter(col => 
-      data.slice(0, 10).every(row => !isNaN(Number(row[col])) && row[col] !== '')
-    );
-    const textColumns = columns.filter(col => !numericColumns.includes(col));
-
-    const labels = data.map((row, index) => {
-      const labelCol = textColumns[0] || columns[0];
-      return String(row[labelCol] || `Row ${index + 1}`);
-    });
-
-    const colors = [
-      'rgba(54, 162, 235, 0.8)',
-      'rgba(255, 99, 132, 0.8)',
-      'rgba(255, 205, 86, 0.8)',
-      'rgba(75, 192, 192, 0.8)',
-      'rgba(153, 102, 255, 0.8)',
-      'rgba(255, 159, 64, 0.8)'
-    ];
-
-    if (chartType === 'pie') {
-      const valueCol = numericColumns[0] || columns[1];
-      return {
-        labels: labels.slice(0, 10),
-        datasets: [{
-          data: data.slice(0, 10).map(row => Number(row[valueCol]) || 0),
-          backgroundColor: colors,
-          borderColor: colors.map(color => color.replace('0.8', '1')),
-          borderWidth: 1
-        }]
-      };
-    }
+  // Without saved settings the best recommendation is shown.
+  const settings = useMemo(
+    () => reconcileChartSettings(editedSettings || chartSettings || recommendations[0].settings, data),
+    [editedSettings, chartSettings, recommendations, data]
+  );
+  const chartType = settings.type;
 
-    if (chartType === 'radar') {
-      const numCols = numericColumns.slice(0, 6);
-      return {
-        labels: numCols,
-        datasets: [{
-          label: 'Values',
-          data: numCols.map(col => {
-            const avg = data.reduce((sum, row) => sum + (Number(row[col]) || 0), 0) / data.length;
-            return avg;
-          }),
-          backgroundColor: 'rgba(54, 162, 235, 0.2)',
-          borderColor: 'rgba(54, 162, 235, 1)',
-          borderWidth: 2
-        }]
-      };
-    }
+  const updateSettings = (changes: Partial<ChartSettings>) => {
+    const next = { ...settings, ...changes };
+    setEditedSettings(next);
+    onChartSettingsChange?.(next);
+  };
 
-    // Bar and Line charts
-    const datasets = numericColumns.slice(0, 3).map((col, index) => ({
-      label: col,
-      data: data.map(row => Number(row[col]) || 0),
-      backgroundColor: colors[index],
-      borderColor: colors[index].replace('0.8', '1'),
-      borderWidth: 1,
-      tension: 0.4
-    }));
+  const setChartType = (type: ChartType) => updateSettings({ type });
 
-    return {
-      labels: labels.slice(0, 20),
-      datasets: datasets
-    };
+  const applySettings = (next: ChartSettings) => {
+    setEditedSettings(next);
+    onChartSettingsChange?.(next);
   };
 
-  const chartData = generateChartData();
+  // Date columns of the result get a time axis.
+  const resultStats = useMemo(() => analyzeData(data), [data]);
+
+  const resultColumns = Object.keys(data[0] || {});
+  const numericResultColumns = numericColumnsOf(data);
+
+  const noChart = (
+    <div className="text-center py-8">
+      <p className="text-gray-500">No data available for visualization</p>
+    </div>
+  );
 
   const chartOptions = {
     responsive: true,
@@ -166,11 +266,461 @@ const DataVisualization: React.FC<DataVisualizationProps> = ({ data, query, sql
         text: `Data Visualization - ${query.slice(0, 50)}${query.length > 50 ? '...' : ''}`
       },
     },
-    scales: chartType !== 'pie' && chartType !== 'radar' ? {
-      y: {
-        beginAtZero: true,
+  };
+
+  const stacking = STACKABLE_TYPES.includes(chartType) ? settings.stacking || 'none' : 'none';
+  const timeSettings = { ...DEFAULT_TIME_AXIS, ...settings.time };
+
+  const updateTime = (changes: Partial<TimeAxisSettings>) => updateSettings({ time: { ...timeSettings, ...changes } });
+
+  // Building series walks every row, so it only happens when the data or settings change.
+  const { timeSeries, heatmap, scatter, boxPlot, chartSeries } = useMemo(() => {
+    const measured = settings.measures.length > 0;
+    const timeSeries = TIME_AXIS_TYPES.includes(settings.type) && resultStats.dateColumns.includes(settings.x) && measured
+      ? buildTimeSeries(data, settings, displayName, resultStats.columnTypes?.[settings.x]?.format)
+      : null;
+    return {
+      timeSeries,
+      heatmap: settings.type === 'heatmap' && measured ? buildHeatmapSeries(data, settings, displayName) : null,
+      scatter: settings.type === 'scatter' && measured ? buildScatterSeries(data, settings, displayName) : null,
+      boxPlot: settings.type === 'box' && measured ? buildBoxPlotSeries(data, settings, displayName) : null,
+      chartSeries: settings.type === 'histogram'
+        ? buildHistogramSeries(data, settings, displayName)
+        : LABELLED_TYPES.includes(settings.type) && !timeSeries && measured
+          ? buildChartSeries(data, settings, displayName)
+          : null
+    };
+  }, [data, settings, displayName, resultStats]);
+
+  // What the chart leaves out, whichever builder drew it.
+  const truncation = (timeSeries || heatmap || scatter || boxPlot || chartSeries)?.truncation;
+
+  const renderScatter = () => {
+    const datasets = scatter.datasets.map((dataset, index) => ({
+      ...dataset,
+      backgroundColor: color(index).replace('0.8', settings.size ? '0.5' : '0.8'),
+      borderColor: color(index).replace('0.8', '1')
+    }));
+    const options = {
+      ...chartOptions,
+      scales: {
+        x: {
+          type: 'linear' as const,
+          title: { display: true, text: displayName(settings.x) },
+        },
+        y: {
+          title: { display: true, text: displayName(settings.measures[0]?.column || '') },
+        },
       },
-    } : undefined,
+    };
+
+    if (!settings.size) {
+      return <Scatter ref={chartRef} data={{ datasets }} options={options} height={400} />;
+    }
+    return (
+      <Bubble
+        ref={chartRef}
+        data={{ datasets }}
+        options={{
+          ...options,
+          plugins: {
+            ...options.plugins,
+            tooltip: {
+              callbacks: {
+                label: (item: TooltipItem<'bubble'>) =>
+                  `${item.dataset.label}: (${item.parsed.x.toLocaleString()}, ${item.parsed.y.toLocaleString()})`
+              }
+            }
+          }
+        }}
+        height={400}
+      />
+    );
+  };
+
+  const renderBoxPlot = () => {
+    const { label, labels, boxes } = boxPlot;
+    const summary = (box: BoxStats) =>
+      [box.min, box.q1, box.median, box.q3, box.max].map(value => value.toLocaleString()).join(' · ');
+
+    // Boxes and whiskers are floating bars; medians and outliers are points.
+    const boxData: ChartData<'bar' | 'line', (number | [number, number] | { x: string; y: number })[]> = {
+      labels,
+      datasets: [
+        {
+          type: 'line',
+          label: 'Median',
+          data: boxes.map(box => box.median),
+          showLine: false,
+          pointStyle: 'line',
+          pointRadius: 14,
+          borderWidth: 3,
+          borderColor: 'rgba(0, 0, 0, 0.9)',
+          order: 0
+        },
+        {
+          type: 'line',
+          label: 'Outliers',
+          data: boxes.flatMap((box, index) => box.outliers.map(y => ({ x: labels[index], y }))),
+          showLine: false,
+          pointRadius: 3,
+          backgroundColor: color(1),
+          borderColor: color(1).replace('0.8', '1'),
+          order: 1
+        },
+        {
+          type: 'bar',
+          label: `${label} (Q1 to Q3)`,
+          data: boxes.map(box => [box.q1, box.q3]),
+          backgroundColor: color(0).replace('0.8', '0.5'),
+          borderColor: color(0).replace('0.8', '1'),
+          borderWidth: 1,
+          grouped: false,
+          barPercentage: 0.6,
+          order: 2
+        },
+        {
+          type: 'bar',
+          label: 'Range',
+          data: boxes.map(box => [box.min, box.max]),
+          backgroundColor: 'rgba(0, 0, 0, 0.6)',
+          grouped: false,
+          barPercentage: 0.03,
+          order: 3
+        }
+      ]
+    };
+
+    return (
+      <Chart
+        type="bar"
+        ref={chartRef}
+        data={boxData}
+        options={{
+          ...chartOptions,
+          plugins: {
+            ...chartOptions.plugins,
+            tooltip: {
+              callbacks: {
+                label: (item: TooltipItem<'bar' | 'line'>) => (item.datasetIndex >= 2
+                  ? `Min · Q1 · median · Q3 · max: ${summary(boxes[item.dataIndex])}`
+                  : `${item.dataset.label}: ${item.formattedValue}`)
+              }
+            }
+          },
+          scales: {
+            y: { title: { display: true, text: label } },
+          },
+        }}
+        height={400}
+      />
+    );
+  };
+
+  const renderHeatmap = () => {
+    const { label, xLabels, yLabels, values, min, max } = heatmap;
+
+    // Every cell is an equal-height segment of a fully stacked bar, shaded by its value.
+    const datasets = yLabels.map((yLabel, y) => ({
+      label: yLabel,
+      data: xLabels.map(() => 1),
+      backgroundColor: values[y].map(value => (value === null ? 'rgba(0, 0, 0, 0.04)' : heatShade(value, min, max))),
+      borderColor: 'rgba(255, 255, 255, 1)',
+      borderWidth: 1,
+      barPercentage: 1,
+      categoryPercentage: 1
+    }));
+
+    return (
+      <Bar
+        ref={chartRef}
+        data={{ labels: xLabels, datasets }}
+        options={{
+          ...chartOptions,
+          plugins: {
+            ...chartOptions.plugins,
+            legend: { display: false },
+            tooltip: {
+              callbacks: {
+                label: (item: TooltipItem<'bar'>) => {
+                  const value = values[item.datasetIndex][item.dataIndex];
+                  return `${yLabels[item.datasetIndex]}: ${value === null ? 'no rows' : `${label} ${value.toLocaleString()}`}`;
+                }
+              }
+            }
+          },
+          scales: {
+            x: { stacked: true, grid: { display: false } },
+            y: {
+              stacked: true,
+              min: 0,
+              max: yLabels.length,
+              grid: { display: false },
+              // One tick in the middle of each row, labelled with its value.
+              afterBuildTicks: (axis: Scale) => {
+                axis.ticks = yLabels.map((_, index) => ({ value: index + 0.5 }));
+              },
+              ticks: { callback: (value: number | string) => yLabels[Math.floor(Number(value))] }
+            },
+          },
+        }}
+        height={400}
+      />
+    );
+  };
+
+  const renderTimeSeries = () => {
+    const { bucket, times } = timeSeries;
+    // Overlays are not stacked, so they are left out of stacked charts.
+    const plotted = stacking === 'none' ? timeSeries.datasets : timeSeries.datasets.filter(dataset => !dataset.overlay);
+    const datasets = stacking === 'percent' ? toPercentages(plotted) : plotted;
+    const stacked = stacking !== 'none';
+    // Overlays take the color of the series they are derived from.
+    const seriesNumber = new Map(timeSeries.datasets.filter(dataset => !dataset.overlay).map((dataset, index) => [dataset, index]));
+    const colorOf = (index: number) => {
+      const dataset = plotted[index];
+      return color(seriesNumber.get(dataset.overlay ? timeSeries.datasets[dataset.source] : dataset));
+    };
+
+    const timeData: ChartData<'bar' | 'line', { x: number; y: number | null }[]> = {
+      datasets: datasets.map((dataset, index) => {
+        const points = dataset.data.map((y, period) => ({ x: times[period], y }));
+        if (dataset.overlay) {
+          return {
+            type: 'line' as const,
+            label: dataset.label,
+            data: points,
+            borderColor: colorOf(index).replace('0.8', '1'),
+            backgroundColor: colorOf(index),
+            borderWidth: 2,
+            borderDash: dataset.overlay === 'rolling' ? [] : [6, 4],
+            pointRadius: 0,
+            tension: 0.4,
+            fill: false,
+            // Each overlay is its own stack, so it is never added to the series.
+            stack: dataset.label
+          };
+        }
+        return chartType === 'bar'
+          ? {
+            type: 'bar' as const,
+            label: dataset.label,
+            data: points,
+            backgroundColor: colorOf(index),
+            borderColor: colorOf(index).replace('0.8', '1'),
+            borderWidth: 1
+          }
+          : {
+            type: 'line' as const,
+            label: dataset.label,
+            data: points,
+            backgroundColor: chartType === 'area' ? colorOf(index).replace('0.8', '0.4') : colorOf(index),
+            borderColor: colorOf(index).replace('0.8', '1'),
+            borderWidth: 1,
+            pointRadius: times.length > 60 ? 0 : 3,
+            tension: 0.4,
+            fill: chartType === 'area' ? (stacked && index > 0 ? '-1' : 'origin') : false
+          };
+      })
+    };
+
+    return (
+      <Chart
+        type={chartType === 'bar' ? 'bar' : 'line'}
+        ref={chartRef}
+        data={timeData}
+        options={{
+          ...chartOptions,
+          plugins: {
+            ...chartOptions.plugins,
+            tooltip: {
+              callbacks: {
+                title: (items: TooltipItem<'bar' | 'line'>[]) => (items.length > 0 ? bucketLabel(items[0].parsed.x, bucket) : '')
+              }
+            }
+          },
+          scales: {
+            x: {
+              type: 'time',
+              time: { unit: bucket },
+              min: times[0],
+              max: times[times.length - 1],
+              offset: chartType === 'bar',
+              stacked: stacked && chartType === 'bar',
+              title: { display: true, text: `${displayName(settings.x)} (by ${TIME_BUCKET_LABELS[bucket].toLowerCase()})` },
+              // Ticks at period starts, evenly thinned and labelled in UTC like the buckets.
+              afterBuildTicks: (axis: Scale) => {
+                const step = Math.ceil(times.length / TIME_TICKS);
+                axis.ticks = times.filter((_, index) => index % step === 0).map(value => ({ value }));
+              },
+              ticks: { callback: (value: number | string) => bucketLabel(Number(value), bucket) }
+            },
+            y: {
+              beginAtZero: true,
+              stacked,
+              max: stacking === 'percent' ? 100 : undefined,
+              title: { display: stacking === 'percent', text: 'Percent of total' }
+            },
+          },
+        }}
+        height={400}
+      />
+    );
+  };
+
+  const renderSeriesChart = () => {
+    const { labels } = chartSeries;
+    const datasets = stacking === 'percent' ? toPercentages(chartSeries.datasets) : chartSeries.datasets;
+
+    const stacked = stacking !== 'none';
+    const valueAxis = {
+      beginAtZero: true,
+      stacked,
+      max: stacking === 'percent' ? 100 : undefined,
+      title: { display: stacking === 'percent', text: 'Percent of total' }
+    };
+
+    switch (chartType) {
+      case 'histogram':
+        return (
+          <Bar
+            ref={chartRef}
+            data={{
+              labels,
+              datasets: datasets.map(dataset => ({
+                ...dataset,
+                backgroundColor: color(0),
+                borderColor: color(0).replace('0.8', '1'),
+                borderWidth: 1,
+                barPercentage: 1,
+                categoryPercentage: 1
+              }))
+            }}
+            options={{ ...chartOptions, scales: { y: { beginAtZero: true } } }}
+            height={400}
+          />
+        );
+      case 'pie':
+      case 'doughnut': {
+        const sliceData = {
+          labels,
+          datasets: [{
+            label: datasets[0].label,
+            data: datasets[0].data,
+            backgroundColor: labels.map((_, index) => color(index)),
+            borderColor: labels.map((_, index) => color(index).replace('0.8', '1')),
+            borderWidth: 1
+          }]
+        };
+        return chartType === 'pie'
+          ? <Pie ref={chartRef} data={sliceData} options={chartOptions} height={400} />
+          : <Doughnut ref={chartRef} data={sliceData} options={chartOptions} height={400} />;
+      }
+      case 'radar':
+        return (
+          <Radar
+            ref={chartRef}
+            data={{
+              labels,
+              datasets: datasets.map((dataset, index) => ({
+                ...dataset,
+                backgroundColor: color(index).replace('0.8', '0.2'),
+                borderColor: color(index).replace('0.8', '1'),
+                borderWidth: 2
+              }))
+            }}
+            options={chartOptions}
+            height={400}
+          />
+        );
+      case 'line':
+      case 'area':
+        return (
+          <Line
+            ref={chartRef}
+            data={{
+              labels,
+              datasets: datasets.map((dataset, index) => ({
+                ...dataset,
+                backgroundColor: chartType === 'area' ? color(index).replace('0.8', '0.4') : color(index),
+                borderColor: color(index).replace('0.8', '1'),
+                borderWidth: 1,
+                tension: 0.4,
+                // Stacked areas fill down to the series below them.
+                fill: chartType === 'area' ? (stacked && index > 0 ? '-1' : 'origin') : false
+              }))
+            }}
+            options={{ ...chartOptions, scales: { y: valueAxis } }}
+            height={400}
+          />
+        );
+      case 'combo': {
+        // The first measure is drawn as bars on the left axis, the others as lines on the right.
+        const comboData: ChartData<'bar' | 'line'> = {
+          labels,
+          datasets: datasets.map((dataset, index) => (index === 0
+            ? {
+              ...dataset,
+              type: 'bar' as const,
+              yAxisID: 'y',
+              backgroundColor: color(index),
+              borderColor: color(index).replace('0.8', '1'),
+              borderWidth: 1
+            }
+            : {
+              ...dataset,
+              type: 'line' as const,
+              yAxisID: 'y1',
+              backgroundColor: color(index),
+              borderColor: color(index).replace('0.8', '1'),
+              borderWidth: 2,
+              tension: 0.4
+            }))
+        };
+        return (
+          <Chart
+            type="bar"
+            ref={chartRef}
+            data={comboData}
+            options={{
+              ...chartOptions,
+              scales: {
+                y: {
+                  beginAtZero: true,
+                  position: 'left',
+                  title: { display: true, text: datasets[0]?.label || '' }
+                },
+                y1: {
+                  beginAtZero: true,
+                  position: 'right',
+                  display: datasets.length > 1,
+                  grid: { drawOnChartArea: false },
+                  title: { display: true, text: datasets.slice(1).map(dataset => dataset.label).join(', ') }
+                },
+              },
+            }}
+            height={400}
+          />
+        );
+      }
+      default:
+        return (
+          <Bar
+            ref={chartRef}
+            data={{
+              labels,
+              datasets: datasets.map((dataset, index) => ({
+                ...dataset,
+                backgroundColor: color(index),
+                borderColor: color(index).replace('0.8', '1'),
+                borderWidth: 1
+              }))
+            }}
+            options={{ ...chartOptions, scales: { x: { stacked }, y: valueAxis } }}
+            height={400}
+          />
+        );
+    }
   };
 
   const exportChart = () => {
@@ -185,38 +735,18 @@ const DataVisualization: React.FC<DataVisualizationProps> = ({ data, query, sql
   };
 
   const renderChart = () => {
-    if (!chartData || data.length === 0) {
-      return (
-        <div className="text-center py-8">
-          <p className="text-gray-500">No data available for visualization</p>
-        </div>
-      );
-    }
-
-    const chartProps = {
-      ref: chartRef,
-      data: chartData,
-      options: chartOptions,
-      height: 400
-    };
-
-    switch (chartType) {
-      case 'bar':
-        return <Bar {...chartProps} />;
-      case 'line':
-        return <Line {...chartProps} />;
-      case 'pie':
-        return <Pie {...chartProps} />;
-      case 'radar':
-        return <Radar {...chartProps} />;
-      default:
-        return null;
-    }
+    if (data.length === 0) return noChart;
+    if (timeSeries) return renderTimeSeries();
+    if (scatter) return renderScatter();
+    if (boxPlot) return renderBoxPlot();
+    if (heatmap) return renderHeatmap();
+    if (chartSeries) return renderSeriesChart();
+    return noChart;
   };
 
   const tableHeaders = data.length > 0 ? Object.keys(data[0]).map(key => ({
     key,
-    header: key.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())
+    header: displayName(key)
   })) : [];
 
   const tableRows = data.map((row, index) => ({
@@ -235,11 +765,9 @@ const DataVisualization: React.FC<DataVisualizationProps> = ({ data, query, sql
             value={chartType}
             onChange={(e) => setChartType(e.target.value as ChartType)}
           >
-            <SelectItem value="table" text="Data Table" />
-            <SelectItem value="bar" text="Bar Chart" />
-            <SelectItem value="line" text="Line Chart" />
-            <SelectItem value="pie" text="Pie Chart" />
-            <SelectItem value="radar" text="Radar Chart" />
+            {Object.entries(CHART_TYPE_LABELS).map(([type, label]) => (
+              <SelectItem key={type} value={type} text={label} />
+            ))}
           </Select>
           {chartType !== 'table' && (
             <Button
@@ -269,6 +797,238 @@ const DataVisualization: React.FC<DataVisualizationProps> = ({ data, query, sql
         </p>
       </div>
 
+      {recommendations.length > 1 && (
+        <div className="mb-4">
+          <h3 className="font-medium mb-2">Suggested Charts</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            {recommendations.map((recommendation, index) => (
+              <ClickableTile
+                key={recommendation.type}
+                className={chartType === recommendation.type ? 'border-2 border-blue-500' : ''}
+                onClick={() => applySettings(recommendation.settings)}
+              >
+                <div className="font-medium">
+                  {CHART_TYPE_LABELS[recommendation.type]}
+                  {index === 0 && <span className="ml-2 text-xs text-blue-700">Best fit</span>}
+                </div>
+                <p className="text-sm text-gray-600">{recommendation.reason}</p>
+              </ClickableTile>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {chartType !== 'table' && data.length > 0 && (
+        <Tile className="mb-4">
+          <h3 className="font-medium mb-2">Chart Builder</h3>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+            <Select
+              id="chart-x"
+              labelText={chartType === 'histogram' ? 'Values' : 'X axis'}
+              value={settings.x}
+              onChange={(e) => updateSettings({ x: e.target.value })}
+            >
+              <SelectItem value={ROW_NUMBER} text="Row number" />
+              {resultColumns.map(key => (
+                <SelectItem key={key} value={key} text={displayName(key)} />
+              ))}
+            </Select>
+            <Select
+              id="chart-series"
+              labelText={SERIES_LABELS[chartType] || 'Split into series by'}
+              value={settings.series || ''}
+              disabled={['pie', 'doughnut', 'combo', 'histogram', 'box'].includes(chartType)}
+              onChange={(e) => updateSettings({ series: e.target.value || null })}
+            >
+              <SelectItem value="" text="None" />
+              {resultColumns.filter(key => key !== settings.x).map(key => (
+                <SelectItem key={key} value={key} text={displayName(key)} />
+              ))}
+            </Select>
+            {chartType === 'scatter' && (
+              <Select
+                id="chart-size"
+                labelText="Size by"
+                value={settings.size || ''}
+                onChange={(e) => updateSettings({ size: e.target.value || null })}
+              >
+                <SelectItem value="" text="None" />
+                {numericResultColumns.map(key => (
+                  <SelectItem key={key} value={key} text={displayName(key)} />
+                ))}
+              </Select>
+            )}
+            {STACKABLE_TYPES.includes(chartType) && (
+              <Select
+                id="chart-stacking"
+                labelText="Series"
+                value={settings.stacking || 'none'}
+                onChange={(e) => updateSettings({ stacking: e.target.value as ChartStacking })}
+              >
+                {STACKING_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value} text={option.label} />
+                ))}
+              </Select>
+            )}
+            {chartType === 'histogram' && (
+              <NumberInput
+                id="chart-bins"
+                label="Bins"
+                min={1}
+                max={200}
+                value={settings.bins || DEFAULT_BINS}
+                onChange={(_, { value }) => {
+                  const bins = Number(value);
+                  if (Number.isInteger(bins) && bins >= 1 && bins <= 200) updateSettings({ bins });
+                }}
+              />
+            )}
+            {timeSeries && (
+              <>
+                <Select
+                  id="chart-time-bucket"
+                  labelText="Group dates by"
+                  value={timeSettings.bucket}
+                  onChange={(e) => updateTime({ bucket: e.target.value as TimeBucket })}
+                >
+                  {Object.entries(TIME_BUCKET_LABELS).map(([bucket, label]) => (
+                    <SelectItem key={bucket} value={bucket} text={label} />
+                  ))}
+                </Select>
+                <Select
+                  id="chart-time-fill"
+                  labelText="Periods without rows"
+                  value={timeSettings.fill}
+                  onChange={(e) => updateTime({ fill: e.target.value as TimeAxisSettings['fill'] })}
+                >
+                  <SelectItem value="gap" text="Leave a gap" />
+                  <SelectItem value="zero" text="Show as zero" />
+                </Select>
+                <NumberInput
+                  id="chart-time-rolling"
+                  label="Rolling average over N periods (0 for none)"
+                  min={0}
+                  max={365}
+                  value={timeSettings.rolling || 0}
+                  disabled={stacking !== 'none'}
+                  onChange={(_, { value }) => {
+                    const rolling = Number(value);
+                    if (Number.isInteger(rolling) && rolling >= 0 && rolling <= 365) updateTime({ rolling: rolling || null });
+                  }}
+                />
+                <Select
+                  id="chart-time-compare"
+                  labelText="Compare with"
+                  value={timeSettings.compare}
+                  disabled={stacking !== 'none'}
+                  onChange={(e) => updateTime({ compare: e.target.value as TimeComparison })}
+                >
+                  {COMPARISON_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value} text={option.label} />
+                  ))}
+                </Select>
+              </>
+            )}
+            {(GROUPED_TYPES.includes(chartType) || settings.series) && (
+              <div className="flex items-end pb-2">
+                <Checkbox
+                  id="chart-other"
+                  labelText="Combine the rest into “Other”"
+                  checked={settings.other !== false}
+                  onChange={(_, { checked }) => updateSettings({ other: checked })}
+                />
+              </div>
+            )}
+            {GROUPED_TYPES.includes(chartType) && !timeSeries && (
+              <>
+                <Select
+                  id="chart-sort"
+                  labelText="Sort"
+                  value={settings.sort}
+                  onChange={(e) => updateSettings({ sort: e.target.value as ChartSort })}
+                >
+                  {SORT_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value} text={option.label} />
+                  ))}
+                </Select>
+                <NumberInput
+                  id="chart-limit"
+                  label="Show top N (0 for all)"
+                  min={0}
+                  value={settings.limit || 0}
+                  onChange={(_, { value }) => {
+                    const limit = Number(value);
+                    if (Number.isInteger(limit) && limit >= 0) updateSettings({ limit: limit || null });
+                  }}
+                />
+              </>
+            )}
+          </div>
+
+          {chartType !== 'histogram' && (
+            <div className="space-y-2">
+              {(SINGLE_MEASURE_TYPES.includes(chartType) ? settings.measures.slice(0, 1) : settings.measures).map((measure, index) => (
+                <div key={index} className="flex items-end gap-2">
+                  {!RAW_VALUE_TYPES.includes(chartType) && (
+                    <Select
+                      id={`chart-measure-fn-${index}`}
+                      labelText={index === 0 ? 'Aggregation' : ''}
+                      value={measure.fn}
+                      onChange={(e) => updateSettings({
+                        measures: settings.measures.map((m, i) => (i === index ? { ...m, fn: e.target.value as AggregateFunction } : m))
+                      })}
+                    >
+                      {Object.entries(AGGREGATE_LABELS).map(([fn, label]) => (
+                        <SelectItem key={fn} value={fn} text={label} />
+                      ))}
+                    </Select>
+                  )}
+                  <Select
+                    id={`chart-measure-column-${index}`}
+                    labelText={index === 0 ? (chartType === 'scatter' ? 'Y axis' : 'Measure') : ''}
+                    value={measure.column}
+                    onChange={(e) => updateSettings({
+                      measures: settings.measures.map((m, i) => (i === index ? { ...m, column: e.target.value } : m))
+                    })}
+                  >
+                    {resultColumns.map(key => (
+                      <SelectItem key={key} value={key} text={displayName(key)} />
+                    ))}
+                  </Select>
+                  <Button
+                    kind="ghost"
+                    size="md"
+                    hasIconOnly
+                    renderIcon={Close}
+                    iconDescription="Remove measure"
+                    disabled={settings.measures.length === 1 || SINGLE_MEASURE_TYPES.includes(chartType)}
+                    onClick={() => updateSettings({ measures: settings.measures.filter((_, i) => i !== index) })}
+                  />
+                </div>
+              ))}
+              {!SINGLE_MEASURE_TYPES.includes(chartType) && (
+                <Button
+                  kind="ghost"
+                  size="sm"
+                  renderIcon={Add}
+                  onClick={() => updateSettings({
+                    measures: [
+                      ...settings.measures,
+                      {
+                        column: numericResultColumns.find(key => !settings.measures.some(m => m.column === key)) || resultColumns[0],
+                        fn: numericResultColumns.length > 0 ? 'sum' : 'count'
+                      }
+                    ]
+                  })}
+                >
+                  Add measure
+                </Button>
+              )}
+            </div>
+          )}
+        </Tile>
+      )}
+
       {chartType === 'table' ? (
         <TableContainer title="Query Results">
           <Table>
@@ -300,6 +1060,35 @@ const DataVisualization: React.FC<DataVisualizationProps> = ({ data, query, sql
         </div>
       )}
 
+      {chartType !== 'table' && truncation && (
+        <InlineNotification
+          kind="info"
+          lowContrast
+          hideCloseButton
+          title="Large result"
+          subtitle={truncationNotice(truncation, displayName(settings.x), settings.series ? displayName(settings.series) : '')}
+        />
+      )}
+
+      {timeSeries && timeSeries.unparsed > 0 && (
+        <p className="text-sm text-gray-500 mt-2">
+          {timeSeries.unparsed.toLocaleString()} {timeSeries.unparsed === 1 ? 'row has' : 'rows have'} a {displayName(settings.x)} that
+          could not be read as a date and {timeSeries.unparsed === 1 ? 'is' : 'are'} not plotted.
+        </p>
+      )}
+
+      {heatmap && heatmap.xLabels.length > 0 && (
+        <div className="flex items-center gap-2 text-sm text-gray-600 mt-2">
+          <span>{heatmap.label}:</span>
+          <span>{heatmap.min.toLocaleString()}</span>
+          <span
+            className="inline-block h-3 w-32 rounded"
+            style={{ background: `linear-gradient(to right, ${heatShade(heatmap.min, heatmap.min, heatmap.max)}, ${heatShade(heatmap.max, heatmap.min, heatmap.max)})` }}
+          />
+          <span>{heatmap.max.toLocaleString()}</span>
+        </div>
+      )}
+
       {data.length > 100 && chartType === 'table' && (
         <p className="text-sm text-gray-500 mt-2">
           Showing first 100 rows. Total: {data.length} rows.
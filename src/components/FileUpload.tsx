@@ -1,77 +1,252 @@
-import React, { useCallback } from 'react';
-import { FileUploader, FileUploaderButton, FileUploaderItem } from '@carbon/react';
-import { Document, TrashCan } from '@carbon/icons-react';
-import { parseCSV, parseJSON, DataRow } from '@/utils/dataProcessor';
+import React, { useCallback, useRef, useState } from 'react';
+import { FileUploader, FileUploaderButton, FileUploaderItem, ProgressBar, Button } from '@carbon/react';
+import { Document, TrashCan, Close } from '@carbon/icons-react';
+import {
+  parseCSV,
+  resolveParseIssues,
+  DataRow,
+  ParsedCSV,
+  ParseProgress,
+  ParseReport,
+  ParseResolution,
+  ColumnMeta,
+  ColumnSchema
+} from '@/utils/dataProcessor';
+import { ExcelWorkbook, readExcelWorkbook, sheetToTable } from '@/utils/excelImport';
+import { readArrowFile, readParquetFile } from '@/utils/typedFileImport';
+import {
+  ExplodableArray,
+  findExplodableArrays,
+  flattenRecords,
+  JsonDocument,
+  readJSONDocument,
+  RecordArray,
+  recordsAt
+} from '@/utils/jsonImport';
+import { CsvFormat, CsvPreview, previewCsv } from '@/utils/csvDetect';
+import { formatBytes } from '@/utils/storage';
 import { useToast } from '@/hooks/use-toast';
+import CsvImportDialog from './CsvImportDialog';
+import ParseReportDialog from './ParseReportDialog';
+import SheetPicker, { SheetSelection } from './SheetPicker';
+import JsonImportDialog from './JsonImportDialog';
+
+export interface LoadDetails {
+  // Original and display names of the columns, when read from a header.
+  columns?: ColumnMeta[];
+  parseReport?: ParseReport;
+  // Set for tables read from one sheet of a multi-sheet workbook.
+  sheet?: string;
+  // Column types declared by the file itself (Parquet, Arrow).
+  schema?: ColumnSchema[];
+  // JSON path each column was read from (JSON and NDJSON files).
+  jsonPaths?: Record<string, string>;
+}
+
+export interface LoadedFile {
+  data: DataRow[];
+  filename: string;
+  details?: LoadDetails;
+}
+
+const SUPPORTED_EXTENSIONS = ['csv', 'json', 'ndjson', 'jsonl', 'xlsx', 'xls', 'parquet', 'arrow', 'feather'];
 
 interface FileUploadProps {
-  onDataLoad: (data: DataRow[], filename: string) => void;
+  // Every table read in one go (e.g. the sheets picked from a workbook) arrives in one call.
+  onDataLoad: (tables: LoadedFile[]) => void;
   isLoading: boolean;
   setIsLoading: (loading: boolean) => void;
 }
 
 const FileUpload: React.FC<FileUploadProps> = ({ onDataLoad, isLoading, setIsLoading }) => {
+  const [progress, setProgress] = useState<ParseProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // A CSV file waiting for its detected format to be confirmed.
+  const [pendingCsv, setPendingCsv] = useState<{ file: File; preview: CsvPreview } | null>(null);
+  // A parsed file with malformed rows, waiting for the user to decide on them.
+  const [pendingParse, setPendingParse] = useState<{ parsed: ParsedCSV; filename: string } | null>(null);
+  // A workbook with several sheets, waiting for the user to pick from it.
+  const [pendingWorkbook, setPendingWorkbook] = useState<{ workbook: ExcelWorkbook; filename: string } | null>(null);
+  // A JSON document whose records or nested arrays need choosing.
+  const [pendingJson, setPendingJson] = useState<{ document: JsonDocument; filename: string } | null>(null);
   const { toast } = useToast();
 
+  const completeLoads = useCallback((loaded: LoadedFile[]) => {
+    const filled = loaded.filter(table => table.data.length > 0);
+    if (filled.length < loaded.length) {
+      toast({
+        title: "Empty file",
+        description: loaded.length > 1 ? "Some of the selected sheets contain no data." : "The uploaded file contains no data.",
+        variant: "destructive"
+      });
+    }
+    if (filled.length === 0) return;
+
+    onDataLoad(filled);
+    if (filled.length > 1) {
+      const rows = filled.reduce((sum, { data }) => sum + data.length, 0);
+      toast({
+        title: "File uploaded successfully",
+        description: `Loaded ${filled.length} sheets with ${rows.toLocaleString()} rows in total: ${
+          filled.map(({ filename, details }) => details?.sheet ?? filename).join(', ')
+        }.`
+      });
+      return;
+    }
+    const [{ data, details }] = filled;
+    toast({
+      title: "File uploaded successfully",
+      description: `Loaded ${data.length.toLocaleString()} rows and ${Object.keys(data[0]).length} columns${
+        details?.sheet ? ` from sheet ${details.sheet}` : ''
+      }.`
+    });
+  }, [onDataLoad, toast]);
+
+  const completeLoad = useCallback(
+    (data: DataRow[], filename: string, details?: LoadDetails) => completeLoads([{ data, filename, details }]),
+    [completeLoads]
+  );
+
+  // Runs one import step with the loading state set, reporting failures and
+  // cancellation as toasts.
+  const runImport = useCallback(async (filename: string, task: (signal: AbortSignal) => Promise<void>) => {
+    setIsLoading(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      await task(controller.signal);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        toast({
+          title: "Upload cancelled",
+          description: `${filename} was not loaded.`
+        });
+        return;
+      }
+      toast({
+        title: "Upload failed",
+        description: error instanceof Error ? error.message : "Failed to process the file.",
+        variant: "destructive"
+      });
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+      setIsLoading(false);
+    }
+  }, [setIsLoading, toast]);
+
   const handleFileUpload = useCallback(async (files: FileList) => {
     if (files.length === 0) return;
 
     const file = files[0];
     const filename = file.name;
+    const extension = filename.toLowerCase().split('.').pop();
     
     // Validate file type
-    if (!filename.endsWith('.csv') && !filename.endsWith('.json')) {
+    if (!SUPPORTED_EXTENSIONS.includes(extension)) {
       toast({
         title: "Invalid file type",
-        description: "Please upload a CSV or JSON file.",
+        description: "Please upload a CSV, JSON, NDJSON, Excel, Parquet or Arrow file.",
         variant: "destructive"
       });
       return;
     }
 
-    setIsLoading(true);
-
-    try {
-      let data: DataRow[];
-      
-      if (filename.endsWith('.csv')) {
-        data = await parseCSV(file);
+    await runImport(filename, async () => {
+      if (extension === 'csv') {
+        setPendingCsv({ file, preview: await previewCsv(file) });
+      } else if (extension === 'xlsx' || extension === 'xls') {
+        const workbook = await readExcelWorkbook(file);
+        if (workbook.sheets.length === 1) {
+          const { data, columns } = sheetToTable(workbook.sheets[0]);
+          completeLoad(data, filename, { columns });
+        } else {
+          setPendingWorkbook({ workbook, filename });
+        }
+      } else if (extension === 'parquet') {
+        const { data, columns, schema } = await readParquetFile(file);
+        completeLoad(data, filename, { columns, schema });
+      } else if (extension === 'arrow' || extension === 'feather') {
+        const { data, columns, schema } = await readArrowFile(file);
+        completeLoad(data, filename, { columns, schema });
       } else {
-        data = await parseJSON(file);
+        const document = await readJSONDocument(file);
+        const [array] = document.recordArrays;
+        if (document.recordArrays.length === 1 && findExplodableArrays(recordsAt(document, array)).length === 0) {
+          const { data, columns, jsonPaths } = flattenRecords(recordsAt(document, array), array);
+          completeLoad(data, filename, { columns, jsonPaths });
+        } else {
+          setPendingJson({ document, filename });
+        }
       }
+    });
+  }, [completeLoad, runImport, toast]);
 
-      if (data.length === 0) {
-        toast({
-          title: "Empty file",
-          description: "The uploaded file contains no data.",
-          variant: "destructive"
-        });
-        setIsLoading(false);
-        return;
+  const handleImportCsv = (format: CsvFormat) => {
+    if (!pendingCsv) return;
+    const { file } = pendingCsv;
+    setPendingCsv(null);
+
+    runImport(file.name, async signal => {
+      setProgress({ rows: 0, bytes: 0, totalBytes: file.size });
+      const parsed = await parseCSV(file, { format, onProgress: setProgress, signal });
+      if (parsed.report.totalIssues > 0) {
+        setPendingParse({ parsed, filename: file.name });
+      } else {
+        completeLoad(parsed.data, file.name, { columns: parsed.columns });
       }
+    });
+  };
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
 
-      onDataLoad(data, filename);
-      toast({
-        title: "File uploaded successfully",
-        description: `Loaded ${data.length} rows and ${Object.keys(data[0]).length} columns.`
-      });
-    } catch (error) {
+  const handleResolve = (resolution: ParseResolution | 'abort') => {
+    if (!pendingParse) return;
+    const { parsed, filename } = pendingParse;
+    setPendingParse(null);
+
+    if (resolution === 'abort') {
       toast({
-        title: "Upload failed",
-        description: error instanceof Error ? error.message : "Failed to process the file.",
-        variant: "destructive"
+        title: "Upload cancelled",
+        description: `${filename} was not loaded because of malformed rows.`
       });
-    } finally {
-      setIsLoading(false);
+      return;
     }
-  }, [onDataLoad, setIsLoading, toast]);
+
+    const { data, columns, report } = resolveParseIssues(parsed, resolution);
+    completeLoad(data, filename, { columns, parseReport: report });
+  };
+
+  const handleLoadSheets = (selections: SheetSelection[]) => {
+    if (!pendingWorkbook) return;
+    const { workbook, filename } = pendingWorkbook;
+    setPendingWorkbook(null);
+
+    // All sheets are added together, so their table names are made unique against each other.
+    completeLoads(selections.map(selection => {
+      const sheet = workbook.sheets.find(candidate => candidate.name === selection.name);
+      const { data, columns } = sheetToTable(sheet, selection.headerRow);
+      return { data, filename, details: { columns, sheet: sheet.name } };
+    }));
+  };
+
+  const handleLoadJson = (array: RecordArray, explode: ExplodableArray | null) => {
+    if (!pendingJson) return;
+    const { document, filename } = pendingJson;
+    setPendingJson(null);
+
+    const { data, columns, jsonPaths } = flattenRecords(recordsAt(document, array), array, explode);
+    completeLoad(data, filename, { columns, jsonPaths });
+  };
 
   return (
     <div className="data-upload-area">
       <div>
         <input
           type="file"
-          accept=".csv,.json"
+          accept=".csv,.json,.ndjson,.jsonl,.xlsx,.xls,.parquet,.arrow,.feather"
           onChange={(e) => {
             if (e.target.files) {
               handleFileUpload(e.target.files);
@@ -85,20 +260,67 @@ const FileUpload: React.FC<FileUploadProps> = ({ onDataLoad, isLoading, setIsLoa
             file:bg-blue-50 file:text-blue-700
             hover:file:bg-blue-100"
         />
+        {isLoading && progress && (
+          <div className="mb-4 flex items-end gap-4">
+            <div className="flex-1">
+              <ProgressBar
+                label="Parsing CSV"
+                value={progress.bytes}
+                max={Math.max(progress.totalBytes, 1)}
+                helperText={`${progress.rows.toLocaleString()} rows, ${formatBytes(progress.bytes)} of ${formatBytes(progress.totalBytes)}`}
+              />
+            </div>
+            <Button kind="secondary" size="sm" renderIcon={Close} onClick={handleCancel}>
+              Cancel
+            </Button>
+          </div>
+        )}
         <div className="text-center">
           <Document size={48} className="mx-auto mb-4 text-gray-400" />
           <h3 className="font-medium text-gray-600 mb-2">Upload your dataset</h3>
           <p className="text-gray-500">Drag and drop files here or click to browse</p>
-          <p className="text-sm text-gray-400 mt-2">Supports CSV and JSON files</p>
+          <p className="text-sm text-gray-400 mt-2">Supports CSV, JSON, NDJSON, Excel, Parquet and Arrow files</p>
         </div>
       </div>
       
       <div className="mt-4 flex flex-wrap gap-2 text-sm text-gray-600">
         <span className="flex items-center gap-1">
           <Document size={16} />
-          Supported formats: CSV, JSON
+          Supported formats: CSV, JSON, NDJSON (.ndjson, .jsonl), Excel (.xlsx, .xls), Parquet, Arrow (.arrow, .feather)
         </span>
       </div>
+
+      <CsvImportDialog
+        open={pendingCsv !== null}
+        filename={pendingCsv?.file.name || ''}
+        preview={pendingCsv?.preview || null}
+        onImport={handleImportCsv}
+        onCancel={() => setPendingCsv(null)}
+      />
+
+      <ParseReportDialog
+        open={pendingParse !== null}
+        filename={pendingParse?.filename || ''}
+        report={pendingParse?.parsed.report || null}
+        onClose={() => handleResolve('abort')}
+        onResolve={handleResolve}
+      />
+
+      <SheetPicker
+        open={pendingWorkbook !== null}
+        filename={pendingWorkbook?.filename || ''}
+        workbook={pendingWorkbook?.workbook || null}
+        onLoad={handleLoadSheets}
+        onCancel={() => setPendingWorkbook(null)}
+      />
+
+      <JsonImportDialog
+        open={pendingJson !== null}
+        filename={pendingJson?.filename || ''}
+        document={pendingJson?.document || null}
+        onLoad={handleLoadJson}
+        onCancel={() => setPendingJson(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,133 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Modal, Select, SelectItem } from '@carbon/react';
+import {
+  ExplodableArray,
+  findExplodableArrays,
+  flattenRecords,
+  JsonDocument,
+  RecordArray,
+  recordsAt
+} from '@/utils/jsonImport';
+
+interface JsonImportDialogProps {
+  open: boolean;
+  filename: string;
+  document: JsonDocument | null;
+  onLoad: (array: RecordArray, explode: ExplodableArray | null) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+const NO_EXPLODE = '';
+
+const JsonImportDialog: React.FC<JsonImportDialogProps> = ({ open, filename, document, onLoad, onCancel }) => {
+  const [arrayPath, setArrayPath] = useState('');
+  const [explodePath, setExplodePath] = useState(NO_EXPLODE);
+
+  useEffect(() => {
+    setArrayPath(document?.recordArrays[0]?.path || '');
+    setExplodePath(NO_EXPLODE);
+  }, [document]);
+
+  const array = document?.recordArrays.find(candidate => candidate.path === arrayPath) || null;
+  const records = useMemo(() => (document && array ? recordsAt(document, array) : []), [document, array]);
+  const explodable = useMemo(() => findExplodableArrays(records), [records]);
+  const explode = explodable.find(candidate => candidate.path === explodePath) || null;
+
+  const preview = useMemo(
+    () => (array ? flattenRecords(records.slice(0, PREVIEW_ROWS), array, explode) : null),
+    [records, array, explode]
+  );
+
+  if (!document) return null;
+
+  const columns = preview ? Object.keys(preview.jsonPaths) : [];
+
+  return (
+    <Modal
+      open={open}
+      onRequestClose={onCancel}
+      onRequestSubmit={() => array && onLoad(array, explode)}
+      modalHeading={`Import ${filename}`}
+      primaryButtonText="Load records"
+      primaryButtonDisabled={!array}
+      secondaryButtonText="Cancel"
+      size="lg"
+    >
+      <p className="text-gray-600 mb-4">
+        Nested fields become one column each. Pick where the records are, and optionally
+        an array field to expand into one row per element; other arrays are kept as JSON text.
+      </p>
+
+      <div className="grid grid-cols-2 gap-4 mb-6">
+        <Select
+          id="json-record-array"
+          labelText="Records"
+          value={arrayPath}
+          onChange={(e) => {
+            setArrayPath(e.target.value);
+            setExplodePath(NO_EXPLODE);
+          }}
+        >
+          {document.recordArrays.map(candidate => (
+            <SelectItem
+              key={candidate.path}
+              value={candidate.path}
+              text={`${candidate.path} (${candidate.count.toLocaleString()} ${candidate.count === 1 ? 'record' : 'records'})`}
+            />
+          ))}
+        </Select>
+        <Select
+          id="json-explode"
+          labelText="Expand array into rows"
+          value={explodePath}
+          disabled={explodable.length === 0}
+          onChange={(e) => setExplodePath(e.target.value)}
+        >
+          <SelectItem value={NO_EXPLODE} text="None (keep arrays as JSON)" />
+          {explodable.map(candidate => (
+            <SelectItem
+              key={candidate.path}
+              value={candidate.path}
+              // Paths tell apart a dotted key and a nested key with the same label.
+              text={explodable.some(other => other !== candidate && other.label === candidate.label) ? candidate.path : candidate.label}
+            />
+          ))}
+        </Select>
+      </div>
+
+      {preview && columns.length > 0 && (
+        <div>
+          <h4 className="font-medium mb-2">Preview</h4>
+          <div className="overflow-auto">
+            <table className="text-sm border">
+              <thead>
+                <tr className="bg-gray-100">
+                  {columns.map(column => (
+                    <th key={column} className="px-2 py-1 text-left whitespace-nowrap" title={preview.jsonPaths[column]}>
+                      <div className="font-semibold">{column}</div>
+                      <div className="font-mono font-normal text-xs text-gray-500">{preview.jsonPaths[column]}</div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {preview.data.slice(0, PREVIEW_ROWS).map((row, r) => (
+                  <tr key={r} className="border-t">
+                    {columns.map(column => (
+                      <td key={column} className="px-2 py-1 whitespace-nowrap">
+                        {row[column] === null || row[column] === undefined ? '' : String(row[column])}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default JsonImportDialog;
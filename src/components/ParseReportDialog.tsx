@@ -0,0 +1,89 @@
+import React from 'react';
+import { Modal, Button, Tag } from '@carbon/react';
+import { ParseIssueType, ParseReport, ParseResolution } from '@/utils/dataProcessor';
+
+interface ParseReportDialogProps {
+  open: boolean;
+  filename: string;
+  report: ParseReport | null;
+  onClose: () => void;
+  // When given, the dialog asks what to do with the malformed rows.
+  onResolve?: (resolution: ParseResolution | 'abort') => void;
+}
+
+const ISSUE_LABELS: Record<ParseIssueType, string> = {
+  too_many_fields: 'Too many fields',
+  too_few_fields: 'Too few fields',
+  quote_mismatch: 'Quote mismatch'
+};
+
+const RESOLUTION_LABELS: Record<ParseResolution, string> = {
+  skip: 'Malformed rows were skipped.',
+  repair: 'Malformed rows were padded or truncated to fit.'
+};
+
+const ParseReportDialog: React.FC<ParseReportDialogProps> = ({ open, filename, report, onClose, onResolve }) => {
+  if (!report) return null;
+
+  const listed = report.issues.length;
+
+  return (
+    <Modal
+      open={open}
+      onRequestClose={() => (onResolve ? onResolve('abort') : onClose())}
+      modalHeading={`Parse report for ${filename}`}
+      passiveModal
+      size="lg"
+    >
+      <p className="text-gray-600 mb-4">
+        {report.totalIssues.toLocaleString()} {report.totalIssues === 1 ? 'row does' : 'rows do'} not
+        match the header's {report.expectedFields} fields.
+        {listed < report.totalIssues && ` The first ${listed.toLocaleString()} are listed.`}
+        {report.resolution && ` ${RESOLUTION_LABELS[report.resolution]}`}
+      </p>
+
+      <div className="max-h-96 overflow-auto mb-4">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left border-b">
+              <th className="py-2 pr-4">Line</th>
+              <th className="py-2 pr-4">Problem</th>
+              <th className="py-2">Raw text</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.issues.map(issue => (
+              <tr key={issue.line} className="border-b align-top">
+                <td className="py-2 pr-4">{issue.line.toLocaleString()}</td>
+                <td className="py-2 pr-4">
+                  <Tag type={issue.type === 'quote_mismatch' ? 'red' : 'warm-gray'} size="sm" title={issue.message}>
+                    {ISSUE_LABELS[issue.type]}
+                  </Tag>
+                </td>
+                <td className="py-2">
+                  <code className="bg-gray-100 px-1 rounded break-all whitespace-pre-wrap">{issue.raw}</code>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {onResolve && (
+        <div className="flex flex-wrap gap-2 justify-end">
+          <Button kind="secondary" onClick={() => onResolve('abort')}>
+            Abort upload
+          </Button>
+          <Button kind="tertiary" onClick={() => onResolve('repair')}>
+            Pad or truncate rows
+          </Button>
+          <Button kind="primary" onClick={() => onResolve('skip')}>
+            Skip bad rows
+          </Button>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default ParseReportDialog;
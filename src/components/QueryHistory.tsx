@@ -13,20 +13,34 @@ import {
   Code
 } from '@carbon/icons-react';
 import { formatDistanceToNow } from 'date-fns';
+import { QueryMode } from './QueryInterface';
+import { SchemaSnapshot } from '@/utils/workspace';
+import { ChartSettings } from '@/utils/chartBuilder';
+import { ProviderSettings, providerFromSettings } from '@/utils/queryProviders';
 
 export interface QueryHistoryItem {
   id: string;
+  // The question or SQL statement as the user entered it.
   query: string;
+  // The SQL that actually ran (generated for questions).
   sql: string;
   timestamp: Date;
   resultCount: number;
   error?: string;
+  // Items saved before these fields existed lack them.
+  mode?: QueryMode;
+  table?: string;
+  provider?: ProviderSettings;
+  // Columns of each table the query read, as they were when it ran.
+  schema?: Record<string, SchemaSnapshot>;
+  // Chart builder settings last used for this query's result.
+  chart?: ChartSettings;
 }
 
 interface QueryHistoryProps {
   history: QueryHistoryItem[];
   onClearHistory: () => void;
-  onRerunQuery: (query: string) => void;
+  onRerunQuery: (item: QueryHistoryItem) => void;
   onExportHistory: () => void;
 }
 
@@ -85,9 +99,14 @@ const QueryHistory: React.FC<QueryHistoryProps> = ({
                   </div>
                   <div className="text-sm text-gray-500 mt-1">
                     {formatDistanceToNow(item.timestamp, { addSuffix: true })}
+                    {item.table && ` · ${item.table}`}
+                    {item.provider && ` · ${providerFromSettings(item.provider).name}`}
                   </div>
                 </div>
                 <div className="flex items-center gap-2 ml-4">
+                  {item.mode && (
+                    <Tag type="gray" size="sm">{item.mode === 'sql' ? 'SQL' : 'Question'}</Tag>
+                  )}
                   {item.error ? (
                     <Tag type="red" size="sm">Error</Tag>
                   ) : (
@@ -101,7 +120,7 @@ const QueryHistory: React.FC<QueryHistoryProps> = ({
               <div>
                 <h4 className="font-medium mb-2 flex items-center gap-2">
                   <Code size={16} />
-                  Generated SQL:
+                  {item.mode === 'sql' ? 'SQL:' : 'Generated SQL:'}
                 </h4>
                 <pre className="bg-gray-100 p-3 rounded text-sm overflow-x-auto">
                   <code>{item.sql}</code>
@@ -119,7 +138,7 @@ const QueryHistory: React.FC<QueryHistoryProps> = ({
                 <Button
                   kind="primary"
                   size="sm"
-                  onClick={() => onRerunQuery(item.query)}
+                  onClick={() => onRerunQuery(item)}
                 >
                   Run Again
                 </Button>
@@ -1,36 +1,103 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { 
   TextInput, 
+  TextArea,
   Button, 
   Tile, 
   Tag,
   ExpandableSearch,
-  InlineLoading
+  InlineLoading,
+  InlineNotification,
+  ContentSwitcher,
+  Switch,
+  Select,
+  SelectItem,
+  Modal
 } from '@carbon/react';
 import { 
   Send, 
   Search, 
   Help,
   ChartLineSmooth,
-  DataTable as DataTableIcon
+  DataTable as DataTableIcon,
+  Code,
+  Settings
 } from '@carbon/icons-react';
-import { DataRow, executeSimpleQuery, QueryResult } from '@/utils/dataProcessor';
+import { DataRow, executeProviderQuery, executeSQLQuery, QueryResult } from '@/utils/dataProcessor';
+import { DEFAULT_TABLE } from '@/utils/queryPlan';
+import { ProviderKind, ProviderSettings, providerEndpoint, providerFromSettings } from '@/utils/queryProviders';
+import { toTableSet, WorkspaceTable } from '@/utils/workspace';
+
+export type QueryMode = 'natural' | 'sql';
+
+// What was asked, as opposed to the SQL that answered it.
+export interface QueryRequest {
+  text: string;
+  mode: QueryMode;
+  table: string;
+  provider?: ProviderSettings;
+}
+
+// Asks the interface to load and execute a previous query; a new id re-runs.
+export interface RerunRequest {
+  id: string;
+  text: string;
+  mode: QueryMode;
+  // The provider that translated the question, when one did.
+  provider?: ProviderSettings;
+}
+
+// A history question waiting for the user to agree to send it to the
+// service that first translated it.
+interface PendingRerun {
+  text: string;
+  provider: ProviderSettings;
+}
+
+interface SqlSyntaxProblem {
+  message: string;
+  line: number;
+  column: number;
+}
 
 interface QueryInterfaceProps {
   data: DataRow[];
-  onQueryResult: (result: QueryResult) => void;
+  tables: WorkspaceTable[];
+  activeTable: string;
+  onQueryResult: (result: QueryResult, request: QueryRequest) => void;
   isLoading: boolean;
   setIsLoading: (loading: boolean) => void;
+  rerunRequest?: RerunRequest | null;
 }
 
 const QueryInterface: React.FC<QueryInterfaceProps> = ({ 
   data, 
+  tables,
+  activeTable,
   onQueryResult, 
   isLoading, 
-  setIsLoading 
+  setIsLoading,
+  rerunRequest
 }) => {
   const [query, setQuery] = useState('');
   const [showExamples, setShowExamples] = useState(false);
+  const [mode, setMode] = useState<QueryMode>('natural');
+  const [sql, setSql] = useState(`SELECT *\nFROM ${DEFAULT_TABLE}\nLIMIT 10`);
+  const [syntaxProblem, setSyntaxProblem] = useState<SqlSyntaxProblem | null>(null);
+  const [showProviderSettings, setShowProviderSettings] = useState(false);
+  const [providerKind, setProviderKind] = useState<ProviderKind>('heuristic');
+  const [baseUrl, setBaseUrl] = useState('https://api.openai.com/v1');
+  const [model, setModel] = useState('gpt-4o-mini');
+  const [apiKey, setApiKey] = useState('');
+  const [pendingRerun, setPendingRerun] = useState<PendingRerun | null>(null);
+
+  const providerSettings = useMemo<ProviderSettings>(() => (
+    providerKind === 'openai-compatible' ? { kind: providerKind, model, baseUrl } : { kind: providerKind }
+  ), [providerKind, model, baseUrl]);
+
+  const provider = useMemo(() => providerFromSettings(providerSettings, apiKey), [providerSettings, apiKey]);
+
+  const tableSet = useMemo(() => toTableSet(tables), [tables]);
 
   const exampleQueries = [
     'Show me the top 10 records by price',
@@ -39,26 +106,111 @@ const QueryInterface: React.FC<QueryInterfaceProps> = ({
     'Show the first 5 products',
     'Sum the total sales',
     'Group by category and count',
+    'Average price and total sales by region',
+    'Regions with total sales over 300',
     'Show products with highest sales'
   ];
 
-  const handleSubmitQuery = async () => {
-    if (!query.trim() || data.length === 0 || isLoading) return;
+  const handleSubmitQuery = useCallback(async (
+    question: string = query,
+    settings: ProviderSettings = providerSettings,
+    key: string = apiKey
+  ) => {
+    if (!question.trim() || data.length === 0 || isLoading) return;
 
     setIsLoading(true);
+    const request: QueryRequest = { text: question, mode: 'natural', table: activeTable, provider: settings };
     
     try {
-      const result = executeSimpleQuery(data, query);
-      onQueryResult(result);
+      const result = await executeProviderQuery(tableSet, activeTable, question, providerFromSettings(settings, key));
+      onQueryResult(result, request);
     } catch (error) {
       onQueryResult({
         data: [],
         sql: '',
         error: error instanceof Error ? error.message : 'Query execution failed'
-      });
+      }, request);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [query, providerSettings, apiKey, data.length, isLoading, setIsLoading, activeTable, tableSet, onQueryResult]);
+
+  const handleRunSQL = useCallback((statement: string = sql) => {
+    if (!statement.trim() || data.length === 0 || isLoading) return;
+
+    setIsLoading(true);
+
+    try {
+      const result = executeSQLQuery(tableSet, activeTable, statement);
+      // Syntax errors stay next to the editor so the statement can be fixed
+      // in place; everything else goes to the results view.
+      if (result.errorPosition) {
+        setSyntaxProblem({ message: result.error, ...result.errorPosition });
+        return;
+      }
+      setSyntaxProblem(null);
+      onQueryResult(result, { text: statement, mode: 'sql', table: activeTable });
     } finally {
       setIsLoading(false);
     }
+  }, [sql, data.length, isLoading, setIsLoading, activeTable, tableSet, onQueryResult]);
+
+  const applyProviderSettings = (settings: ProviderSettings) => {
+    setProviderKind(settings.kind);
+    if (settings.model) setModel(settings.model);
+    if (settings.baseUrl) setBaseUrl(settings.baseUrl);
+  };
+
+  // Id of the last history re-run, so each one executes once even though the
+  // handlers it calls change on every render of the dashboard.
+  const handledRerun = useRef<string | null>(null);
+
+  // Re-run from history: show the original text in its editor, switch back to
+  // the provider that translated it, and execute it. A re-run asked for while
+  // a query is running waits for that query to finish.
+  useEffect(() => {
+    if (!rerunRequest || handledRerun.current === rerunRequest.id || isLoading) return;
+    handledRerun.current = rerunRequest.id;
+    setMode(rerunRequest.mode);
+    if (rerunRequest.mode === 'sql') {
+      setSql(rerunRequest.text);
+      handleRunSQL(rerunRequest.text);
+      return;
+    }
+
+    setQuery(rerunRequest.text);
+    const saved = rerunRequest.provider;
+    if (!saved) {
+      handleSubmitQuery(rerunRequest.text);
+      return;
+    }
+    // The question and the schema only go to a service other than the
+    // current one when the user agrees.
+    const endpoint = providerEndpoint(saved);
+    if (endpoint !== null && endpoint !== providerEndpoint(providerSettings)) {
+      setPendingRerun({ text: rerunRequest.text, provider: saved });
+      return;
+    }
+    setProviderKind(saved.kind);
+    if (saved.model) setModel(saved.model);
+    // State updates land on the next render, so run with the saved settings directly.
+    handleSubmitQuery(rerunRequest.text, saved);
+  }, [rerunRequest, isLoading, handleRunSQL, handleSubmitQuery, providerSettings]);
+
+  const handleConfirmRerun = () => {
+    if (!pendingRerun) return;
+    setPendingRerun(null);
+    applyProviderSettings(pendingRerun.provider);
+    // The key entered for the current service is not sent to another one.
+    setApiKey('');
+    handleSubmitQuery(pendingRerun.text, pendingRerun.provider, '');
+  };
+
+  const handleSqlKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      handleRunSQL();
+    }
   };
 
   const handleExampleClick = (example: string) => {
@@ -81,53 +233,171 @@ const QueryInterface: React.FC<QueryInterfaceProps> = ({
           Ask Your Data
         </h2>
         <p className="text-gray-600">
-          Ask questions about your data in plain English. The system will generate SQL queries and show results.
+          Ask questions about your data in plain English, or write SQL yourself. Either way the results and the SQL that produced them are shown together.
         </p>
       </div>
 
-      <div className="mb-4">
-        <div className="flex gap-2 mb-2">
-          <div className="flex-1">
-            <TextInput
-              id="query-input"
-              labelText=""
-              placeholder="e.g., 'Show me the top 5 products by sales' or 'What is the average price by category?'"
-              value={query}
-              onChange={(e) => setQuery(e.target.value)}
-              onKeyDown={handleKeyPress}
-              disabled={isLoading || data.length === 0}
+      <ContentSwitcher
+        className="mb-4"
+        size="md"
+        selectedIndex={mode === 'natural' ? 0 : 1}
+        onChange={({ name }) => setMode(name as QueryMode)}
+      >
+        <Switch name="natural" text="Natural language" />
+        <Switch name="sql" text="SQL editor" />
+      </ContentSwitcher>
+
+      {mode === 'natural' && (
+        <div className="mb-4">
+          <div className="flex gap-2 mb-2">
+            <div className="flex-1">
+              <TextInput
+                id="query-input"
+                labelText=""
+                placeholder="e.g., 'Show me the top 5 products by sales' or 'What is the average price by category?'"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={handleKeyPress}
+                disabled={isLoading || data.length === 0}
+                size="lg"
+              />
+            </div>
+            <Button
+              kind="primary"
               size="lg"
-            />
+              disabled={!query.trim() || data.length === 0 || isLoading}
+              onClick={() => handleSubmitQuery()}
+              renderIcon={Send}
+            >
+              {isLoading ? <InlineLoading description="Processing..." /> : 'Ask'}
+            </Button>
+          </div>
+          
+          <div className="flex gap-2 items-center text-sm text-gray-600">
+            <Help size={16} />
+            <span>Press Enter to submit your query</span>
           </div>
+        </div>
+      )}
+
+      {mode === 'sql' && (
+        <div className="mb-4">
+          <TextArea
+            id="sql-editor"
+            labelText="SQL"
+            helperText={`Tables: ${tables.map(table => `${table.name} (${Object.keys(table.data[0] || {}).join(', ')})`).join('; ')}. "${DEFAULT_TABLE}" refers to the active table, ${activeTable}.`}
+            value={sql}
+            onChange={(e) => {
+              setSql(e.target.value);
+              setSyntaxProblem(null);
+            }}
+            onKeyDown={handleSqlKeyDown}
+            disabled={isLoading || data.length === 0}
+            rows={8}
+            className="font-mono"
+          />
+
+          {syntaxProblem && (
+            <div className="mt-2">
+              <InlineNotification
+                kind="error"
+                title={`Syntax error (line ${syntaxProblem.line}, column ${syntaxProblem.column})`}
+                subtitle={syntaxProblem.message}
+                lowContrast
+                hideCloseButton
+              />
+              <pre className="text-sm font-mono bg-gray-50 p-2 rounded overflow-x-auto">
+                {sql.split('\n')[syntaxProblem.line - 1]}
+                {'\n'}
+                {' '.repeat(Math.max(0, syntaxProblem.column - 1))}^
+              </pre>
+            </div>
+          )}
+
+          <div className="flex gap-2 items-center justify-between mt-2">
+            <div className="flex gap-2 items-center text-sm text-gray-600">
+              <Help size={16} />
+              <span>Press Ctrl+Enter to run</span>
+            </div>
+            <Button
+              kind="primary"
+              size="md"
+              disabled={!sql.trim() || data.length === 0 || isLoading}
+              onClick={() => handleRunSQL()}
+              renderIcon={Code}
+            >
+              {isLoading ? <InlineLoading description="Running..." /> : 'Run SQL'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {mode === 'natural' && (
+        <div className="mb-4">
           <Button
-            kind="primary"
-            size="lg"
-            disabled={!query.trim() || data.length === 0 || isLoading}
-            onClick={handleSubmitQuery}
-            renderIcon={Send}
+            kind="ghost"
+            size="sm"
+            onClick={() => setShowExamples(!showExamples)}
+            renderIcon={ChartLineSmooth}
           >
-            {isLoading ? <InlineLoading description="Processing..." /> : 'Ask'}
+            {showExamples ? 'Hide' : 'Show'} Example Questions
+          </Button>
+          <Button
+            kind="ghost"
+            size="sm"
+            onClick={() => setShowProviderSettings(!showProviderSettings)}
+            renderIcon={Settings}
+          >
+            Translation: {provider.name}
           </Button>
         </div>
-        
-        <div className="flex gap-2 items-center text-sm text-gray-600">
-          <Help size={16} />
-          <span>Press Enter to submit your query</span>
-        </div>
-      </div>
+      )}
 
-      <div className="mb-4">
-        <Button
-          kind="ghost"
-          size="sm"
-          onClick={() => setShowExamples(!showExamples)}
-          renderIcon={ChartLineSmooth}
-        >
-          {showExamples ? 'Hide' : 'Show'} Example Questions
-        </Button>
-      </div>
+      {mode === 'natural' && showProviderSettings && (
+        <Tile className="mb-4">
+          <div className="space-y-4">
+            <Select
+              id="query-provider"
+              labelText="Translate questions with"
+              value={providerKind}
+              onChange={(e) => setProviderKind(e.target.value as ProviderKind)}
+            >
+              <SelectItem value="heuristic" text="Built-in keyword matching (offline)" />
+              <SelectItem value="openai-compatible" text="OpenAI-compatible API" />
+            </Select>
 
-      {showExamples && (
+            {providerKind === 'openai-compatible' && (
+              <>
+                <TextInput
+                  id="provider-base-url"
+                  labelText="Base URL"
+                  helperText="Any service implementing /chat/completions, e.g. a local Ollama or vLLM server"
+                  value={baseUrl}
+                  onChange={(e) => setBaseUrl(e.target.value)}
+                />
+                <TextInput
+                  id="provider-model"
+                  labelText="Model"
+                  value={model}
+                  onChange={(e) => setModel(e.target.value)}
+                />
+                <TextInput
+                  id="provider-api-key"
+                  labelText="API key (optional)"
+                  type="password"
+                  value={apiKey}
+                  onChange={(e) => setApiKey(e.target.value)}
+                />
+                <p className="text-sm text-gray-600">
+                  Only the question, column names and types, and a few example values per column are sent. Generated queries are checked against your columns before they run.
+                </p>
+              </>
+            )}
+          </div>
+        </Tile>
+      )}
+
+      {mode === 'natural' && showExamples && (
         <Tile className="mb-4">
           <h3 className="font-medium mb-3">💡 Try these example questions:</h3>
           <div className="flex flex-wrap gap-2">
@@ -152,6 +422,27 @@ const QueryInterface: React.FC<QueryInterfaceProps> = ({
           <p className="text-gray-500">Upload a CSV or JSON file to start asking questions about your data.</p>
         </Tile>
       )}
+
+      <Modal
+        open={pendingRerun !== null}
+        onRequestClose={() => setPendingRerun(null)}
+        onRequestSubmit={handleConfirmRerun}
+        modalHeading="Send this question to another service?"
+        primaryButtonText="Send and run"
+        primaryButtonDisabled={isLoading}
+        secondaryButtonText="Cancel"
+      >
+        {pendingRerun && (
+          <p className="text-gray-600">
+            This question was translated by {pendingRerun.provider.model} at {providerEndpoint(pendingRerun.provider)},
+            {' '}but questions currently {providerEndpoint(providerSettings)
+              ? `go to ${providerEndpoint(providerSettings)}`
+              : 'stay in the browser'}.
+            {' '}Running it again sends the question, the column names and types, and a few example values per
+            column there. The API key entered for the current service is not sent.
+          </p>
+        )}
+      </Modal>
     </div>
   );
 };
@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import { Select, SelectItem, TextInput, Button } from '@carbon/react';
+import { ColumnMeta, columnDisplayName, columnRole, ColumnRole, DataStats } from '@/utils/dataProcessor';
+import { CastFailure, ColumnOverride, defaultRole } from '@/utils/schemaOverride';
+import { COLUMN_TYPES, ColumnType } from '@/utils/typeInference';
+import { DATE_FORMATS } from '@/utils/csvDetect';
+
+interface SchemaPanelProps {
+  columnNames: string[];
+  stats: DataStats;
+  columns?: ColumnMeta[];
+  overrides?: Record<string, ColumnOverride>;
+  castFailures?: Record<string, CastFailure>;
+  onOverride: (column: string, override: ColumnOverride) => void;
+  onRename: (column: string, displayName: string) => void;
+  onReset: () => void;
+}
+
+// Read dates in whichever format each value parses as.
+const AUTO_DATE_FORMAT = 'auto';
+
+const typeLabel = (type: ColumnType): string => type.replace('_', ' ');
+
+// A text field that reports its value when it loses focus or Enter is pressed.
+const CommitInput: React.FC<{ id: string; label: string; value: string; placeholder?: string; onCommit: (value: string) => void }> = ({
+  id,
+  label,
+  value,
+  placeholder,
+  onCommit
+}) => {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const commit = () => {
+    if (draft !== value) onCommit(draft);
+  };
+
+  return (
+    <TextInput
+      id={id}
+      labelText={label}
+      hideLabel
+      size="sm"
+      value={draft}
+      placeholder={placeholder}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+      }}
+    />
+  );
+};
+
+const SchemaPanel: React.FC<SchemaPanelProps> = ({
+  columnNames,
+  stats,
+  columns,
+  overrides,
+  castFailures,
+  onOverride,
+  onRename,
+  onReset
+}) => {
+  const current = (column: string): ColumnOverride => {
+    if (overrides?.[column]) return overrides[column];
+    const inferred = stats.columnTypes?.[column];
+    return { type: inferred?.type || 'text', format: inferred?.format || '', role: columnRole(stats, column) };
+  };
+
+  const changeType = (column: string, type: ColumnType) => {
+    const previous = current(column);
+    const isDate = type === 'date' || type === 'datetime';
+    const wasDate = previous.type === 'date' || previous.type === 'datetime';
+    const format = isDate ? (wasDate ? previous.format : AUTO_DATE_FORMAT) : type === previous.type ? previous.format : '';
+    onOverride(column, { type, format, role: defaultRole(type) });
+  };
+
+  const describeFailures = (failure: CastFailure): string => [
+    ...failure.examples.map(example => `Row ${(example.row + 1).toLocaleString()}: ${example.value}`),
+    failure.count > failure.examples.length ? `…and ${(failure.count - failure.examples.length).toLocaleString()} more` : ''
+  ].filter(Boolean).join('\n');
+
+  return (
+    <div className="mt-4 p-4 border rounded-lg">
+      <div className="flex justify-between items-center mb-2">
+        <div>
+          <h3 className="font-medium text-gray-900">Schema</h3>
+          <p className="text-sm text-gray-600">
+            Changing a type converts the column right away; values that cannot be converted are left empty and counted.
+          </p>
+        </div>
+        <Button kind="ghost" size="sm" onClick={onReset} disabled={!overrides || Object.keys(overrides).length === 0}>
+          Reset to detected types
+        </Button>
+      </div>
+
+      <div className="overflow-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left border-b">
+              <th className="py-2 pr-4">Column</th>
+              <th className="py-2 pr-4">Display name</th>
+              <th className="py-2 pr-4">Type</th>
+              <th className="py-2 pr-4">Format</th>
+              <th className="py-2 pr-4">Role</th>
+              <th className="py-2">Failed casts</th>
+            </tr>
+          </thead>
+          <tbody>
+            {columnNames.map(column => {
+              const override = current(column);
+              const isDate = override.type === 'date' || override.type === 'datetime';
+              const failure = castFailures?.[column];
+              const dateFormats = [AUTO_DATE_FORMAT, ...DATE_FORMATS.filter(format => format !== 'none')];
+              return (
+                <tr key={column} className={`border-b align-middle ${overrides?.[column] ? 'bg-yellow-50' : ''}`}>
+                  <td className="py-1 pr-4 font-mono">{column}</td>
+                  <td className="py-1 pr-4">
+                    <CommitInput
+                      id={`schema-name-${column}`}
+                      label={`Display name of ${column}`}
+                      value={columnDisplayName(columns, column)}
+                      onCommit={(value) => onRename(column, value)}
+                    />
+                  </td>
+                  <td className="py-1 pr-4">
+                    <Select
+                      id={`schema-type-${column}`}
+                      labelText={`Type of ${column}`}
+                      hideLabel
+                      size="sm"
+                      value={override.type}
+                      onChange={(e) => changeType(column, e.target.value as ColumnType)}
+                    >
+                      {COLUMN_TYPES.map(type => (
+                        <SelectItem key={type} value={type} text={typeLabel(type)} />
+                      ))}
+                    </Select>
+                  </td>
+                  <td className="py-1 pr-4">
+                    {isDate ? (
+                      <Select
+                        id={`schema-format-${column}`}
+                        labelText={`Date format of ${column}`}
+                        hideLabel
+                        size="sm"
+                        value={dateFormats.includes(override.format.split(' ')[0]) ? override.format.split(' ')[0] : AUTO_DATE_FORMAT}
+                        onChange={(e) => onOverride(column, { ...override, format: e.target.value })}
+                      >
+                        {dateFormats.map(format => (
+                          <SelectItem key={format} value={format} text={format === AUTO_DATE_FORMAT ? 'Auto-detect' : format} />
+                        ))}
+                      </Select>
+                    ) : (
+                      <CommitInput
+                        id={`schema-format-${column}`}
+                        label={`Format of ${column}`}
+                        value={override.format}
+                        placeholder="e.g. #,##0.00"
+                        onCommit={(value) => onOverride(column, { ...override, format: value.trim() })}
+                      />
+                    )}
+                  </td>
+                  <td className="py-1 pr-4">
+                    <Select
+                      id={`schema-role-${column}`}
+                      labelText={`Role of ${column}`}
+                      hideLabel
+                      size="sm"
+                      value={override.role}
+                      onChange={(e) => onOverride(column, { ...override, role: e.target.value as ColumnRole })}
+                    >
+                      <SelectItem value="dimension" text="Dimension" />
+                      <SelectItem value="measure" text="Measure" />
+                    </Select>
+                  </td>
+                  <td className="py-1">
+                    {failure ? (
+                      <span className="text-red-700 cursor-help" title={describeFailures(failure)}>
+                        {failure.count.toLocaleString()} {failure.count === 1 ? 'cell' : 'cells'}
+                      </span>
+                    ) : (
+                      <span className="text-gray-400">—</span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default SchemaPanel;
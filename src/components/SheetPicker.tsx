@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, Checkbox, NumberInput } from '@carbon/react';
+import { ExcelWorkbook } from '@/utils/excelImport';
+
+export interface SheetSelection {
+  name: string;
+  // 0-based index of the header row.
+  headerRow: number;
+}
+
+interface SheetPickerProps {
+  open: boolean;
+  filename: string;
+  workbook: ExcelWorkbook | null;
+  onLoad: (selections: SheetSelection[]) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+const SheetPicker: React.FC<SheetPickerProps> = ({ open, filename, workbook, onLoad, onCancel }) => {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [headerRows, setHeaderRows] = useState<Record<string, number>>({});
+  const [previewSheet, setPreviewSheet] = useState('');
+
+  useEffect(() => {
+    if (!workbook) return;
+    const first = workbook.sheets.find(sheet => sheet.grid.length > 0) || workbook.sheets[0];
+    setSelected(first ? [first.name] : []);
+    setPreviewSheet(first ? first.name : '');
+    setHeaderRows(Object.fromEntries(workbook.sheets.map(sheet => [sheet.name, sheet.headerRow])));
+  }, [workbook]);
+
+  if (!workbook) return null;
+
+  const toggle = (name: string, checked: boolean) => {
+    setSelected(prev => (checked ? [...prev, name] : prev.filter(candidate => candidate !== name)));
+    if (checked) setPreviewSheet(name);
+  };
+
+  const preview = workbook.sheets.find(sheet => sheet.name === previewSheet);
+  const previewHeader = preview ? headerRows[preview.name] ?? preview.headerRow : 0;
+  const previewRows = preview ? preview.grid.slice(previewHeader, previewHeader + PREVIEW_ROWS + 1) : [];
+
+  return (
+    <Modal
+      open={open}
+      onRequestClose={onCancel}
+      onRequestSubmit={() =>
+        onLoad(workbook.sheets
+          .filter(sheet => selected.includes(sheet.name))
+          .map(sheet => ({ name: sheet.name, headerRow: headerRows[sheet.name] ?? sheet.headerRow })))
+      }
+      modalHeading={`Choose sheets from ${filename}`}
+      primaryButtonText={selected.length > 1 ? `Load ${selected.length} tables` : 'Load sheet'}
+      primaryButtonDisabled={selected.length === 0}
+      secondaryButtonText="Cancel"
+      size="lg"
+    >
+      <p className="text-gray-600 mb-4">
+        Each selected sheet is loaded as its own table. The header row was detected
+        automatically; change it if the column names are on another row.
+      </p>
+
+      <table className="w-full text-sm mb-6">
+        <thead>
+          <tr className="text-left border-b">
+            <th className="py-2">Sheet</th>
+            <th className="py-2">Rows × Columns</th>
+            <th className="py-2">Header row</th>
+          </tr>
+        </thead>
+        <tbody>
+          {workbook.sheets.map((sheet, index) => (
+            <tr
+              key={sheet.name}
+              className={`border-b cursor-pointer ${sheet.name === previewSheet ? 'bg-blue-50' : ''}`}
+              onClick={() => setPreviewSheet(sheet.name)}
+            >
+              <td className="py-2">
+                <Checkbox
+                  id={`sheet-${index}`}
+                  labelText={sheet.name}
+                  checked={selected.includes(sheet.name)}
+                  disabled={sheet.grid.length === 0}
+                  onChange={(_, { checked }) => toggle(sheet.name, checked)}
+                />
+              </td>
+              <td className="py-2">
+                {sheet.grid.length.toLocaleString()} × {sheet.columnCount}
+              </td>
+              <td className="py-2 w-40">
+                <NumberInput
+                  id={`header-row-${index}`}
+                  label="Header row"
+                  hideLabel
+                  size="sm"
+                  min={1}
+                  max={Math.max(sheet.grid.length, 1)}
+                  value={(headerRows[sheet.name] ?? sheet.headerRow) + 1}
+                  disabled={sheet.grid.length === 0}
+                  onChange={(_, { value }) => {
+                    const row = Number(value);
+                    if (Number.isInteger(row) && row >= 1) {
+                      setHeaderRows(prev => ({ ...prev, [sheet.name]: row - 1 }));
+                    }
+                  }}
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {preview && previewRows.length > 0 && (
+        <div>
+          <h4 className="font-medium mb-2">Preview of {preview.name}</h4>
+          <div className="overflow-auto">
+            <table className="text-sm border">
+              <tbody>
+                {previewRows.map((row, r) => (
+                  <tr key={r} className={r === 0 ? 'font-semibold bg-gray-100' : 'border-t'}>
+                    {row.slice(0, preview.columnCount).map((value, c) => (
+                      <td key={c} className="px-2 py-1 whitespace-nowrap">
+                        {value === null ? '' : String(value)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default SheetPicker;
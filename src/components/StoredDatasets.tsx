@@ -0,0 +1,153 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Modal, Button, Tag, InlineLoading } from '@carbon/react';
+import { TrashCan, Launch } from '@carbon/icons-react';
+import { formatDistanceToNow } from 'date-fns';
+import {
+  deleteDataset,
+  estimateStorage,
+  formatBytes,
+  listStoredDatasets,
+  StoredDatasetInfo
+} from '@/utils/storage';
+import { useToast } from '@/hooks/use-toast';
+
+interface StoredDatasetsProps {
+  open: boolean;
+  openTables: string[];
+  onClose: () => void;
+  onOpenDataset: (name: string) => void;
+  onDatasetDeleted: (name: string) => void;
+}
+
+const StoredDatasets: React.FC<StoredDatasetsProps> = ({
+  open,
+  openTables,
+  onClose,
+  onOpenDataset,
+  onDatasetDeleted
+}) => {
+  const [datasets, setDatasets] = useState<StoredDatasetInfo[]>([]);
+  const [usage, setUsage] = useState<{ usage: number; quota: number } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [stored, estimate] = await Promise.all([listStoredDatasets(), estimateStorage()]);
+      setDatasets(stored.sort((a, b) => a.name.localeCompare(b.name)));
+      setUsage(estimate);
+    } catch (error) {
+      toast({
+        title: "Storage unavailable",
+        description: error instanceof Error ? error.message : "Could not read stored datasets.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (open) refresh();
+  }, [open, refresh]);
+
+  const handleDelete = async (name: string) => {
+    try {
+      await deleteDataset(name);
+      onDatasetDeleted(name);
+      await refresh();
+      toast({
+        title: "Dataset deleted",
+        description: `${name} has been removed from browser storage.`
+      });
+    } catch (error) {
+      toast({
+        title: "Delete failed",
+        description: error instanceof Error ? error.message : `Could not delete ${name}.`,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const totalSize = datasets.reduce((sum, dataset) => sum + dataset.sizeBytes, 0);
+
+  return (
+    <Modal
+      open={open}
+      onRequestClose={onClose}
+      modalHeading="Stored datasets"
+      passiveModal
+      size="lg"
+    >
+      <p className="text-gray-600 mb-4">
+        Datasets are kept in this browser and restored when you come back.
+        {' '}{datasets.length} stored, {formatBytes(totalSize)} of data
+        {usage && usage.quota > 0 && ` (browser reports ${formatBytes(usage.usage)} used of ${formatBytes(usage.quota)})`}.
+      </p>
+
+      {isLoading && <InlineLoading description="Loading stored datasets..." />}
+
+      {!isLoading && datasets.length === 0 && (
+        <p className="text-gray-500">Nothing is stored yet. Uploaded files are saved automatically.</p>
+      )}
+
+      {!isLoading && datasets.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left border-b">
+              <th className="py-2">Table</th>
+              <th className="py-2">File</th>
+              <th className="py-2">Rows × Columns</th>
+              <th className="py-2">Size</th>
+              <th className="py-2">Saved</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {datasets.map(dataset => {
+              const isOpen = openTables.includes(dataset.name);
+              return (
+                <tr key={dataset.name} className="border-b">
+                  <td className="py-2 font-medium">
+                    {dataset.name}
+                    {isOpen && <Tag type="green" size="sm" className="ml-2">Open</Tag>}
+                  </td>
+                  <td className="py-2">{dataset.sheet ? `${dataset.filename} (${dataset.sheet})` : dataset.filename}</td>
+                  <td className="py-2">
+                    {dataset.stats.totalRows.toLocaleString()} × {dataset.stats.totalColumns}
+                  </td>
+                  <td className="py-2">{formatBytes(dataset.sizeBytes)}</td>
+                  <td className="py-2">{formatDistanceToNow(new Date(dataset.savedAt), { addSuffix: true })}</td>
+                  <td className="py-2">
+                    <div className="flex gap-1 justify-end">
+                      <Button
+                        kind="ghost"
+                        size="sm"
+                        renderIcon={Launch}
+                        disabled={isOpen}
+                        onClick={() => onOpenDataset(dataset.name)}
+                      >
+                        Open
+                      </Button>
+                      <Button
+                        kind="danger--ghost"
+                        size="sm"
+                        renderIcon={TrashCan}
+                        onClick={() => handleDelete(dataset.name)}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </Modal>
+  );
+};
+
+export default StoredDatasets;
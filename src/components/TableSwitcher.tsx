@@ -0,0 +1,91 @@
+import React, { useMemo } from 'react';
+import { Button, Tile } from '@carbon/react';
+import { DataTable as DataTableIcon, Close, Connect, Archive } from '@carbon/icons-react';
+import { suggestJoinKeys, WorkspaceTable } from '@/utils/workspace';
+
+interface TableSwitcherProps {
+  tables: WorkspaceTable[];
+  activeTable: string;
+  onSelectTable: (name: string) => void;
+  onRemoveTable: (name: string) => void;
+  onManageStorage: () => void;
+}
+
+const TableSwitcher: React.FC<TableSwitcherProps> = ({
+  tables,
+  activeTable,
+  onSelectTable,
+  onRemoveTable,
+  onManageStorage
+}) => {
+  const active = tables.find(table => table.name === activeTable);
+
+  const joinSuggestions = useMemo(() => {
+    if (!active) return [];
+    return tables
+      .filter(table => table.name !== active.name)
+      .flatMap(table => suggestJoinKeys(active, table).slice(0, 1).map(suggestion => ({ table: table.name, ...suggestion })));
+  }, [tables, active]);
+
+  if (tables.length === 0) return null;
+
+  return (
+    <Tile className="mb-6">
+      <div className="flex items-center gap-2 mb-3">
+        <DataTableIcon size={16} />
+        <h3 className="font-medium">Workspace tables</h3>
+        <span className="text-sm text-gray-600 flex-1">
+          Reference tables by name in questions and SQL; "data" always means the active table.
+        </span>
+        <Button kind="ghost" size="sm" renderIcon={Archive} onClick={onManageStorage}>
+          Stored datasets
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {tables.map(table => (
+          <div key={table.name} className="flex items-center">
+            <Button
+              kind={table.name === activeTable ? 'primary' : 'tertiary'}
+              size="sm"
+              onClick={() => onSelectTable(table.name)}
+              title={table.sheet ? `${table.filename} (${table.sheet})` : table.filename}
+            >
+              {table.name} ({table.stats.totalRows.toLocaleString()} × {table.stats.totalColumns})
+            </Button>
+            <Button
+              kind="ghost"
+              size="sm"
+              hasIconOnly
+              renderIcon={Close}
+              iconDescription={`Close ${table.name}`}
+              tooltipPosition="bottom"
+              onClick={() => onRemoveTable(table.name)}
+            />
+          </div>
+        ))}
+      </div>
+
+      {joinSuggestions.length > 0 && (
+        <div className="mt-4">
+          <h4 className="text-sm font-medium mb-2 flex items-center gap-2">
+            <Connect size={16} />
+            Suggested join keys for {activeTable}
+          </h4>
+          <ul className="text-sm space-y-1">
+            {joinSuggestions.map(suggestion => (
+              <li key={suggestion.table}>
+                <code className="bg-gray-100 px-1 rounded">
+                  {activeTable}.{suggestion.leftColumn} = {suggestion.table}.{suggestion.rightColumn}
+                </code>
+                <span className="text-gray-600 ml-2">{suggestion.reason}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </Tile>
+  );
+};
+
+export default TableSwitcher;
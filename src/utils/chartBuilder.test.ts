@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { buildChartSeries, buildScatterSeries, ChartSettings, MAX_LINE_POINTS, MAX_SCATTER_POINTS } from './chartBuilder';
+
+describe('buildChartSeries', () => {
+  const data = Array.from({ length: 15 }, (_, index) => ({ name: `item ${index + 1}`, amount: index + 1 }));
+  const settings = (overrides: Partial<ChartSettings>): ChartSettings => ({
+    type: 'pie',
+    x: 'name',
+    measures: [{ column: 'amount', fn: 'sum' }],
+    series: null,
+    sort: 'none',
+    limit: null,
+    ...overrides
+  });
+
+  it.each([null, 10, 12])('keeps a pie to ten slices, Other included, with limit %s', limit => {
+    const chart = buildChartSeries(data, settings({ limit }));
+    expect(chart.labels).toHaveLength(10);
+    expect(chart.labels[9]).toBe('Other (6)');
+    expect(chart.truncation.values).toEqual({ total: 15, shown: 9 });
+    expect(chart.datasets[0].data.reduce((sum, value) => sum + value, 0)).toBe(120);
+  });
+
+  it('shows every kept value when Other is turned off', () => {
+    const chart = buildChartSeries(data, settings({ limit: 12, other: false }));
+    expect(chart.labels).toHaveLength(10);
+    expect(chart.labels).not.toContain('Other (5)');
+  });
+
+  it('adds no Other slice when every value fits', () => {
+    expect(buildChartSeries(data.slice(0, 10), settings({})).labels).toHaveLength(10);
+    expect(buildChartSeries(data, settings({ limit: 5 })).labels).toEqual(['item 1', 'item 2', 'item 3', 'item 4', 'item 5', 'Other (10)']);
+  });
+
+  it('downsamples long lines to the point cap, gaps included', () => {
+    const points = Array.from({ length: 5000 }, (_, index) => ({ day: index, value: index % 3 === 0 ? null : Math.sin(index / 50) }));
+    const chart = buildChartSeries(points, settings({ type: 'line', x: 'day', measures: [{ column: 'value', fn: 'max' }] }));
+    expect(chart.labels.length).toBeLessThanOrEqual(MAX_LINE_POINTS);
+    expect(chart.truncation.points).toEqual({ total: 5000, shown: chart.labels.length });
+  });
+});
+
+describe('buildScatterSeries', () => {
+  const settings: ChartSettings = {
+    type: 'scatter',
+    x: 'weight',
+    measures: [{ column: 'height', fn: 'sum' }],
+    series: 'group',
+    sort: 'none',
+    limit: null
+  };
+
+  it('samples every series evenly down to the point cap', () => {
+    const rows = Array.from({ length: 12000 }, (_, index) => ({ weight: index, height: index % 7, group: index % 4 ? 'many' : 'few' }));
+    const chart = buildScatterSeries(rows, settings);
+    const shown = chart.datasets.reduce((sum, dataset) => sum + dataset.data.length, 0);
+    expect(shown).toBeLessThanOrEqual(MAX_SCATTER_POINTS);
+    expect(chart.truncation.sampled).toEqual({ total: 12000, shown });
+    expect(chart.datasets.map(dataset => dataset.data.length)).toEqual([1250, 3750]);
+  });
+
+  it('keeps every point under the cap', () => {
+    const rows = Array.from({ length: 100 }, (_, index) => ({ weight: index, height: index, group: 'one' }));
+    const chart = buildScatterSeries(rows, settings);
+    expect(chart.datasets[0].data).toHaveLength(100);
+    expect(chart.truncation).toBeUndefined();
+  });
+});
@@ -0,0 +1,549 @@
+import { formatBound, histogram, quantile } from './columnProfile';
+import type { DataRow } from './dataProcessor';
+import { downsampleIndices } from './downsample';
+import { aggregate, AggregateFunction, column, compareValues, evaluateExpression, isMissing } from './queryPlan';
+import type { TimeAxisSettings } from './timeSeries';
+
+// Chart encodings chosen in the chart builder: which column goes on the x-axis,
+// which measures are plotted and how they are aggregated, an optional column
+// that splits each measure into one series per value, and the order and
+// number of x values shown. Rows are grouped by x (and series) and aggregated
+// with the query executor's own aggregate functions. Scatter plots,
+// histograms and box plots use row values instead: x against the first
+// measure, the distribution of the x column, and the spread of the first
+// measure per x value. Heatmaps aggregate the first measure over x and the
+// series column.
+//
+// Large results are cut the same way everywhere: x values beyond the limit
+// (or the most a chart type can show) and series beyond MAX_SERIES are
+// combined into one "Other" value, long lines are downsampled, and every
+// builder reports what it left out so the chart can say so.
+
+export type ChartType =
+  | 'table'
+  | 'bar'
+  | 'line'
+  | 'area'
+  | 'combo'
+  | 'pie'
+  | 'doughnut'
+  | 'radar'
+  | 'scatter'
+  | 'histogram'
+  | 'box'
+  | 'heatmap';
+
+export interface ChartMeasure {
+  column: string;
+  fn: AggregateFunction;
+}
+
+export type ChartSort = 'none' | 'x-asc' | 'x-desc' | 'value-asc' | 'value-desc';
+
+export type ChartStacking = 'none' | 'stacked' | 'percent';
+
+export interface ChartSettings {
+  type: ChartType;
+  // Column whose values label the x-axis; ROW_NUMBER plots one point per row.
+  x: string;
+  measures: ChartMeasure[];
+  // Column that splits every measure into one series per distinct value.
+  series: string | null;
+  sort: ChartSort;
+  // Keep only this many x values (after sorting).
+  limit: number | null;
+  // Bars and areas: stack the series, or stack them to 100%.
+  stacking?: ChartStacking;
+  // Scatter plots: numeric column that sets the size of each point.
+  size?: string | null;
+  // Histograms: number of equal-width bins.
+  bins?: number | null;
+  // Date x-axes: how dates are bucketed and which overlays are drawn.
+  time?: TimeAxisSettings;
+  // Combine the x values and series left out into "Other" (the default), or drop them.
+  other?: boolean;
+}
+
+export interface ChartTruncation {
+  // Distinct x values, and how many are shown on their own.
+  values?: { total: number; shown: number };
+  // Distinct series values, and how many are shown on their own.
+  series?: { total: number; shown: number };
+  // Points per line before and after downsampling.
+  points?: { total: number; shown: number };
+  // Points of a scatter plot before and after sampling.
+  sampled?: { total: number; shown: number };
+  // Periods of a time axis before and after keeping the latest.
+  periods?: { total: number; shown: number };
+  // Whether the values left out are combined into "Other" or dropped.
+  other: boolean;
+}
+
+export interface ChartSeries {
+  labels: string[];
+  datasets: { label: string; data: number[] }[];
+  truncation?: ChartTruncation;
+}
+
+export interface ScatterSeries {
+  // `r` (point radius in pixels) is set when a size column is chosen.
+  datasets: { label: string; data: { x: number; y: number; r?: number }[] }[];
+  truncation?: ChartTruncation;
+}
+
+export interface BoxStats {
+  // Whiskers end at the furthest values within 1.5 IQR of the box.
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+  outliers: number[];
+}
+
+export interface BoxPlotSeries {
+  label: string;
+  labels: string[];
+  boxes: BoxStats[];
+  truncation?: ChartTruncation;
+}
+
+export interface HeatmapSeries {
+  label: string;
+  xLabels: string[];
+  yLabels: string[];
+  // values[y][x]; null where no rows have that pair of values.
+  values: (number | null)[][];
+  min: number;
+  max: number;
+  truncation?: ChartTruncation;
+}
+
+export const ROW_NUMBER = '';
+
+export const AGGREGATE_LABELS: Record<AggregateFunction, string> = {
+  sum: 'Sum',
+  avg: 'Average',
+  min: 'Min',
+  max: 'Max',
+  median: 'Median',
+  count: 'Count'
+};
+
+const NUMERIC_SAMPLE = 100;
+const DEFAULT_MEASURES = 3;
+// At most this many series per measure when splitting, "Other" included.
+export const MAX_SERIES = 12;
+const MAX_HEATMAP_ROWS = 50;
+// At most this many x values, "Other" included, for charts that cannot show more.
+export const MAX_VALUES: Partial<Record<ChartType, number>> = {
+  bar: 50,
+  combo: 50,
+  pie: 10,
+  doughnut: 10,
+  radar: 20,
+  box: 50,
+  heatmap: 50
+};
+// Lines with more points than this are downsampled.
+export const MAX_LINE_POINTS = 1000;
+// Scatter plots with more points than this show an even sample of each series.
+export const MAX_SCATTER_POINTS = 5000;
+export const DEFAULT_BINS = 20;
+// Point radius range, in pixels, for scatter plots sized by a column.
+const MIN_RADIUS = 3;
+const MAX_RADIUS = 20;
+
+/** Columns whose (sampled, non-empty) values are all numbers. */
+export const numericColumnsOf = (data: DataRow[]): string[] => {
+  const sample = data.slice(0, NUMERIC_SAMPLE);
+  return Object.keys(data[0] || {}).filter(key => {
+    const values = sample.map(row => row[key]).filter(value => !isMissing(value));
+    return values.length > 0 && values.every(value => typeof value !== 'boolean' && !isNaN(Number(value)));
+  });
+};
+
+/**
+ * Settings that reproduce the old automatic chart: the first text column on
+ * the x-axis and the first numeric columns as measures.
+ */
+export const defaultChartSettings = (data: DataRow[], type: ChartType): ChartSettings => {
+  const columns = Object.keys(data[0] || {});
+  const numeric = numericColumnsOf(data);
+  const text = columns.filter(key => !numeric.includes(key));
+  const x = text[0] ?? (columns.length > 1 ? columns[0] : ROW_NUMBER);
+  const measures = numeric.filter(key => key !== x).slice(0, DEFAULT_MEASURES).map(key => ({ column: key, fn: 'sum' as const }));
+  return {
+    type,
+    x,
+    measures: measures.length > 0 ? measures : x === ROW_NUMBER ? [] : [{ column: x, fn: 'count' }],
+    series: null,
+    sort: 'none',
+    limit: null
+  };
+};
+
+/** Drops encodings that refer to columns the data does not have. */
+export const reconcileChartSettings = (settings: ChartSettings, data: DataRow[]): ChartSettings => {
+  const columns = Object.keys(data[0] || {});
+  const fallback = defaultChartSettings(data, settings.type);
+  const measures = settings.measures.filter(measure => columns.includes(measure.column));
+  return {
+    ...settings,
+    x: settings.x === ROW_NUMBER || columns.includes(settings.x) ? settings.x : fallback.x,
+    measures: measures.length > 0 ? measures : fallback.measures,
+    series: settings.series && columns.includes(settings.series) ? settings.series : null,
+    size: settings.size && columns.includes(settings.size) ? settings.size : null
+  };
+};
+
+export const labelOf = (value: unknown): string => (isMissing(value) ? '(empty)' : String(value));
+
+const toNumber = (value: unknown): number => {
+  const number = Number(value);
+  return isMissing(value) || isNaN(number) ? 0 : number;
+};
+
+export const measureLabel = (measure: ChartMeasure, displayName: (key: string) => string): string =>
+  `${AGGREGATE_LABELS[measure.fn]} of ${displayName(measure.column)}`;
+
+type Group = [label: string, group: { key: unknown; rows: DataRow[] }];
+
+// Label of the value that combines `count` values left out.
+export const otherLabel = (count: number): string => `Other (${count.toLocaleString()})`;
+
+/**
+ * Rows grouped by x value, in order of first appearance, then sorted (by x,
+ * or by `valueOf` for the value sorts). The limit keeps the first values;
+ * without one, charts that cannot show every value keep the largest. The
+ * rest are combined into an "Other" group unless `settings.other` is false.
+ */
+const groupRows = (
+  data: DataRow[],
+  settings: ChartSettings,
+  valueOf: (rows: DataRow[]) => number
+): { entries: Group[]; total: number; shown: number } => {
+  const { x, sort, limit } = settings;
+  const groups = new Map<string, { key: unknown; rows: DataRow[] }>();
+  data.forEach((row, index) => {
+    const key = x === ROW_NUMBER ? `Row ${index + 1}` : row[x];
+    const label = labelOf(key);
+    const group = groups.get(label);
+    if (group) {
+      group.rows.push(row);
+    } else {
+      groups.set(label, { key, rows: [row] });
+    }
+  });
+
+  let entries = Array.from(groups.entries());
+  const total = entries.length;
+  const totals = new Map<string, number>();
+  const totalOf = (label: string, rows: DataRow[]) => {
+    if (!totals.has(label)) totals.set(label, valueOf(rows));
+    return totals.get(label);
+  };
+
+  if (sort === 'x-asc' || sort === 'x-desc') {
+    const direction = sort === 'x-asc' ? 1 : -1;
+    entries.sort(([, a], [, b]) => (compareValues(a.key, b.key) ?? (isMissing(a.key) ? 1 : -1)) * direction);
+  } else if (sort === 'value-asc' || sort === 'value-desc') {
+    const direction = sort === 'value-asc' ? 1 : -1;
+    entries.sort(([a, groupA], [b, groupB]) => (totalOf(a, groupA.rows) - totalOf(b, groupB.rows)) * direction);
+  }
+
+  const most = MAX_VALUES[settings.type];
+  let kept = entries;
+  if (limit !== null && limit > 0 && limit < total) {
+    kept = entries.slice(0, limit);
+  }
+  // When values are left out, "Other" takes one of the values the chart can show.
+  const room = most !== undefined && settings.other !== false && (kept.length < total || kept.length > most)
+    ? most - 1
+    : most;
+  if (room !== undefined && kept.length > room) {
+    const largest = new Set([...kept]
+      .sort(([a, groupA], [b, groupB]) => Math.abs(totalOf(b, groupB.rows)) - Math.abs(totalOf(a, groupA.rows)))
+      .slice(0, room)
+      .map(([label]) => label));
+    kept = kept.filter(([label]) => largest.has(label));
+  }
+
+  if (kept.length < total) {
+    const shown = new Set(kept.map(([label]) => label));
+    const rest = entries.filter(([label]) => !shown.has(label));
+    entries = settings.other === false
+      ? kept
+      : [...kept, [otherLabel(rest.length), { key: null, rows: rest.flatMap(([, group]) => group.rows) }]];
+  }
+  return { entries, total, shown: kept.length };
+};
+
+export interface SeriesSplit {
+  // Series labels, in order of first appearance; "Other" last.
+  labels: string[];
+  // The series label of a row, or null when its series is not shown.
+  seriesOf: (row: DataRow) => string | null;
+  // Distinct values of the series column.
+  total: number;
+  // Values shown on their own.
+  shown: number;
+}
+
+/**
+ * Splits rows by the values of `column`: the `most - 1` most frequent values
+ * get their own series and the rest share "Other" (or are dropped when
+ * `other` is false). Without more values than `most`, each gets a series.
+ */
+export const splitSeries = (rows: DataRow[], column: string, most = MAX_SERIES, other = true): SeriesSplit => {
+  const counts = new Map<string, number>();
+  rows.forEach(row => {
+    const label = labelOf(row[column]);
+    counts.set(label, (counts.get(label) || 0) + 1);
+  });
+
+  const total = counts.size;
+  if (total <= most) {
+    return { labels: Array.from(counts.keys()), seriesOf: row => labelOf(row[column]), total, shown: total };
+  }
+
+  const frequent = new Set(Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, most - 1)
+    .map(([label]) => label));
+  const rest = otherLabel(total - frequent.size);
+  return {
+    labels: [...Array.from(counts.keys()).filter(label => frequent.has(label)), ...(other ? [rest] : [])],
+    seriesOf: row => {
+      const label = labelOf(row[column]);
+      return frequent.has(label) ? label : other ? rest : null;
+    },
+    total,
+    shown: frequent.size
+  };
+};
+
+const truncationOf = (
+  settings: ChartSettings,
+  values: { total: number; shown: number },
+  series?: SeriesSplit
+): ChartTruncation | undefined => {
+  const truncation: ChartTruncation = { other: settings.other !== false };
+  if (values.shown < values.total) truncation.values = values;
+  if (series && series.shown < series.total) truncation.series = { total: series.total, shown: series.shown };
+  return truncation.values || truncation.series ? truncation : undefined;
+};
+
+export const aggregateRows = (rows: DataRow[], measure: ChartMeasure): number =>
+  toNumber(evaluateExpression(aggregate(measure.fn, column(measure.column)), rows[0] || {}, rows));
+
+// Keeps the same points of every dataset of a line chart that has too many.
+const downsampleLine = (chart: ChartSeries): ChartSeries => {
+  const kept = downsampleIndices(chart.labels.map((_, index) => index), chart.datasets.map(dataset => dataset.data), MAX_LINE_POINTS);
+  if (!kept) return chart;
+  return {
+    labels: kept.map(index => chart.labels[index]),
+    datasets: chart.datasets.map(dataset => ({ ...dataset, data: kept.map(index => dataset.data[index]) })),
+    truncation: {
+      ...chart.truncation,
+      other: chart.truncation?.other ?? true,
+      points: { total: chart.labels.length, shown: kept.length }
+    }
+  };
+};
+
+/** Groups and aggregates `data` into chart labels and datasets. */
+export const buildChartSeries = (
+  data: DataRow[],
+  settings: ChartSettings,
+  displayName: (key: string) => string = key => key
+): ChartSeries => {
+  const { measures, series } = settings;
+  const { entries, total, shown } = groupRows(data, settings, rows => (measures.length > 0 ? aggregateRows(rows, measures[0]) : 0));
+  const labels = entries.map(([label]) => label);
+  const line = (chart: ChartSeries) => (settings.type === 'line' || settings.type === 'area' ? downsampleLine(chart) : chart);
+
+  if (!series) {
+    return line({
+      labels,
+      datasets: measures.map(measure => ({
+        label: measureLabel(measure, displayName),
+        data: entries.map(([, group]) => aggregateRows(group.rows, measure))
+      })),
+      truncation: truncationOf(settings, { total, shown })
+    });
+  }
+
+  // One dataset per measure and series value.
+  const split = splitSeries(entries.flatMap(([, group]) => group.rows), series, MAX_SERIES, settings.other !== false);
+
+  return line({
+    labels,
+    datasets: measures.flatMap(measure => split.labels.map(seriesValue => ({
+      label: measures.length > 1 ? `${seriesValue} · ${measureLabel(measure, displayName)}` : seriesValue,
+      data: entries.map(([, group]) => {
+        const rows = group.rows.filter(row => split.seriesOf(row) === seriesValue);
+        return rows.length > 0 ? aggregateRows(rows, measure) : 0;
+      })
+    }))),
+    truncation: truncationOf(settings, { total, shown }, split)
+  });
+};
+
+const numberOrNull = (value: unknown): number | null => {
+  const number = Number(value);
+  return isMissing(value) || typeof value === 'boolean' || isNaN(number) ? null : number;
+};
+
+/** Counts of the x column's numeric values in equal-width bins. */
+export const buildHistogramSeries = (
+  data: DataRow[],
+  settings: ChartSettings,
+  displayName: (key: string) => string = key => key
+): ChartSeries => {
+  const values = data.map(row => numberOrNull(row[settings.x])).filter((value): value is number => value !== null);
+  const bins = histogram(Float64Array.from(values).sort(), formatBound, settings.bins || DEFAULT_BINS);
+  return {
+    labels: bins.map(bin => bin.label),
+    datasets: [{ label: `Rows by ${displayName(settings.x)}`, data: bins.map(bin => bin.count) }]
+  };
+};
+
+/**
+ * One point per row: x against the first measure, coloured by the series
+ * column and, with a size column, sized by the square root of its value.
+ * Past MAX_SCATTER_POINTS each series shows an even sample of its rows.
+ */
+export const buildScatterSeries = (
+  data: DataRow[],
+  settings: ChartSettings,
+  displayName: (key: string) => string = key => key
+): ScatterSeries => {
+  const y = settings.measures[0]?.column;
+  const { size } = settings;
+  let smallest = Infinity;
+  let largest = -Infinity;
+  if (size) {
+    data.forEach(row => {
+      const value = numberOrNull(row[size]);
+      if (value === null) return;
+      smallest = Math.min(smallest, value);
+      largest = Math.max(largest, value);
+    });
+  }
+  const range = Math.sqrt(largest - smallest) || 1;
+
+  const split = settings.series ? splitSeries(data, settings.series, MAX_SERIES, settings.other !== false) : null;
+  const groups = new Map<string, { x: number; y: number; r?: number }[]>(
+    split ? split.labels.map(label => [label, []]) : []
+  );
+  data.forEach(row => {
+    const point: { x: number; y: number; r?: number } = { x: numberOrNull(row[settings.x]), y: numberOrNull(row[y]) };
+    if (point.x === null || point.y === null) return;
+    if (size) {
+      const value = numberOrNull(row[size]);
+      if (value === null) return;
+      point.r = MIN_RADIUS + (Math.sqrt(value - smallest) / range) * (MAX_RADIUS - MIN_RADIUS);
+    }
+    const label = split ? split.seriesOf(row) : `${displayName(y)} by ${displayName(settings.x)}`;
+    if (label === null) return;
+    if (!groups.has(label)) groups.set(label, []);
+    groups.get(label).push(point);
+  });
+  let datasets = Array.from(groups.entries()).map(([label, points]) => ({ label, data: points }));
+  const truncation: ChartTruncation = { other: settings.other !== false };
+  if (split && split.shown < split.total) truncation.series = { total: split.total, shown: split.shown };
+
+  // Every series keeps the same share of its points, spread over its rows.
+  const total = datasets.reduce((sum, dataset) => sum + dataset.data.length, 0);
+  if (total > MAX_SCATTER_POINTS) {
+    datasets = datasets.map(dataset => {
+      const count = Math.max(1, Math.floor((dataset.data.length * MAX_SCATTER_POINTS) / total));
+      return { ...dataset, data: Array.from({ length: count }, (_, index) => dataset.data[Math.floor((index * dataset.data.length) / count)]) };
+    });
+    truncation.sampled = { total, shown: datasets.reduce((sum, dataset) => sum + dataset.data.length, 0) };
+  }
+  return { datasets, truncation: truncation.series || truncation.sampled ? truncation : undefined };
+};
+
+/** Scales the datasets' values at every position so that they add up to 100; gaps stay gaps. */
+export const toPercentages = <T extends { data: (number | null)[] }>(datasets: T[]): T[] => {
+  const totals = (datasets[0]?.data || []).map((_, index) =>
+    datasets.reduce((total, dataset) => total + Math.abs(dataset.data[index] ?? 0), 0));
+  return datasets.map(dataset => ({
+    ...dataset,
+    data: dataset.data.map((value, index) =>
+      (value === null ? null : totals[index] > 0 ? (Math.abs(value) / totals[index]) * 100 : 0))
+  }));
+};
+
+const boxStats = (sorted: Float64Array): BoxStats => {
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const low = q1 - (q3 - q1) * 1.5;
+  const high = q3 + (q3 - q1) * 1.5;
+  const inside = sorted.filter(value => value >= low && value <= high);
+  return {
+    min: inside[0],
+    q1,
+    median: quantile(sorted, 0.5),
+    q3,
+    max: inside[inside.length - 1],
+    outliers: Array.from(sorted.filter(value => value < low || value > high))
+  };
+};
+
+/** Quartiles of the first measure's values for each x value. */
+export const buildBoxPlotSeries = (
+  data: DataRow[],
+  settings: ChartSettings,
+  displayName: (key: string) => string = key => key
+): BoxPlotSeries => {
+  const measure = settings.measures[0]?.column;
+  const sortedValues = (rows: DataRow[]): Float64Array =>
+    Float64Array.from(rows.map(row => numberOrNull(row[measure])).filter((value): value is number => value !== null)).sort();
+  const { entries, total, shown } = groupRows(data, settings, rows => {
+    const sorted = sortedValues(rows);
+    return sorted.length > 0 ? quantile(sorted, 0.5) : 0;
+  });
+  const withValues = entries.filter(([, group]) => sortedValues(group.rows).length > 0);
+
+  return {
+    label: displayName(measure),
+    labels: withValues.map(([label]) => label),
+    boxes: withValues.map(([, group]) => boxStats(sortedValues(group.rows))),
+    truncation: truncationOf(settings, { total, shown })
+  };
+};
+
+/** The first measure aggregated over each pair of x and series values. */
+export const buildHeatmapSeries = (
+  data: DataRow[],
+  settings: ChartSettings,
+  displayName: (key: string) => string = key => key
+): HeatmapSeries => {
+  const measure = settings.measures[0];
+  const { entries, total, shown } = groupRows(data, settings, rows => (measure ? aggregateRows(rows, measure) : 0));
+
+  // Rows of the heatmap, in order of first appearance as for x.
+  const split = settings.series
+    ? splitSeries(entries.flatMap(([, group]) => group.rows), settings.series, MAX_HEATMAP_ROWS, settings.other !== false)
+    : null;
+  const yLabels = split ? split.labels : [measure ? measureLabel(measure, displayName) : ''];
+
+  const values = yLabels.map(yLabel => entries.map(([, group]) => {
+    const rows = split ? group.rows.filter(row => split.seriesOf(row) === yLabel) : group.rows;
+    return rows.length > 0 && measure ? aggregateRows(rows, measure) : null;
+  }));
+  const filled = values.flat().filter((value): value is number => value !== null);
+
+  return {
+    label: measure ? measureLabel(measure, displayName) : '',
+    xLabels: entries.map(([label]) => label),
+    yLabels,
+    values,
+    min: filled.length > 0 ? Math.min(...filled) : 0,
+    max: filled.length > 0 ? Math.max(...filled) : 0,
+    truncation: truncationOf(settings, { total, shown }, split)
+  };
+};
@@ -0,0 +1,177 @@
+import type { DataRow } from './dataProcessor';
+import { ChartSettings, ChartType, numericColumnsOf, ROW_NUMBER } from './chartBuilder';
+import { inferColumnType } from './typeInference';
+
+// Suggests charts for a query result from the shape of the data rather than
+// the wording of the query. Every column is classified as a time, a category
+// or a measure (with its number of distinct values), a set of rules proposes
+// candidate charts with a score, and the candidates are ranked. Each comes
+// with the settings to draw it and a sentence saying why it fits.
+
+export interface ChartRecommendation {
+  type: ChartType;
+  settings: ChartSettings;
+  // 0..1; higher is a better fit.
+  score: number;
+  reason: string;
+}
+
+type Role = 'time' | 'category' | 'measure' | 'identifier';
+
+interface ResultColumn {
+  name: string;
+  role: Role;
+  distinct: number;
+}
+
+// Categories with more values than this only chart well as a top-N bar chart.
+const MAX_CATEGORIES = 30;
+const MAX_PIE_SLICES = 6;
+const MAX_RADAR_AXES = 12;
+const TOP_N = 20;
+const MAX_MEASURES = 3;
+// Box plots need several values per category to show a spread.
+const MIN_BOX_VALUES = 5;
+
+const classifyColumns = (data: DataRow[]): ResultColumn[] => {
+  const numeric = numericColumnsOf(data);
+  return Object.keys(data[0] || {}).map(name => {
+    const distinct = new Set(data.map(row => String(row[name] ?? ''))).size;
+    const { type } = inferColumnType(data, name);
+    let role: Role = 'category';
+    if (type === 'date' || type === 'datetime') {
+      role = 'time';
+    } else if (type === 'identifier') {
+      role = 'identifier';
+    } else if (numeric.includes(name) && type !== 'postal_code') {
+      // Years look numeric but read as time.
+      role = /\b(year|yr)\b/i.test(name.replace(/_/g, ' ')) ? 'time' : 'measure';
+    }
+    return { name, role, distinct };
+  });
+};
+
+const settingsFor = (type: ChartType, x: string, measures: string[], extra: Partial<ChartSettings> = {}): ChartSettings => ({
+  type,
+  x,
+  measures: measures.slice(0, MAX_MEASURES).map(column => ({ column, fn: 'sum' })),
+  series: null,
+  sort: 'none',
+  limit: null,
+  ...extra
+});
+
+const list = (names: string[]): string =>
+  names.length <= 1 ? names.join('') : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+
+/** Ranked chart suggestions for `data`, best first, one per chart type. */
+export const recommendCharts = (
+  data: DataRow[],
+  displayName: (key: string) => string = key => key
+): ChartRecommendation[] => {
+  const table: ChartRecommendation = {
+    type: 'table',
+    settings: settingsFor('table', ROW_NUMBER, []),
+    score: 0.3,
+    reason: 'Shows the exact values.'
+  };
+  if (data.length === 0) return [table];
+
+  const columns = classifyColumns(data);
+  const measures = columns.filter(column => column.role === 'measure').map(column => column.name);
+  const times = columns.filter(column => column.role === 'time');
+  const categories = columns.filter(column => column.role === 'category' && column.distinct > 1);
+  const named = (names: string[]) => list(names.slice(0, MAX_MEASURES).map(displayName));
+  const candidates: ChartRecommendation[] = [table];
+
+  if (data.length === 1 && measures.length > 0) {
+    // A single row of totals reads best as a table.
+    table.score = 0.9;
+    table.reason = 'The result is a single row of values.';
+  }
+
+  if (times.length > 0 && measures.length > 0 && data.length > 1) {
+    const time = times[0].name;
+    const series = categories.find(column => column.distinct <= MAX_CATEGORIES / 2)?.name || null;
+    candidates.push({
+      type: 'line',
+      settings: settingsFor('line', time, measures, { sort: 'x-asc', series: measures.length === 1 ? series : null }),
+      score: 0.95,
+      reason: `${displayName(time)} is a time and ${named(measures)} ${measures.length === 1 ? 'is' : 'are'} numeric: a line shows the change over time.`
+    });
+  }
+
+  if (categories.length > 0 && measures.length > 0) {
+    const category = categories.reduce((best, column) => (column.distinct < best.distinct ? column : best));
+    const many = category.distinct > MAX_CATEGORIES;
+    candidates.push({
+      type: 'bar',
+      settings: settingsFor('bar', category.name, measures, many ? { sort: 'value-desc', limit: TOP_N } : {}),
+      score: many ? 0.7 : 0.9,
+      reason: many
+        ? `${displayName(category.name)} has ${category.distinct.toLocaleString()} values: a bar chart of the top ${TOP_N} compares the largest.`
+        : `${displayName(category.name)} is a category and ${named(measures)} ${measures.length === 1 ? 'is' : 'are'} numeric: bars compare the categories.`
+    });
+
+    const values = data.map(row => Number(row[measures[0]]));
+    if (category.distinct <= MAX_PIE_SLICES && values.every(value => !isNaN(value) && value >= 0)) {
+      candidates.push({
+        type: 'pie',
+        settings: settingsFor('pie', category.name, [measures[0]]),
+        score: measures.length === 1 ? 0.65 : 0.5,
+        reason: `${displayName(category.name)} has only ${category.distinct} values: a pie shows each one's share of ${displayName(measures[0])}.`
+      });
+    }
+
+    if (data.length >= category.distinct * MIN_BOX_VALUES) {
+      candidates.push({
+        type: 'box',
+        settings: settingsFor('box', category.name, [measures[0]]),
+        score: 0.6,
+        reason: `${displayName(category.name)} repeats across rows: a box plot shows the spread of ${displayName(measures[0])} in each.`
+      });
+    }
+
+    const other = categories.find(column => column !== category && column.distinct <= MAX_CATEGORIES);
+    if (other && !many) {
+      candidates.push({
+        type: 'heatmap',
+        settings: settingsFor('heatmap', category.name, [measures[0]], { series: other.name }),
+        score: 0.55,
+        reason: `${displayName(category.name)} and ${displayName(other.name)} are both categories: a heatmap shows ${displayName(measures[0])} for each pair.`
+      });
+    }
+
+    if (measures.length >= 3 && category.distinct <= MAX_RADAR_AXES) {
+      candidates.push({
+        type: 'radar',
+        settings: settingsFor('radar', category.name, measures),
+        score: 0.45,
+        reason: `Several measures per ${displayName(category.name)}: a radar compares their profiles.`
+      });
+    }
+  }
+
+  if (measures.length >= 2 && data.length > 2) {
+    const [x, y] = measures;
+    const series = categories.find(column => column.distinct <= MAX_CATEGORIES / 2)?.name || null;
+    candidates.push({
+      type: 'scatter',
+      settings: settingsFor('scatter', x, [y], { series }),
+      score: categories.length === 0 && times.length === 0 ? 0.85 : 0.6,
+      reason: `${displayName(x)} and ${displayName(y)} are both numeric: a scatter plot shows how they relate.`
+    });
+  }
+
+  if (measures.length >= 1 && data.length >= 10) {
+    const measure = measures[0];
+    candidates.push({
+      type: 'histogram',
+      settings: { ...settingsFor('histogram', measure, []), measures: [{ column: measure, fn: 'count' }] },
+      score: measures.length === 1 && categories.length === 0 && times.length === 0 ? 0.8 : 0.5,
+      reason: `${displayName(measure)} is numeric: a histogram shows how its values are distributed.`
+    });
+  }
+
+  return candidates.sort((a, b) => b.score - a.score);
+};
@@ -0,0 +1,324 @@
+import { ColumnarTable, ColumnVector, createColumnarBuilder, getColumnarTable } from './columnar';
+import { DATE_FORMATS, DateFormat, parseDate } from './csvDetect';
+import type { DataRow, DataStats } from './dataProcessor';
+import { parseMonthNameDate } from './typeInference';
+import type { ColumnProfileMessage, ColumnProfileRequest } from '@/workers/columnProfiler.worker';
+
+// Per-column profiles: completeness, cardinality, distribution and the most
+// frequent values. Profiles are computed from columnar storage; tables above
+// a size limit are profiled in a Web Worker, which gets a copy of the columns
+// (row views cannot be posted to a worker).
+
+export interface ProfileColumn {
+  name: string;
+  kind: 'numeric' | 'date' | 'text';
+  // Inferred or declared format, used to read dates.
+  format?: string;
+}
+
+export interface HistogramBin {
+  label: string;
+  count: number;
+}
+
+export interface NumericSummary {
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  stddev: number;
+  // 5th, 25th, 75th and 95th percentiles.
+  p5: number;
+  p25: number;
+  p75: number;
+  p95: number;
+}
+
+export interface DateGap {
+  // ISO dates of the last value before and the first value after the gap.
+  from: string;
+  to: string;
+  days: number;
+}
+
+export interface DateSummary {
+  min: string;
+  max: string;
+  // Usual number of days between consecutive distinct dates.
+  stepDays: number;
+  // Gaps of more than twice the usual step, largest first.
+  gaps: DateGap[];
+  gapCount: number;
+  // Non-empty values that could not be read as dates.
+  unparsed: number;
+}
+
+export interface ColumnProfile {
+  name: string;
+  kind: ProfileColumn['kind'];
+  count: number;
+  // Null or empty cells.
+  empty: number;
+  distinct: number;
+  topValues: { value: string; count: number }[];
+  histogram: HistogramBin[];
+  numeric?: NumericSummary;
+  dates?: DateSummary;
+}
+
+const TOP_VALUES = 10;
+const HISTOGRAM_BINS = 20;
+const LISTED_GAPS = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Tables with more cells than this are profiled in a worker.
+const WORKER_CELLS = 200_000;
+
+// Distinct values of a vector with their counts (empty cells excluded).
+const valueCounts = (vector: ColumnVector, rowCount: number): Map<string | number, number> => {
+  const counts = new Map<string | number, number>();
+  if (vector.kind === 'text') {
+    const byCode = new Uint32Array(vector.dictionary.length);
+    for (let i = 0; i < rowCount; i++) byCode[vector.codes[i]]++;
+    for (let code = 1; code < byCode.length; code++) {
+      if (byCode[code] > 0) counts.set(vector.dictionary[code], (counts.get(vector.dictionary[code]) || 0) + byCode[code]);
+    }
+    return counts;
+  }
+  for (let i = 0; i < rowCount; i++) {
+    const value = vector.values[i];
+    if (!isNaN(value)) counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  return counts;
+};
+
+/** Linear interpolation between the closest ranks of sorted values. */
+export const quantile = (sorted: Float64Array, q: number): number => {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+export const formatBound = (value: number): string => {
+  if (Number.isInteger(value) || Math.abs(value) >= 1000) return Math.round(value).toLocaleString();
+  return Number(value.toPrecision(3)).toLocaleString();
+};
+
+/** Equal-width bins over sorted values, labelled with their bounds. */
+export const histogram = (
+  sorted: Float64Array,
+  label: (value: number) => string,
+  binCount = HISTOGRAM_BINS
+): HistogramBin[] => {
+  if (sorted.length === 0) return [];
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  if (min === max) return [{ label: label(min), count: sorted.length }];
+
+  const width = (max - min) / binCount;
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, index) => ({
+    label: `${label(min + width * index)} – ${label(min + width * (index + 1))}`,
+    count: 0
+  }));
+  sorted.forEach(value => {
+    bins[Math.min(binCount - 1, Math.floor((value - min) / width))].count++;
+  });
+  return bins;
+};
+
+const summarizeNumbers = (sorted: Float64Array): NumericSummary | undefined => {
+  if (sorted.length === 0) return undefined;
+  let sum = 0;
+  sorted.forEach(value => {
+    sum += value;
+  });
+  const mean = sum / sorted.length;
+  let squares = 0;
+  sorted.forEach(value => {
+    squares += (value - mean) ** 2;
+  });
+  return {
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean,
+    median: quantile(sorted, 0.5),
+    stddev: sorted.length > 1 ? Math.sqrt(squares / (sorted.length - 1)) : 0,
+    p5: quantile(sorted, 0.05),
+    p25: quantile(sorted, 0.25),
+    p75: quantile(sorted, 0.75),
+    p95: quantile(sorted, 0.95)
+  };
+};
+
+/**
+ * Reads values in the given date format (any known format when it is not
+ * one) as milliseconds since the epoch (UTC); NaN for values that are not dates.
+ */
+export const dateReader = (format = ''): ((value: string) => number) => {
+  const declared = format.split(' ')[0] as DateFormat;
+  const formats = DATE_FORMATS.includes(declared) && declared !== 'none'
+    ? [declared]
+    : DATE_FORMATS.filter(candidate => candidate !== 'none');
+  return value => {
+    for (const candidate of formats) {
+      const iso = parseDate(value, candidate);
+      if (iso) return Date.parse(iso.length === 10 ? iso : `${iso}Z`);
+    }
+    if (/^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/.test(value)) return Date.parse(value.replace(' ', 'T'));
+    const named = parseMonthNameDate(value);
+    return named ? Date.parse(named) : NaN;
+  };
+};
+
+const isoDay = (time: number): string => new Date(time).toISOString().slice(0, 10);
+
+const summarizeDates = (sorted: Float64Array, unparsed: number): DateSummary | undefined => {
+  if (sorted.length === 0) return undefined;
+  const days = Array.from(new Set(Array.from(sorted, time => Math.floor(time / DAY_MS))));
+  const steps = days.slice(1).map((day, index) => day - days[index]);
+  const stepDays = steps.length > 0 ? [...steps].sort((a, b) => a - b)[Math.floor(steps.length / 2)] : 0;
+
+  const gaps: DateGap[] = [];
+  steps.forEach((step, index) => {
+    if (stepDays > 0 && step > stepDays * 2) {
+      gaps.push({ from: isoDay(days[index] * DAY_MS), to: isoDay(days[index + 1] * DAY_MS), days: step });
+    }
+  });
+  gaps.sort((a, b) => b.days - a.days);
+
+  return {
+    min: isoDay(sorted[0]),
+    max: isoDay(sorted[sorted.length - 1]),
+    stepDays,
+    gaps: gaps.slice(0, LISTED_GAPS),
+    gapCount: gaps.length,
+    unparsed
+  };
+};
+
+const profileVector = (vector: ColumnVector, rowCount: number, column: ProfileColumn): ColumnProfile => {
+  const counts = valueCounts(vector, rowCount);
+  let filled = 0;
+  counts.forEach(count => {
+    filled += count;
+  });
+
+  const topValues = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, TOP_VALUES)
+    .map(([value, count]) => ({ value: String(value), count }));
+
+  const profile: ColumnProfile = {
+    name: column.name,
+    kind: column.kind,
+    count: rowCount,
+    empty: rowCount - filled,
+    distinct: counts.size,
+    topValues,
+    histogram: topValues.map(({ value, count }) => ({ label: value, count }))
+  };
+
+  if (column.kind === 'text') return profile;
+
+  // Expand the distinct values back to one entry per cell, as numbers.
+  const readDate = dateReader(column.format);
+  const read = column.kind === 'numeric'
+    ? (value: string | number) => (typeof value === 'number' ? value : Number(value))
+    : (value: string | number) => readDate(String(value));
+  const values = new Float64Array(filled);
+  let length = 0;
+  let unparsed = 0;
+  counts.forEach((count, value) => {
+    const number = read(value);
+    if (isNaN(number) || (typeof value === 'string' && value.trim() === '')) {
+      unparsed += count;
+      return;
+    }
+    values.fill(number, length, length + count);
+    length += count;
+  });
+  const sorted = values.subarray(0, length).sort();
+
+  if (column.kind === 'numeric') {
+    profile.numeric = summarizeNumbers(sorted);
+    profile.histogram = histogram(sorted, formatBound);
+  } else {
+    profile.dates = summarizeDates(sorted, unparsed);
+    profile.histogram = histogram(sorted, isoDay);
+  }
+  return profile;
+};
+
+/** Profiles the given columns of a columnar table. */
+export const profileTable = (table: ColumnarTable, columns: ProfileColumn[]): ColumnProfile[] =>
+  columns.flatMap(column => {
+    const index = table.columns.indexOf(column.name);
+    return index === -1 ? [] : [profileVector(table.vectors[index], table.rowCount, column)];
+  });
+
+export const profileColumnsFor = (rows: DataRow[], stats: DataStats): ProfileColumn[] =>
+  Object.keys(rows[0] || {}).map(name => ({
+    name,
+    kind: stats.numericColumns.includes(name) ? 'numeric' : stats.dateColumns.includes(name) ? 'date' : 'text',
+    format: stats.columnTypes?.[name]?.format
+  }));
+
+// Rows that are not backed by columnar storage are copied into it.
+const toColumnarTable = (rows: DataRow[]): ColumnarTable => {
+  const columns = Object.keys(rows[0] || {});
+  const builder = createColumnarBuilder(columns);
+  rows.forEach(row => builder.append(columns.map(column => {
+    const value = row[column];
+    return value === null || value === undefined ? '' : String(value);
+  })));
+  return builder.finish();
+};
+
+/**
+ * Profiles every column of `rows`, using `stats` to decide which columns are
+ * numeric or dates. Large tables are profiled in a worker; aborting stops it.
+ */
+export const profileColumns = (rows: DataRow[], stats: DataStats, signal?: AbortSignal): Promise<ColumnProfile[]> => {
+  const table = getColumnarTable(rows) || toColumnarTable(rows);
+  const columns = profileColumnsFor(rows, stats);
+
+  if (table.rowCount * table.columns.length <= WORKER_CELLS || typeof Worker === 'undefined') {
+    return Promise.resolve(profileTable(table, columns));
+  }
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Profiling was cancelled'));
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/columnProfiler.worker.ts', import.meta.url), { type: 'module' });
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', cancel);
+    };
+    const cancel = () => {
+      finish();
+      reject(new Error('Profiling was cancelled'));
+    };
+    signal?.addEventListener('abort', cancel);
+
+    worker.onmessage = (event: MessageEvent<ColumnProfileMessage>) => {
+      finish();
+      if (event.data.type === 'done') {
+        resolve(event.data.profiles);
+      } else {
+        reject(new Error(event.data.message));
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Column profiling stopped unexpectedly'));
+    };
+
+    // The table is copied, not transferred: the main thread keeps using it.
+    const request: ColumnProfileRequest = { table, columns };
+    worker.postMessage(request);
+  });
+};
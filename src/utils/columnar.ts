@@ -0,0 +1,224 @@
+import { DataRow } from './dataProcessor';
+
+// Compact column-oriented storage for large tables. Numeric columns are kept
+// in Float64Arrays and text columns as dictionary codes, so a million-row file
+// costs a few bytes per cell instead of one JavaScript object per row. The
+// rest of the app still sees DataRow[]: columnarRows() wraps a table in an
+// array-like view that builds each row object only when it is read.
+
+export type ColumnVector =
+  // NaN marks an empty cell.
+  | { kind: 'number'; values: Float64Array }
+  // Code 0 is the empty string; other codes index into the dictionary.
+  | { kind: 'text'; codes: Uint32Array; dictionary: string[] };
+
+export interface ColumnarTable {
+  columns: string[];
+  rowCount: number;
+  vectors: ColumnVector[];
+}
+
+export interface ColumnarBuilder {
+  append: (fields: string[]) => void;
+  rowCount: () => number;
+  finish: () => ColumnarTable;
+}
+
+const INITIAL_CAPACITY = 1024;
+
+// Only values that print back exactly as they were written are stored as
+// numbers, so "007" or "1e3" keep their original text.
+const asNumber = (text: string): number | null => {
+  if (text === '') return null;
+  const value = Number(text);
+  return Number.isFinite(value) && String(value) === text ? value : null;
+};
+
+const grow = <T extends Float64Array | Uint32Array>(array: T, size: number): T => {
+  if (size <= array.length) return array;
+  const grown = new (array.constructor as { new (length: number): T })(Math.max(size, array.length * 2));
+  grown.set(array);
+  return grown;
+};
+
+interface ColumnState {
+  kind: 'number' | 'text';
+  values: Float64Array | null;
+  codes: Uint32Array | null;
+  dictionary: string[];
+  lookup: Map<string, number>;
+}
+
+const encode = (state: ColumnState, text: string): number => {
+  if (text === '') return 0;
+  let code = state.lookup.get(text);
+  if (code === undefined) {
+    code = state.dictionary.length;
+    state.dictionary.push(text);
+    state.lookup.set(text, code);
+  }
+  return code;
+};
+
+// A column starts out numeric and switches to dictionary codes at its first
+// value that is not a number.
+const convertToText = (state: ColumnState, rowCount: number) => {
+  state.kind = 'text';
+  state.codes = new Uint32Array(Math.max(state.values.length, INITIAL_CAPACITY));
+  for (let i = 0; i < rowCount; i++) {
+    const value = state.values[i];
+    state.codes[i] = isNaN(value) ? 0 : encode(state, String(value));
+  }
+  state.values = null;
+};
+
+/**
+ * Accumulates rows of raw text fields into a ColumnarTable. Columns flagged in
+ * `textColumns` stay text even when every value looks numeric.
+ */
+export const createColumnarBuilder = (columns: string[], textColumns: boolean[] = []): ColumnarBuilder => {
+  let rowCount = 0;
+  const states: ColumnState[] = columns.map((_, index) => textColumns[index]
+    ? { kind: 'text', values: null, codes: new Uint32Array(INITIAL_CAPACITY), dictionary: [''], lookup: new Map() }
+    : { kind: 'number', values: new Float64Array(INITIAL_CAPACITY), codes: null, dictionary: [''], lookup: new Map() });
+
+  return {
+    append: fields => {
+      states.forEach((state, index) => {
+        const text = fields[index] ?? '';
+        if (state.kind === 'number') {
+          const value = asNumber(text);
+          if (value !== null || text === '') {
+            state.values = grow(state.values, rowCount + 1);
+            state.values[rowCount] = value ?? NaN;
+            return;
+          }
+          convertToText(state, rowCount);
+        }
+        state.codes = grow(state.codes, rowCount + 1);
+        state.codes[rowCount] = encode(state, text);
+      });
+      rowCount++;
+    },
+    rowCount: () => rowCount,
+    finish: () => ({
+      columns,
+      rowCount,
+      vectors: states.map(state =>
+        state.kind === 'number'
+          ? { kind: 'number', values: state.values.slice(0, rowCount) }
+          : { kind: 'text', codes: state.codes.slice(0, rowCount), dictionary: state.dictionary }
+      )
+    })
+  };
+};
+
+/** The ArrayBuffers behind a table, for transferring it out of a worker without copying. */
+export const columnarBuffers = (table: ColumnarTable): ArrayBuffer[] =>
+  table.vectors.map(vector => (vector.kind === 'number' ? vector.values.buffer : vector.codes.buffer) as ArrayBuffer);
+
+/** Approximate memory footprint of a table, in bytes. */
+export const columnarSize = (table: ColumnarTable): number =>
+  table.vectors.reduce((total, vector) => {
+    if (vector.kind === 'number') return total + vector.values.byteLength;
+    return total + vector.codes.byteLength + vector.dictionary.reduce((sum, text) => sum + text.length * 2, 0);
+  }, 0);
+
+const readValue = (vector: ColumnVector, index: number): string | number => {
+  if (vector.kind === 'number') {
+    const value = vector.values[index];
+    return isNaN(value) ? '' : value;
+  }
+  return vector.dictionary[vector.codes[index]];
+};
+
+const INDEX = /^(0|[1-9]\d*)$/;
+
+const views = new WeakMap<DataRow[], ColumnarTable>();
+
+/**
+ * Presents a columnar table as DataRow[]. Rows are read-only objects created
+ * on access, so holding on to the array costs nothing beyond the columns.
+ */
+export const columnarRows = (table: ColumnarTable): DataRow[] => {
+  const positions = new Map(table.columns.map((column, index) => [column, index]));
+
+  const rowHandler: ProxyHandler<{ index: number }> = {
+    get: (target, key) => {
+      const position = typeof key === 'string' ? positions.get(key) : undefined;
+      return position === undefined ? Reflect.get(Object.prototype, key) : readValue(table.vectors[position], target.index);
+    },
+    has: (_target, key) => typeof key === 'string' && positions.has(key),
+    ownKeys: () => table.columns,
+    getOwnPropertyDescriptor: (target, key) => {
+      const position = typeof key === 'string' ? positions.get(key) : undefined;
+      if (position === undefined) return undefined;
+      return { value: readValue(table.vectors[position], target.index), enumerable: true, configurable: true, writable: false };
+    },
+    set: () => false,
+    deleteProperty: () => false
+  };
+
+  const row = (index: number): DataRow => new Proxy({ index }, rowHandler);
+
+  const rows = new Proxy([] as DataRow[], {
+    get: (target, key, receiver) => {
+      if (key === 'length') return table.rowCount;
+      if (typeof key === 'string' && INDEX.test(key)) {
+        const index = Number(key);
+        return index < table.rowCount ? row(index) : undefined;
+      }
+      return Reflect.get(target, key, receiver);
+    },
+    has: (target, key) => {
+      if (typeof key === 'string' && INDEX.test(key)) return Number(key) < table.rowCount;
+      return Reflect.has(target, key);
+    },
+    set: () => false
+  });
+
+  views.set(rows, table);
+  return rows;
+};
+
+/** The columnar table behind rows returned by columnarRows(), if any. */
+export const getColumnarTable = (rows: DataRow[]): ColumnarTable | undefined => views.get(rows);
+
+const narrow = (vector: ColumnVector, rowCount: number): ColumnVector => {
+  if (vector.kind === 'number') return vector;
+  const numbers = vector.dictionary.map(asNumber);
+  const values = new Float64Array(rowCount);
+  for (let i = 0; i < rowCount; i++) {
+    const code = vector.codes[i];
+    if (code !== 0 && numbers[code] === null) return vector;
+    values[i] = code === 0 ? NaN : numbers[code];
+  }
+  return { kind: 'number', values };
+};
+
+/**
+ * A copy of the table without the given rows (sorted ascending). Columns that
+ * only held text because of the dropped rows become numeric again.
+ */
+export const dropRows = (table: ColumnarTable, rows: ArrayLike<number>): ColumnarTable => {
+  const keep: number[] = [];
+  let next = 0;
+  for (let i = 0; i < table.rowCount; i++) {
+    if (next < rows.length && rows[next] === i) {
+      next++;
+      continue;
+    }
+    keep.push(i);
+  }
+
+  const rowCount = keep.length;
+  const vectors = table.vectors.map((vector): ColumnVector => {
+    if (vector.kind === 'number') {
+      return { kind: 'number', values: Float64Array.from(keep, index => vector.values[index]) };
+    }
+    const codes = Uint32Array.from(keep, index => vector.codes[index]);
+    return narrow({ kind: 'text', codes, dictionary: vector.dictionary }, rowCount);
+  });
+
+  return { columns: table.columns, rowCount, vectors };
+};
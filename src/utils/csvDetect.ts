@@ -0,0 +1,325 @@
+import Papa from 'papaparse';
+
+// Detection of how a CSV file is written: its encoding, delimiter, quote
+// character, the row holding the column names, and the locale of its numbers
+// and dates. Everything is guessed from the first block of the file so the
+// import preview can show it before the full parse, and every setting can be
+// changed there. The same settings then drive the parse worker, which uses
+// fieldNormalizer() to turn locale-specific numbers and dates into the plain
+// forms the rest of the app understands.
+
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252' | 'iso-8859-2' | 'shift_jis' | 'gbk';
+
+export type DateFormat =
+  | 'none'
+  | 'YYYY-MM-DD'
+  | 'YYYY/MM/DD'
+  | 'DD/MM/YYYY'
+  | 'MM/DD/YYYY'
+  | 'DD.MM.YYYY'
+  | 'DD-MM-YYYY'
+  | 'MM-DD-YYYY';
+
+export interface CsvFormat {
+  encoding: CsvEncoding;
+  delimiter: string;
+  quoteChar: string;
+  // 0-based index of the header among the non-blank records; rows above it are skipped.
+  headerRow: number;
+  decimalSeparator: '.' | ',';
+  // Empty when numbers are not grouped.
+  thousandsSeparator: '' | ',' | '.' | ' ' | "'";
+  // Dates in this format are rewritten as ISO dates; 'none' leaves them as written.
+  dateFormat: DateFormat;
+}
+
+export interface CsvPreview {
+  format: CsvFormat;
+  // Start of the file, for decoding again when the encoding is changed.
+  sample: ArrayBuffer;
+  // Whether the sample is the whole file.
+  complete: boolean;
+}
+
+export const ENCODINGS: { value: CsvEncoding; label: string }[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+  { value: 'windows-1252', label: 'Windows-1252 (Western European)' },
+  { value: 'iso-8859-2', label: 'ISO-8859-2 (Central European)' },
+  { value: 'shift_jis', label: 'Shift_JIS (Japanese)' },
+  { value: 'gbk', label: 'GBK (Simplified Chinese)' }
+];
+
+export const DELIMITERS: { value: string; label: string }[] = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' }
+];
+
+export const DATE_FORMATS: DateFormat[] = [
+  'none',
+  'YYYY-MM-DD',
+  'YYYY/MM/DD',
+  'DD/MM/YYYY',
+  'MM/DD/YYYY',
+  'DD.MM.YYYY',
+  'DD-MM-YYYY',
+  'MM-DD-YYYY'
+];
+
+const SAMPLE_BYTES = 64 * 1024;
+const SAMPLE_RECORDS = 200;
+// Spaces used to group digits: plain, no-break and narrow no-break.
+const SPACES = ' \u00a0\u202f';
+
+/** Guesses the encoding from a byte-order mark, NUL byte patterns, or UTF-8 validity. */
+export const detectEncoding = (bytes: Uint8Array): CsvEncoding => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  // ASCII text in UTF-16 has a NUL in every other byte.
+  const head = bytes.subarray(0, 1000);
+  let evenNuls = 0;
+  let oddNuls = 0;
+  head.forEach((byte, index) => {
+    if (byte === 0) {
+      if (index % 2 === 0) evenNuls++;
+      else oddNuls++;
+    }
+  });
+  if (oddNuls > head.length / 4) return 'utf-16le';
+  if (evenNuls > head.length / 4) return 'utf-16be';
+
+  try {
+    // The sample may end inside a multi-byte character; leave the tail out.
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes.subarray(0, Math.max(bytes.length - 3, 0)));
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+};
+
+/** Decodes the sample, dropping a last line that may have been cut off. */
+export const decodeSample = (preview: Pick<CsvPreview, 'sample' | 'complete'>, encoding: CsvEncoding): string => {
+  const text = new TextDecoder(encoding).decode(preview.sample);
+  if (preview.complete) return text;
+  const lastBreak = Math.max(text.lastIndexOf('\n'), text.lastIndexOf('\r'));
+  return lastBreak === -1 ? text : text.slice(0, lastBreak);
+};
+
+/** Records of the sample as parsed with the given settings, blank lines skipped. */
+export const sampleRecords = (text: string, format: Pick<CsvFormat, 'delimiter' | 'quoteChar'>, limit = SAMPLE_RECORDS): string[][] =>
+  Papa.parse<string[]>(text, {
+    delimiter: format.delimiter,
+    quoteChar: format.quoteChar,
+    skipEmptyLines: true,
+    preview: limit
+  }).data;
+
+const mostCommon = <T>(values: T[]): { value: T; count: number } | null => {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  let best: { value: T; count: number } | null = null;
+  counts.forEach((count, value) => {
+    if (!best || count > best.count) best = { value, count };
+  });
+  return best;
+};
+
+// The delimiter that splits the most records into the same number (> 1) of fields.
+const detectDelimiter = (text: string, quoteChar: string): string => {
+  let best = { delimiter: ',', score: 0 };
+  DELIMITERS.forEach(({ value: delimiter }) => {
+    const widths = sampleRecords(text, { delimiter, quoteChar }, 50).map(record => record.length);
+    const common = mostCommon(widths.filter(width => width > 1));
+    const score = common ? common.count + common.value / 100 : 0;
+    if (score > best.score) best = { delimiter, score };
+  });
+  return best.delimiter;
+};
+
+const detectQuoteChar = (text: string): string => {
+  const count = (quote: string) => (text.match(new RegExp(`(^|[,;\\t|])${quote}`, 'gm')) || []).length;
+  return count("'") > count('"') ? "'" : '"';
+};
+
+// Title or note lines above a table have fewer fields than the table itself;
+// the header is the first record as wide as most records are.
+const detectHeaderRow = (records: string[][]): number => {
+  const common = mostCommon(records.map(record => record.length));
+  const index = common ? records.findIndex(record => record.length === common.value) : 0;
+  return Math.max(index, 0);
+};
+
+const NUMBER_LIKE = new RegExp(`^[+-]?\\d[\\d.,'${SPACES}]*$`);
+
+const detectNumberFormat = (values: string[]): Pick<CsvFormat, 'decimalSeparator' | 'thousandsSeparator'> => {
+  const votes = { '.': 0, ',': 0 };
+  // Values such as 1,234 that are either grouped integers or decimals.
+  const ambiguous = { '.': 0, ',': 0 };
+  const grouping: Record<string, number> = {};
+
+  const tally = (counts: Record<string, number>, key: string) => {
+    counts[key] = (counts[key] || 0) + 1;
+  };
+
+  values.forEach(raw => {
+    const value = raw.trim();
+    if (!NUMBER_LIKE.test(value)) return;
+
+    const spaced = value.match(new RegExp(`^[+-]?\\d{1,3}([${SPACES}'])\\d{3}(?:\\1\\d{3})*(?:([.,])\\d+)?$`));
+    if (spaced) {
+      tally(grouping, spaced[1] === "'" ? "'" : ' ');
+      if (spaced[2]) votes[spaced[2] as '.' | ',']++;
+      return;
+    }
+
+    const lastDot = value.lastIndexOf('.');
+    const lastComma = value.lastIndexOf(',');
+    if (lastDot !== -1 && lastComma !== -1) {
+      // Both present: the later one is the decimal separator.
+      const decimal = lastDot > lastComma ? '.' : ',';
+      votes[decimal]++;
+      tally(grouping, decimal === '.' ? ',' : '.');
+      return;
+    }
+    const separator = lastDot !== -1 ? '.' : lastComma !== -1 ? ',' : null;
+    if (!separator) return;
+    if (new RegExp(`^[+-]?\\d{1,3}(\\${separator}\\d{3})+$`).test(value)) {
+      ambiguous[separator]++;
+    } else if (new RegExp(`^[+-]?\\d*\\${separator}\\d+$`).test(value)) {
+      votes[separator]++;
+    }
+  });
+
+  const decimalSeparator = votes[','] > votes['.'] ? ',' : '.';
+  const other = decimalSeparator === '.' ? ',' : '.';
+  // Ambiguous values written with the non-decimal separator must be grouped.
+  if (ambiguous[other] > 0) grouping[other] = (grouping[other] || 0) + ambiguous[other];
+  const thousands = mostCommon(
+    Object.entries(grouping).flatMap(([char, count]) => (char === decimalSeparator ? [] : Array(count).fill(char)))
+  );
+
+  return {
+    decimalSeparator,
+    thousandsSeparator: (thousands?.value || '') as CsvFormat['thousandsSeparator']
+  };
+};
+
+interface DatePattern {
+  regex: RegExp;
+  // Positions of year, month and day among the captured groups.
+  order: [number, number, number];
+}
+
+const DATE_PATTERNS: Record<Exclude<DateFormat, 'none'>, DatePattern> = {
+  'YYYY-MM-DD': { regex: /^(\d{4})-(\d{1,2})-(\d{1,2})/, order: [1, 2, 3] },
+  'YYYY/MM/DD': { regex: /^(\d{4})\/(\d{1,2})\/(\d{1,2})/, order: [1, 2, 3] },
+  'DD/MM/YYYY': { regex: /^(\d{1,2})\/(\d{1,2})\/(\d{4})/, order: [3, 2, 1] },
+  'MM/DD/YYYY': { regex: /^(\d{1,2})\/(\d{1,2})\/(\d{4})/, order: [3, 1, 2] },
+  'DD.MM.YYYY': { regex: /^(\d{1,2})\.(\d{1,2})\.(\d{4})/, order: [3, 2, 1] },
+  'DD-MM-YYYY': { regex: /^(\d{1,2})-(\d{1,2})-(\d{4})/, order: [3, 2, 1] },
+  'MM-DD-YYYY': { regex: /^(\d{1,2})-(\d{1,2})-(\d{4})/, order: [3, 1, 2] }
+};
+
+// An optional time after the date: " 14:30", "T14:30:05".
+const TIME_SUFFIX = /^(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+
+const pad = (value: string): string => value.padStart(2, '0');
+
+/** The ISO form of `value` if it is a valid date in `format`, otherwise null. */
+export const parseDate = (value: string, format: DateFormat): string | null => {
+  if (format === 'none') return null;
+  const { regex, order } = DATE_PATTERNS[format];
+  const match = value.match(regex);
+  if (!match) return null;
+  const time = value.slice(match[0].length).match(TIME_SUFFIX);
+  if (!time) return null;
+
+  const [year, month, day] = order.map(index => match[index]);
+  if (Number(month) < 1 || Number(month) > 12 || Number(day) < 1) return null;
+  if (Number(day) > new Date(Date.UTC(Number(year), Number(month), 0)).getUTCDate()) return null;
+
+  const date = `${year}-${pad(month)}-${pad(day)}`;
+  if (!time[1]) return date;
+  if (Number(time[1]) > 23) return null;
+  return `${date}T${pad(time[1])}:${time[2]}:${time[3] || '00'}`;
+};
+
+const detectDateFormat = (values: string[], decimalSeparator: CsvFormat['decimalSeparator']): DateFormat => {
+  let best: { format: DateFormat; count: number } = { format: 'none', count: 0 };
+  // Day-first formats win ties in files that also use decimal commas.
+  const formats = DATE_FORMATS.filter(format => format !== 'none').sort((a, b) => {
+    if (decimalSeparator !== ',') return 0;
+    return Number(b.startsWith('DD')) - Number(a.startsWith('DD'));
+  });
+  formats.forEach(format => {
+    const count = values.filter(value => parseDate(value.trim(), format) !== null).length;
+    if (count > best.count) best = { format, count };
+  });
+  return best.format;
+};
+
+/** Reads the start of a CSV file and guesses how it is written. */
+export const previewCsv = async (file: File): Promise<CsvPreview> => {
+  const sample = await file.slice(0, SAMPLE_BYTES).arrayBuffer();
+  const complete = file.size <= SAMPLE_BYTES;
+  const encoding = detectEncoding(new Uint8Array(sample));
+  const text = decodeSample({ sample, complete }, encoding);
+
+  const quoteChar = detectQuoteChar(text);
+  const delimiter = detectDelimiter(text, quoteChar);
+  const records = sampleRecords(text, { delimiter, quoteChar });
+  const headerRow = detectHeaderRow(records);
+  const values = records.slice(headerRow + 1).flat();
+  const numberFormat = detectNumberFormat(values);
+
+  return {
+    sample,
+    complete,
+    format: {
+      encoding,
+      delimiter,
+      quoteChar,
+      headerRow,
+      ...numberFormat,
+      dateFormat: detectDateFormat(values, numberFormat.decimalSeparator)
+    }
+  };
+};
+
+const escape = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Returns a function that rewrites one field into the app's plain forms:
+ * numbers with the file's decimal and thousands separators become JavaScript
+ * numbers, and dates in the file's format become ISO dates. Anything else,
+ * including numbers already written plainly, is returned unchanged.
+ */
+export const fieldNormalizer = (format: CsvFormat): ((field: string) => string) => {
+  const { decimalSeparator, thousandsSeparator, dateFormat } = format;
+  const group = thousandsSeparator === ' ' ? `[${SPACES}]` : escape(thousandsSeparator);
+  const number = new RegExp(
+    `^[+-]?(?:\\d+|\\d{1,3}(?:${group || '(?!)'}\\d{3})+)(?:${escape(decimalSeparator)}\\d+)?$`
+  );
+  const plain = decimalSeparator === '.' && thousandsSeparator === '';
+
+  return (field: string): string => {
+    if (field === '') return field;
+    // Plain integers are left alone so that codes such as "007" keep their zeros.
+    if (!plain && /[^\d+-]/.test(field) && number.test(field)) {
+      const normalized = Number(
+        field.replace(new RegExp(group || '(?!)', 'g'), '').replace(decimalSeparator, '.')
+      );
+      if (Number.isFinite(normalized)) return String(normalized);
+    }
+    if (dateFormat !== 'none') {
+      const date = parseDate(field, dateFormat);
+      if (date) return date;
+    }
+    return field;
+  };
+};
@@ -1,4 +1,13 @@
 import Papa from 'papaparse';
+import { buildQueryPlan } from './nlQuery';
+import { DEFAULT_TABLE, executePlan, QueryPlan, TableSet, validatePlan } from './queryPlan';
+import { planToSQL } from './sqlGenerator';
+import { parseSQL, SqlSyntaxError } from './sqlParser';
+import { describeWorkspace, QueryProvider } from './queryProviders';
+import { columnarRows, dropRows, getColumnarTable } from './columnar';
+import type { CsvFormat } from './csvDetect';
+import { ColumnType, inferColumnType, InferredType, typeKind } from './typeInference';
+import type { CsvParseMessage, CsvParseRequest } from '@/workers/csvParser.worker';
 
 export interface DataRow {
   [key: string]: any;
@@ -10,223 +19,310 @@ export interface DataStats {
   numericColumns: string[];
   textColumns: string[];
   dateColumns: string[];
+  // Inferred or declared type of each column. Missing from stats saved before
+  // types were inferred.
+  columnTypes?: Record<string, InferredType>;
+  // Roles set by hand; other columns get the default from columnRole().
+  columnRoles?: Record<string, ColumnRole>;
+}
+
+// Measures are aggregated; dimensions are grouped and filtered by.
+export type ColumnRole = 'dimension' | 'measure';
+
+// Column types declared by self-describing formats (Parquet, Arrow).
+export type SchemaType =
+  | 'integer'
+  | 'float'
+  | 'decimal'
+  | 'boolean'
+  | 'string'
+  | 'date'
+  | 'timestamp'
+  | 'time'
+  | 'binary'
+  | 'list'
+  | 'struct';
+
+export interface ColumnSchema {
+  // Column key in the rows.
+  name: string;
+  // Field name as written in the file.
+  label: string;
+  type: SchemaType;
+  // The file's own type name, e.g. INT64 or Timestamp<MICROSECOND>.
+  sourceType: string;
 }
 
 export interface QueryResult {
   data: DataRow[];
   sql: string;
+  plan?: QueryPlan;
   error?: string;
+  // Where a SQL syntax error was found, for pointing at it in the editor.
+  errorPosition?: { line: number; column: number };
 }
 
-export const parseCSV = (file: File): Promise<DataRow[]> => {
-  return new Promise((resolve, reject) => {
-    Papa.parse(file, {
-      header: true,
-      skipEmptyLines: true,
-      complete: (results) => {
-        if (results.errors.length > 0) {
-          reject(new Error(results.errors[0].message));
-        } else {
-          const cleanData = results.data.map((row: any) => {
-            const cleanRow: DataRow = {};
-            Object.keys(row).forEach(key => {
-              const cleanKey = key.trim().toLowerCase().replace(/[^\w\s]/g, '').replace(/\s+/g, '_');
-              cleanRow[cleanKey] = row[key];
-            });
-            return cleanRow;
-          });
-          resolve(cleanData);
-        }
-      },
-      error: (error) => reject(error)
-    });
-  });
+export interface ColumnMeta {
+  // Key in every row and the identifier used in queries.
+  name: string;
+  // The header exactly as it appeared in the file.
+  label: string;
+  // What tables, charts and exports show; unique within the table.
+  displayName: string;
+}
+
+/**
+ * Lower-case, underscore-separated form of a header, used as the column key.
+ * Letters and digits from any script are kept; everything else separates words.
+ */
+export const cleanColumnName = (label: string): string => {
+  const name = label
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}_]+/gu, ' ')
+    .trim()
+    .replace(/\s+/g, '_');
+  // A leading digit would be read as a number in SQL.
+  return /^\p{N}/u.test(name) ? `c_${name}` : name;
+};
+
+// Adds " (2)", " (3)"... (or "_2" for identifiers) until the value is unused.
+const dedupe = (base: string, taken: Set<string>, separator: (suffix: number) => string): string => {
+  let value = base;
+  for (let suffix = 2; taken.has(value); suffix++) value = `${base}${separator(suffix)}`;
+  taken.add(value);
+  return value;
+};
+
+/**
+ * Column metadata for a header row. Empty headers are named after their
+ * position, and colliding identifiers or display names get a numeric suffix
+ * in column order, so the same header always yields the same columns.
+ */
+export const columnMetadata = (header: string[]): ColumnMeta[] => {
+  const names = new Set<string>();
+  const displayNames = new Set<string>();
+  return header.map((label, index) => ({
+    name: dedupe(cleanColumnName(label) || `column_${index + 1}`, names, suffix => `_${suffix}`),
+    label,
+    displayName: dedupe(label.trim() || `Column ${index + 1}`, displayNames, suffix => ` (${suffix})`)
+  }));
 };
 
-export const parseJSON = (file: File): Promise<DataRow[]> => {
+// Rows read from a file, with the metadata of their columns.
+export interface LoadedTable {
+  data: DataRow[];
+  columns: ColumnMeta[];
+}
+
+/** The display name of a column, or `fallback` (the key itself) when it has none. */
+export const columnDisplayName = (columns: ColumnMeta[] | undefined, name: string, fallback: string = name): string =>
+  columns?.find(column => column.name === name)?.displayName ?? fallback;
+
+export interface ParseProgress {
+  rows: number;
+  bytes: number;
+  totalBytes: number;
+}
+
+export type ParseIssueType = 'too_many_fields' | 'too_few_fields' | 'quote_mismatch';
+
+export interface ParseIssue {
+  // Line in the file where the record starts (1-based, counting the header).
+  line: number;
+  // Index of the row in the data as parsed, before any rows were skipped.
+  row: number;
+  type: ParseIssueType;
+  message: string;
+  raw: string;
+}
+
+// Malformed rows are either left out or padded/truncated to the header width.
+export type ParseResolution = 'skip' | 'repair';
+
+export interface ParseReport {
+  expectedFields: number;
+  totalIssues: number;
+  // Only the first issues are listed when there are very many.
+  issues: ParseIssue[];
+  resolution?: ParseResolution;
+}
+
+export interface ParsedCSV extends LoadedTable {
+  // Every row, with malformed ones already padded or truncated.
+  report: ParseReport;
+  // Indexes of all malformed rows, ascending.
+  badRows: Uint32Array;
+}
+
+export interface ParseOptions {
+  // How the file is written, as detected and adjusted in the import preview.
+  format?: CsvFormat;
+  onProgress?: (progress: ParseProgress) => void;
+  // Aborting stops the worker and rejects with a "cancelled" error.
+  signal?: AbortSignal;
+}
+
+/**
+ * Parses a CSV file in a Web Worker, streaming it in chunks. The rows come
+ * back as a read-only view over columnar storage (see columnar.ts), together
+ * with a report of malformed rows for the caller to resolve.
+ */
+export const parseCSV = (file: File, options: ParseOptions = {}): Promise<ParsedCSV> => {
+  const { format, onProgress, signal } = options;
+
   return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const jsonData = JSON.parse(e.target?.result as string);
-        let data: DataRow[];
-        
-        if (Array.isArray(jsonData)) {
-          data = jsonData;
-        } else if (typeof jsonData === 'object') {
-          data = [jsonData];
-        } else {
-          throw new Error('Invalid JSON format');
-        }
-        
-        const cleanData = data.map(row => {
-          const cleanRow: DataRow = {};
-          Object.keys(row).forEach(key => {
-            const cleanKey = key.trim().toLowerCase().replace(/[^\w\s]/g, '').replace(/\s+/g, '_');
-            cleanRow[cleanKey] = row[key];
-          });
-          return cleanRow;
+    if (signal?.aborted) {
+      reject(new Error('Parsing was cancelled'));
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/csvParser.worker.ts', import.meta.url), { type: 'module' });
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', cancel);
+    };
+    const cancel = () => {
+      finish();
+      reject(new Error('Parsing was cancelled'));
+    };
+    signal?.addEventListener('abort', cancel);
+
+    worker.onmessage = (event: MessageEvent<CsvParseMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.({ rows: message.rows, bytes: message.bytes, totalBytes: message.totalBytes });
+        return;
+      }
+      finish();
+      if (message.type === 'done') {
+        resolve({
+          data: columnarRows(message.table),
+          columns: message.columns,
+          report: message.report,
+          badRows: message.badRows
         });
-        
-        resolve(cleanData);
-      } catch (error) {
-        reject(error);
+      } else {
+        reject(new Error(message.message));
       }
     };
-    reader.onerror = () => reject(new Error('Failed to read file'));
-    reader.readAsText(file);
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'The CSV parser stopped unexpectedly'));
+    };
+
+    const request: CsvParseRequest = { file, format };
+    worker.postMessage(request);
   });
 };
 
+/** Applies the user's choice for malformed rows and records it in the report. */
+export const resolveParseIssues = (
+  parsed: ParsedCSV,
+  resolution: ParseResolution
+): LoadedTable & { report: ParseReport } => {
+  const report = { ...parsed.report, resolution };
+  const table = getColumnarTable(parsed.data);
+  if (resolution === 'repair' || parsed.badRows.length === 0 || !table) {
+    return { data: parsed.data, columns: parsed.columns, report };
+  }
+  return { data: columnarRows(dropRows(table, parsed.badRows)), columns: parsed.columns, report };
+};
+
+// Stats declared for a set of rows (by a schema override) replace inference,
+// so every query over those rows sees the declared types.
+const declaredStats = new WeakMap<DataRow[], DataStats>();
+
+export const declareStats = (rows: DataRow[], stats: DataStats): DataRow[] => {
+  declaredStats.set(rows, stats);
+  return rows;
+};
+
 export const analyzeData = (data: DataRow[]): DataStats => {
+  const declared = declaredStats.get(data);
+  if (declared) return declared;
   if (data.length === 0) {
     return {
       totalRows: 0,
       totalColumns: 0,
       numericColumns: [],
       textColumns: [],
-      dateColumns: []
+      dateColumns: [],
+      columnTypes: {}
     };
   }
 
   const columns = Object.keys(data[0]);
-  const numericColumns: string[] = [];
-  const textColumns: string[] = [];
-  const dateColumns: string[] = [];
-
+  const columnTypes: Record<string, InferredType> = {};
   columns.forEach(column => {
-    const values = data.slice(0, 100).map(row => row[column]).filter(val => val !== null && val !== undefined && val !== '');
-    
-    if (values.length === 0) {
-      textColumns.push(column);
-      return;
-    }
-
-    // Check if numeric
-    const numericValues = values.filter(val => !isNaN(Number(val)));
-    if (numericValues.length > values.length * 0.8) {
-      numericColumns.push(column);
-      return;
-    }
-
-    // Check if date
-    const dateValues = values.filter(val => {
-      const date = new Date(val);
-      return !isNaN(date.getTime());
-    });
-    if (dateValues.length > values.length * 0.8) {
-      dateColumns.push(column);
-      return;
-    }
-
-    textColumns.push(column);
+    columnTypes[column] = inferColumnType(data, column);
   });
+  const named = (kind: string) => columns.filter(column => typeKind(columnTypes[column]) === kind);
 
   return {
     totalRows: data.length,
     totalColumns: columns.length,
-    numericColumns,
-    textColumns,
-    dateColumns
+    numericColumns: named('numeric'),
+    textColumns: named('text'),
+    dateColumns: named('date'),
+    columnTypes
+  };
+};
+
+const NON_MEASURE_TYPES: ColumnType[] = ['identifier', 'latitude', 'longitude', 'postal_code'];
+
+/**
+ * A column's role: the one set by hand, else numeric columns are measures
+ * unless they hold keys or coordinates.
+ */
+export const columnRole = (stats: DataStats, column: string): ColumnRole => {
+  const role = stats.columnRoles?.[column];
+  if (role) return role;
+  const type = stats.columnTypes?.[column]?.type;
+  return stats.numericColumns.includes(column) && !NON_MEASURE_TYPES.includes(type) ? 'measure' : 'dimension';
+};
+
+const schemaKind = (type: SchemaType): 'numeric' | 'date' | 'text' => {
+  if (type === 'integer' || type === 'float' || type === 'decimal') return 'numeric';
+  if (type === 'date' || type === 'timestamp') return 'date';
+  return 'text';
+};
+
+const SCHEMA_COLUMN_TYPES: Partial<Record<SchemaType, ColumnType>> = {
+  integer: 'integer',
+  float: 'decimal',
+  decimal: 'decimal',
+  boolean: 'boolean',
+  date: 'date',
+  timestamp: 'datetime'
+};
+
+/** DataStats from a declared schema, for files that say what their columns are. */
+export const statsFromSchema = (schema: ColumnSchema[], rowCount: number): DataStats => {
+  const named = (kind: string) => schema.filter(column => schemaKind(column.type) === kind).map(column => column.name);
+  return {
+    totalRows: rowCount,
+    totalColumns: schema.length,
+    numericColumns: named('numeric'),
+    textColumns: named('text'),
+    dateColumns: named('date'),
+    columnTypes: Object.fromEntries(schema.map(column => [
+      column.name,
+      { type: SCHEMA_COLUMN_TYPES[column.type] || 'text', confidence: 1, format: column.sourceType, mismatches: 0 }
+    ]))
   };
 };
 
 export const executeSimpleQuery = (data: DataRow[], query: string): QueryResult => {
   try {
-    const lowerQuery = query.toLowerCase().trim();
-    let result: DataRow[] = [...data];
-    
-    // Simple query patterns
-    if (lowerQuery.includes('top') || lowerQuery.includes('first')) {
-      const match = lowerQuery.match(/(?:top|first)\s+(\d+)/);
-      const limit = match ? parseInt(match[1]) : 10;
-      result = data.slice(0, limit);
-    }
-    
-    if (lowerQuery.includes('last')) {
-      const match = lowerQuery.match(/last\s+(\d+)/);
-      const limit = match ? parseInt(match[1]) : 10;
-      result = data.slice(-limit);
-    }
-    
-    if (lowerQuery.includes('where') || lowerQuery.includes('filter')) {
-      // Simple filtering (this is a simplified version)
-      const columns = Object.keys(data[0] || {});
-      for (const column of columns) {
-        if (lowerQuery.includes(column)) {
-          result = result.filter(row => 
-            String(row[column]).toLowerCase().includes(column)
-          );
-          break;
-        }
-      }
-    }
-    
-    if (lowerQuery.includes('group by') || lowerQuery.includes('count')) {
-      // Simple grouping
-      const columns = Object.keys(data[0] || {});
-      const groupColumn = columns.find(col => lowerQuery.includes(col));
-      
-      if (groupColumn) {
-        const grouped = result.reduce((acc: { [key: string]: number }, row) => {
-          const key = String(row[groupColumn]);
-          acc[key] = (acc[key] || 0) + 1;
-          return acc;
-        }, {});
-        
-        result = Object.entries(grouped).map(([key, count]) => ({
-          [groupColumn]: key,
-          count: count
-        }));
-      }
-    }
-    
-    if (lowerQuery.includes('average') || lowerQuery.includes('avg')) {
-      const stats = analyzeData(data);
-      const numericCol = stats.numericColumns[0];
-      
-      if (numericCol) {
-        const sum = data.reduce((acc, row) => acc + (Number(row[numericCol]) || 0), 0);
-        const avg = sum / data.length;
-        result = [{ [`average_${numericCol}`]: avg.toFixed(2) }];
-      }
-    }
-    
-    if (lowerQuery.includes('sum') || lowerQuery.includes('total')) {
-      const stats = analyzeData(data);
-      const numericCol = stats.numericColumns[0];
-      
-      if (numericCol) {
-        const sum = data.reduce((acc, row) => acc + (Number(row[numericCol]) || 0), 0);
-        result = [{ [`total_${numericCol}`]: sum }];
-      }
-    }
-    
-    // Generate a simple SQL representation
-    let sql = 'SELECT ';
-    if (lowerQuery.includes('count') || lowerQuery.includes('group by')) {
-      sql += '*, COUNT(*) as count FROM data';
-    } else if (lowerQuery.includes('average')) {
-      const stats = analyzeData(data);
-      const numericCol = stats.numericColumns[0];
-      sql += `AVG(${numericCol}) as average_${numericCol} FROM data`;
-    } else if (lowerQuery.includes('sum')) {
-      const stats = analyzeData(data);
-      const numericCol = stats.numericColumns[0];
-      sql += `SUM(${numericCol}) as total_${numericCol} FROM data`;
-    } else {
-      sql += '* FROM data';
-    }
-    
-    if (lowerQuery.includes('top') || lowerQuery.includes('first')) {
-      const match = lowerQuery.match(/(?:top|first)\s+(\d+)/);
-      const limit = match ? parseInt(match[1]) : 10;
-      sql += ` LIMIT ${limit}`;
-    }
+    const plan = buildQueryPlan(query, data);
+    const result = executePlan(data, plan);
     
     return {
       data: result,
-      sql: sql
+      sql: planToSQL(plan),
+      plan
     };
     
   } catch (error) {
@@ -238,8 +334,109 @@ export const executeSimpleQuery = (data: DataRow[], query: string): QueryResult
   }
 };
 
-export const exportToCSV = (data: DataRow[], filename: string = 'export.csv'): void => {
-  const csv = Papa.unparse(data);
+// Table names in queries match case-insensitively, and "data" always means
+// the active table so queries written before a second upload keep working.
+const resolveTableName = (tables: TableSet, name: string, activeTable: string): string => {
+  if (tables[name]) return name;
+  const match = Object.keys(tables).find(table => table.toLowerCase() === name.toLowerCase());
+  if (match) return match;
+  if (name.toLowerCase() === DEFAULT_TABLE) return activeTable;
+  throw new Error(`Unknown table "${name}". Available tables: ${Object.keys(tables).join(', ')}`);
+};
+
+// Plans from outside the NL builder (typed SQL, model output) are checked
+// against the workspace tables before they run.
+const prepareExternalPlan = (tables: TableSet, activeTable: string, plan: QueryPlan): QueryPlan => {
+  const from = resolveTableName(tables, plan.from, activeTable);
+  const resolved: QueryPlan = {
+    ...plan,
+    from,
+    // Keep the name the query used, so data.price still resolves.
+    alias: plan.alias || (from !== plan.from ? plan.from : null),
+    joins: plan.joins.map(join => {
+      const table = resolveTableName(tables, join.table, activeTable);
+      return { ...join, table, alias: join.alias || (table !== join.table ? join.table : null) };
+    })
+  };
+
+  const tableColumns = Object.fromEntries(
+    Object.entries(tables).map(([name, rows]) => [name, rows.length > 0 ? Object.keys(rows[0]) : []])
+  );
+  return validatePlan(resolved, tableColumns);
+};
+
+/**
+ * Answers a question about the active table through a translation provider.
+ * Whatever the provider returns is validated against the workspace columns
+ * before it is executed.
+ */
+export const executeProviderQuery = async (
+  tables: TableSet,
+  activeTable: string,
+  question: string,
+  provider: QueryProvider
+): Promise<QueryResult> => {
+  try {
+    const data = tables[activeTable] || [];
+    const stats = analyzeData(data);
+    const { plan: generated } = await provider.translate({
+      question,
+      schema: describeWorkspace(tables, activeTable),
+      table: activeTable,
+      data,
+      stats,
+      tables
+    });
+
+    let plan: QueryPlan;
+    try {
+      plan = prepareExternalPlan(tables, activeTable, generated);
+    } catch (error) {
+      throw new Error(`The generated query is not valid for this data: ${error instanceof Error ? error.message : error}`);
+    }
+
+    return {
+      data: executePlan(tables[plan.from], plan, tables),
+      sql: planToSQL(plan),
+      plan
+    };
+  } catch (error) {
+    return {
+      data: [],
+      sql: '',
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+};
+
+export const executeSQLQuery = (tables: TableSet, activeTable: string, sql: string): QueryResult => {
+  try {
+    const plan = prepareExternalPlan(tables, activeTable, parseSQL(sql));
+
+    return {
+      data: executePlan(tables[plan.from], plan, tables),
+      sql,
+      plan
+    };
+  } catch (error) {
+    return {
+      data: [],
+      sql,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      errorPosition: error instanceof SqlSyntaxError ? { line: error.line, column: error.column } : undefined
+    };
+  }
+};
+
+export const exportToCSV = (data: DataRow[], filename: string = 'export.csv', columns?: ColumnMeta[]): void => {
+  const keys = data.length > 0 ? Object.keys(data[0]) : [];
+  // Headers use the original column names; the rows are written in key order.
+  const csv = columns
+    ? Papa.unparse({
+      fields: keys.map(key => columnDisplayName(columns, key)),
+      data: data.map(row => keys.map(key => row[key]))
+    })
+    : Papa.unparse(data);
   const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
   const link = document.createElement('a');
   const url = URL.createObjectURL(blob);
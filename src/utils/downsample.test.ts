@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { downsampleIndices } from './downsample';
+
+describe('downsampleIndices', () => {
+  const xs = Array.from({ length: 200 }, (_, index) => index);
+  const wave = xs.map(x => Math.sin(x / 10) * 10 + (x === 137 ? 500 : 0));
+
+  it('keeps the points of later series when the first one is all nulls', () => {
+    const kept = downsampleIndices(xs, [xs.map(() => null), wave], 20);
+    expect(kept).not.toBeNull();
+    expect(kept.length).toBeLessThanOrEqual(20);
+    expect(kept).toEqual(expect.arrayContaining([0, 137, 199]));
+  });
+
+  it('keeps peaks that fall in gaps of the first series', () => {
+    const gappy = xs.map(x => (x > 120 && x < 150 ? null : 1));
+    const kept = downsampleIndices(xs, [gappy, wave], 20);
+    expect(kept).toContain(137);
+    expect(kept).toEqual([...kept].sort((a, b) => a - b));
+  });
+
+  it('leaves short or empty series alone', () => {
+    expect(downsampleIndices(xs, [wave], 500)).toBeNull();
+    expect(downsampleIndices(xs, [xs.map(() => null)], 20)).toBeNull();
+  });
+
+  it('keeps points and gap markers together within the threshold', () => {
+    // Every other value missing, so nearly every pair of chosen points has a gap between.
+    const series = [0, 1, 2, 3].map(phase => xs.map(x => (x % 2 === phase % 2 ? null : Math.sin(x / 7 + phase) * (x % 13))));
+    const kept = downsampleIndices(xs, series, 20);
+    expect(kept.length).toBeLessThanOrEqual(20);
+    expect(kept).toEqual([...new Set(kept)].sort((a, b) => a - b));
+  });
+});
@@ -0,0 +1,112 @@
+// Reduces long line series to a number of points a chart can draw, with
+// largest-triangle-three-buckets (LTTB): the points are split into equal
+// buckets and from each bucket the point that forms the largest triangle with
+// its chosen neighbours is kept, which preserves peaks, dips and the overall
+// shape. All datasets of a chart keep the same points, so they stay aligned
+// with the shared labels.
+
+// Fewest points a dataset is reduced to; LTTB keeps everything below three.
+const MIN_SHARE = 3;
+
+/** Indices of the points LTTB keeps, first and last included, in order. */
+export const lttbIndices = (xs: ArrayLike<number>, ys: ArrayLike<number>, threshold: number): number[] => {
+  const length = xs.length;
+  if (threshold >= length || threshold < 3) return Array.from({ length }, (_, index) => index);
+
+  const kept = [0];
+  // The first and last points are kept; the others are split into buckets.
+  const bucketSize = (length - 2) / (threshold - 2);
+  let previous = 0;
+
+  for (let bucket = 0; bucket < threshold - 2; bucket++) {
+    const start = Math.floor(bucket * bucketSize) + 1;
+    const end = Math.floor((bucket + 1) * bucketSize) + 1;
+
+    // Average of the next bucket, the third corner of the triangle.
+    const nextStart = end;
+    const nextEnd = Math.min(Math.floor((bucket + 2) * bucketSize) + 1, length);
+    let averageX = 0;
+    let averageY = 0;
+    for (let index = nextStart; index < nextEnd; index++) {
+      averageX += xs[index];
+      averageY += ys[index];
+    }
+    const nextCount = nextEnd - nextStart;
+    averageX /= nextCount;
+    averageY /= nextCount;
+
+    let largest = -1;
+    let chosen = start;
+    for (let index = start; index < end; index++) {
+      const area = Math.abs(
+        (xs[previous] - averageX) * (ys[index] - ys[previous]) - (xs[previous] - xs[index]) * (averageY - ys[previous])
+      );
+      if (area > largest) {
+        largest = area;
+        chosen = index;
+      }
+    }
+    kept.push(chosen);
+    previous = chosen;
+  }
+
+  kept.push(length - 1);
+  return kept;
+};
+
+/**
+ * Points to keep so that every dataset has at most `threshold` points, or null
+ * when nothing needs to be dropped. Each dataset with values gets an equal
+ * share of the points, chosen by LTTB among its own values, and all datasets
+ * keep every chosen point, so no series loses its peaks where another has
+ * gaps. One gap (null value) is kept between chosen points where a dataset
+ * with values had one, so lines still break where data is missing; the shares
+ * shrink until the points and gaps together fit.
+ */
+export const downsampleIndices = (
+  xs: number[],
+  datasets: (number | null)[][],
+  threshold: number
+): number[] | null => {
+  if (xs.length <= threshold) return null;
+
+  const withValues = datasets
+    .map(values => ({ values, present: xs.map((_, index) => index).filter(index => values[index] !== null) }))
+    .filter(({ present }) => present.length > 0);
+  if (withValues.length === 0) return null;
+
+  const pick = (share: number): number[] => {
+    const chosen = new Set<number>();
+    withValues.forEach(({ present, values }) => {
+      lttbIndices(present.map(index => xs[index]), present.map(index => values[index]), share)
+        .forEach(position => chosen.add(present[position]));
+    });
+    const kept = [...chosen].sort((a, b) => a - b);
+
+    const withGaps: number[] = [];
+    kept.forEach((index, position) => {
+      withGaps.push(index);
+      const next = kept[position + 1];
+      if (next === undefined) return;
+      for (let between = index + 1; between < next; between++) {
+        if (withValues.some(({ values }) => values[between] === null)) {
+          withGaps.push(between);
+          break;
+        }
+      }
+    });
+    return withGaps;
+  };
+
+  let share = Math.max(MIN_SHARE, Math.floor(threshold / withValues.length));
+  let kept = pick(share);
+  while (kept.length > threshold && share > MIN_SHARE) {
+    share = Math.max(MIN_SHARE, Math.min(share - 1, Math.floor((share * threshold) / kept.length)));
+    kept = pick(share);
+  }
+  if (kept.length <= threshold) return kept;
+
+  // Too many datasets for each to keep its shape: spread the points evenly.
+  return Array.from({ length: threshold }, (_, position) =>
+    kept[Math.round((position * (kept.length - 1)) / Math.max(1, threshold - 1))]);
+};
@@ -0,0 +1,137 @@
+import * as XLSX from 'xlsx';
+import { columnarRows, createColumnarBuilder } from './columnar';
+import { columnMetadata, LoadedTable } from './dataProcessor';
+
+// Excel workbook import. Each sheet is flattened into a grid of plain values
+// first (merged ranges filled in, date serials turned into ISO dates) so the
+// header row can be detected and previewed before any rows are built.
+
+export type CellValue = string | number | boolean | null;
+
+export interface ExcelSheet {
+  name: string;
+  grid: CellValue[][];
+  columnCount: number;
+  // 0-based index of the row holding the column names.
+  headerRow: number;
+}
+
+export interface ExcelWorkbook {
+  sheets: ExcelSheet[];
+}
+
+const HEADER_SCAN_ROWS = 20;
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+
+// Date serials are converted without going through Date, which would shift
+// them by the local time zone.
+const formatDateSerial = (serial: number, date1904: boolean): string => {
+  const parts = XLSX.SSF.parse_date_code(serial, { date1904 });
+  const time = `${pad(parts.H)}:${pad(parts.M)}:${pad(parts.S)}`;
+  if (Math.floor(serial) === 0) return time;
+  const date = `${pad(parts.y, 4)}-${pad(parts.m)}-${pad(parts.d)}`;
+  return parts.H === 0 && parts.M === 0 && parts.S === 0 ? date : `${date}T${time}`;
+};
+
+const cellValue = (cell: XLSX.CellObject | undefined, date1904: boolean): CellValue => {
+  if (!cell) return null;
+  switch (cell.t) {
+    case 'n':
+      return cell.z && XLSX.SSF.is_date(cell.z) ? formatDateSerial(cell.v as number, date1904) : (cell.v as number);
+    case 'd':
+      return (cell.v as Date).toISOString();
+    case 'b':
+      return cell.v as boolean;
+    case 's':
+      return cell.v as string;
+    default:
+      // Errors (#N/A, #REF!) and stub cells.
+      return null;
+  }
+};
+
+const isEmpty = (value: CellValue): boolean => value === null || value === '';
+
+const toGrid = (sheet: XLSX.WorkSheet, date1904: boolean): CellValue[][] => {
+  if (!sheet['!ref']) return [];
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  const grid: CellValue[][] = [];
+
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const row: CellValue[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      row.push(cellValue(sheet[XLSX.utils.encode_cell({ r, c })], date1904));
+    }
+    grid.push(row);
+  }
+
+  // A merged range only stores its value in the top-left cell; repeat it so
+  // merged headers and grouped row labels apply to every row and column.
+  (sheet['!merges'] || []).forEach(merge => {
+    const value = grid[merge.s.r - range.s.r]?.[merge.s.c - range.s.c] ?? null;
+    for (let r = merge.s.r; r <= merge.e.r; r++) {
+      for (let c = merge.s.c; c <= merge.e.c; c++) {
+        if (grid[r - range.s.r]) grid[r - range.s.r][c - range.s.c] = value;
+      }
+    }
+  });
+
+  return grid;
+};
+
+/**
+ * Guesses which row holds the column names: the first of the opening rows
+ * that holds only text and has at least half as many distinct values as the
+ * widest row has cells. Title and note rows above a table are usually a single
+ * (possibly merged) cell, so they are passed over.
+ */
+export const detectHeaderRow = (grid: CellValue[][]): number => {
+  const sample = grid.slice(0, HEADER_SCAN_ROWS).map(row => row.filter(value => !isEmpty(value)));
+  const widest = Math.max(0, ...sample.map(values => values.length));
+
+  const index = sample.findIndex((values, row) =>
+    values.length > 0 &&
+    new Set(values).size >= Math.ceil(widest / 2) &&
+    values.every(value => typeof value === 'string') &&
+    row < grid.length - 1
+  );
+  return index === -1 ? 0 : index;
+};
+
+// Width up to the last column that holds anything; formatting can stretch a
+// sheet's range far past its data.
+const usedWidth = (grid: CellValue[][]): number =>
+  grid.reduce((width, row) => {
+    for (let c = row.length - 1; c >= width; c--) {
+      if (!isEmpty(row[c])) return c + 1;
+    }
+    return width;
+  }, 0);
+
+export const readExcelWorkbook = async (file: File): Promise<ExcelWorkbook> => {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellNF: true });
+  const date1904 = Boolean(workbook.Workbook?.WBProps?.date1904);
+
+  return {
+    sheets: workbook.SheetNames.map(name => {
+      const grid = toGrid(workbook.Sheets[name], date1904);
+      return { name, grid, columnCount: usedWidth(grid), headerRow: detectHeaderRow(grid) };
+    })
+  };
+};
+
+/** Rows below `headerRow`, keyed by the cleaned header names; blank rows are dropped. */
+export const sheetToTable = (sheet: ExcelSheet, headerRow: number = sheet.headerRow): LoadedTable => {
+  const header = sheet.grid[headerRow] || [];
+  const labels = Array.from({ length: sheet.columnCount }, (_, c) => (isEmpty(header[c]) ? '' : String(header[c])));
+  const columns = columnMetadata(labels);
+  const builder = createColumnarBuilder(columns.map(column => column.name));
+
+  sheet.grid.slice(headerRow + 1).forEach(row => {
+    const fields = labels.map((_, c) => (isEmpty(row[c] ?? null) ? '' : String(row[c])));
+    if (fields.some(field => field !== '')) builder.append(fields);
+  });
+
+  return { data: columnarRows(builder.finish()), columns };
+};
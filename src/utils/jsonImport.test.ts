@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { findExplodableArrays, findRecordArrays, flattenRecords } from './jsonImport';
+
+describe('flattenRecords', () => {
+  it('keeps a dotted key and a nested key with the same label apart', () => {
+    const records = [{ 'a.b': 1, a: { b: 2 } }];
+    const { data, columns, jsonPaths } = flattenRecords(records, findRecordArrays(records)[0]);
+
+    expect(columns.map(column => column.displayName)).toEqual(['a.b', 'a.b (2)']);
+    expect(columns.map(column => data[0][column.name])).toEqual([1, 2]);
+    expect(columns.map(column => jsonPaths[column.name])).toEqual(['$[*]["a.b"]', '$[*].a.b']);
+  });
+
+  it('explodes only the chosen array when another shares its label', () => {
+    const records = [{ 'a.b': [1, 2], a: { b: [3, 4, 5] } }];
+    const arrays = findExplodableArrays(records);
+    expect(arrays.map(candidate => candidate.path)).toEqual(['$["a.b"]', '$.a.b']);
+
+    const { data } = flattenRecords(records, findRecordArrays(records)[0], arrays[1]);
+    expect(data).toHaveLength(3);
+  });
+});
@@ -0,0 +1,206 @@
+import { columnarRows, createColumnarBuilder } from './columnar';
+import { columnMetadata, LoadedTable } from './dataProcessor';
+
+// JSON and NDJSON (JSON Lines) import. Records can sit at the top level or in
+// an array inside a wrapper object ({"data": [...]}). Nested objects are
+// flattened into one column per leaf, named by joining the keys with
+// underscores (labels keep the dots), and one array field may be exploded so
+// every element becomes its own row. Each column remembers the JSON path it
+// was read from.
+
+export interface RecordArray {
+  // JSON path of the array, e.g. $ or $.data.items
+  path: string;
+  segments: string[];
+  count: number;
+  // Set when the document is a single object used as the only record.
+  single?: boolean;
+}
+
+export interface ExplodableArray {
+  // Dotted key path inside a record, e.g. order.items
+  label: string;
+  // JSON path inside a record, e.g. $.order.items; unlike labels, never shared.
+  path: string;
+  segments: string[];
+}
+
+export interface JsonDocument {
+  format: 'json' | 'ndjson';
+  root: unknown;
+  // Arrays that could hold the records, largest first.
+  recordArrays: RecordArray[];
+}
+
+export interface FlattenedJSON extends LoadedTable {
+  // JSON path each column was read from, keyed by column name.
+  jsonPaths: Record<string, string>;
+}
+
+const SEARCH_DEPTH = 4;
+const EXPLODE_SAMPLE = 200;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const pathKey = (key: string): string => (/^[A-Za-z_$][\w$]*$/.test(key) ? `.${key}` : `[${JSON.stringify(key)}]`);
+
+const toPath = (segments: string[], root = '$'): string => root + segments.map(pathKey).join('');
+
+const parseLines = (text: string): unknown[] => {
+  const records: unknown[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === '') return;
+    try {
+      records.push(JSON.parse(line));
+    } catch (error) {
+      throw new Error(`Invalid JSON on line ${index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+  return records;
+};
+
+/**
+ * Arrays of objects anywhere in the first few levels of the document. A bare
+ * object with no such array is offered as a single record.
+ */
+export const findRecordArrays = (root: unknown): RecordArray[] => {
+  const found: RecordArray[] = [];
+
+  const visit = (value: unknown, segments: string[]) => {
+    if (Array.isArray(value)) {
+      if (segments.length === 0 || value.some(isObject)) {
+        found.push({ path: toPath(segments), segments, count: value.length });
+      }
+      return;
+    }
+    if (!isObject(value) || segments.length >= SEARCH_DEPTH) return;
+    Object.entries(value).forEach(([key, child]) => visit(child, [...segments, key]));
+  };
+
+  visit(root, []);
+  if (found.length === 0 && isObject(root)) {
+    found.push({ path: '$', segments: [], count: 1, single: true });
+  }
+  return found.sort((a, b) => b.count - a.count);
+};
+
+const valueAt = (value: unknown, segments: string[]): unknown =>
+  segments.reduce<unknown>((current, key) => (isObject(current) ? current[key] : undefined), value);
+
+export const recordsAt = (document: JsonDocument, array: RecordArray): unknown[] => {
+  if (array.single) return [document.root];
+  const value = valueAt(document.root, array.segments);
+  return Array.isArray(value) ? value : [];
+};
+
+export const readJSONDocument = async (file: File): Promise<JsonDocument> => {
+  const text = await file.text();
+  const lines = /\.(ndjson|jsonl)$/i.test(file.name);
+
+  let format: JsonDocument['format'] = lines ? 'ndjson' : 'json';
+  let root: unknown;
+  if (lines) {
+    root = parseLines(text);
+  } else {
+    try {
+      root = JSON.parse(text);
+    } catch (error) {
+      // A .json file holding one object per line is common enough to accept.
+      try {
+        root = parseLines(text);
+        format = 'ndjson';
+      } catch {
+        throw error;
+      }
+    }
+  }
+
+  if (!Array.isArray(root) && !isObject(root)) {
+    throw new Error('Invalid JSON format');
+  }
+  return { format, root, recordArrays: findRecordArrays(root) };
+};
+
+/** Array fields inside the (sampled) records that could be exploded into rows. */
+export const findExplodableArrays = (records: unknown[]): ExplodableArray[] => {
+  const found = new Map<string, ExplodableArray>();
+
+  const visit = (value: unknown, segments: string[]) => {
+    if (Array.isArray(value)) {
+      const path = toPath(segments);
+      if (value.length > 0 && !found.has(path)) found.set(path, { label: segments.join('.'), path, segments });
+      return;
+    }
+    if (!isObject(value)) return;
+    Object.entries(value).forEach(([key, child]) => visit(child, [...segments, key]));
+  };
+
+  records.slice(0, EXPLODE_SAMPLE).forEach(record => {
+    if (isObject(record)) visit(record, []);
+  });
+  return Array.from(found.values());
+};
+
+/**
+ * Flattens records into rows. Nested objects become one column per leaf;
+ * arrays other than the exploded one are kept as JSON text. When `explode` is
+ * given, a record yields one row per element of that array (or a single row
+ * with empty element columns when the array is missing or empty).
+ */
+export const flattenRecords = (
+  records: unknown[],
+  array: RecordArray,
+  explode: ExplodableArray | null = null
+): FlattenedJSON => {
+  const recordPath = array.single ? array.path : `${array.path}[*]`;
+  // JSON path -> dotted label, in order of first appearance. Columns are told
+  // apart by path, as a key containing a dot and a nested key can share a label.
+  const columns = new Map<string, string>();
+  const rows: Map<string, string>[] = [];
+
+  const walk = (value: unknown, labels: string[], path: string, row: Map<string, string>, skip: string | null) => {
+    if (skip !== null && path === skip) return;
+
+    if (isObject(value) && Object.keys(value).length > 0) {
+      Object.entries(value).forEach(([key, child]) => walk(child, [...labels, key], path + pathKey(key), row, skip));
+      return;
+    }
+
+    if (!columns.has(path)) columns.set(path, labels.join('.') || 'value');
+    row.set(path, value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value));
+  };
+
+  records.forEach(record => {
+    const base = new Map<string, string>();
+    walk(record, [], recordPath, base, explode ? toPath(explode.segments, recordPath) : null);
+    if (!explode) {
+      rows.push(base);
+      return;
+    }
+
+    const elements = valueAt(record, explode.segments);
+    const elementPath = `${toPath(explode.segments, recordPath)}[*]`;
+    if (!Array.isArray(elements) || elements.length === 0) {
+      // Keep the record; its element columns stay empty.
+      rows.push(base);
+      return;
+    }
+    elements.forEach(element => {
+      const row = new Map(base);
+      walk(element, explode.segments, elementPath, row, null);
+      rows.push(row);
+    });
+  });
+
+  const paths = Array.from(columns.keys());
+  const meta = columnMetadata(Array.from(columns.values()));
+  const builder = createColumnarBuilder(meta.map(column => column.name));
+  rows.forEach(row => builder.append(paths.map(path => row.get(path) ?? '')));
+
+  return {
+    data: columnarRows(builder.finish()),
+    columns: meta,
+    jsonPaths: Object.fromEntries(paths.map((path, index) => [meta[index].name, path]))
+  };
+};
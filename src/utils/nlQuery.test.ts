@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { buildQueryPlan } from './nlQuery';
+import { planToSQL } from './sqlGenerator';
+
+describe('buildQueryPlan', () => {
+  const data = [
+    { region: 'North', größe: 10, 価格: 100, 数量: 3 },
+    { region: 'South', größe: 20, 価格: 200, 数量: 4 }
+  ];
+
+  it('finds columns with non-ASCII names', () => {
+    expect(planToSQL(buildQueryPlan('sum of 数量', data))).toContain('SUM("数量")');
+    expect(planToSQL(buildQueryPlan('average 価格 by region', data))).toContain('AVG("価格")');
+    expect(planToSQL(buildQueryPlan('total größe by region', data))).toContain('SUM("größe")');
+  });
+
+  it('groups several measures and filters groups on their totals', () => {
+    const sales = [
+      { region: 'North', price: 10, sales: 200 },
+      { region: 'North', price: 30, sales: 150 },
+      { region: 'West', price: 20, sales: 400 }
+    ];
+    expect(planToSQL(buildQueryPlan('average price and total sales by region', sales)))
+      .toBe('SELECT "region", AVG("price") AS "average_price", SUM("sales") AS "total_sales"\nFROM "data"\nGROUP BY "region"');
+    expect(planToSQL(buildQueryPlan('max price per region', sales))).toContain('MAX("price")');
+    expect(planToSQL(buildQueryPlan('regions with total sales over 300', sales))).toContain('HAVING SUM("sales") > 300');
+  });
+
+  it('orders and limits ranking questions', () => {
+    const products = [
+      { product: 'A', sales: 200 },
+      { product: 'B', sales: 400 },
+      { product: 'C', sales: null }
+    ];
+    expect(planToSQL(buildQueryPlan('top 2 products by sales', products))).toContain('ORDER BY "total_sales" DESC NULLS LAST\nLIMIT 2');
+    expect(planToSQL(buildQueryPlan('sort by sales descending', products))).toContain('ORDER BY "sales" DESC NULLS LAST');
+  });
+
+  it('reads "in" as a filter on values the column holds', () => {
+    const orders = [
+      { product: 'A', region: 'North', category: 'Toys', sales: 200 },
+      { product: 'B', region: 'South', category: 'Books', sales: 150 },
+      { product: 'C', region: 'West', category: 'Toys', sales: 100 }
+    ];
+    const where = (question: string) => planToSQL(buildQueryPlan(question, orders)).split('\n').find(line => line.startsWith('WHERE'));
+
+    expect(where('region in north')).toBe('WHERE "region" = \'North\'');
+    expect(where('products in the north region')).toBe('WHERE "region" = \'North\'');
+    expect(where('total sales in the toys category')).toBe('WHERE "category" = \'Toys\'');
+    expect(where('products in north or south')).toBe('WHERE "region" IN (\'North\', \'South\')');
+    expect(where('products in europe')).toBeUndefined();
+  });
+});
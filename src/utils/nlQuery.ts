@@ -0,0 +1,1098 @@
+import { DataRow, DataStats, analyzeData, columnRole } from './dataProcessor';
+import {
+  AggregateExpression,
+  AggregateFunction,
+  ComparisonOperator,
+  DEFAULT_TABLE,
+  Expression,
+  JoinType,
+  QueryPlan,
+  Scalar,
+  SortDirection,
+  TableSet,
+  aggregate,
+  column,
+  compare,
+  createPlan,
+  escapeLikePattern,
+  isMissing,
+  joinTables,
+  literal,
+  transformExpression,
+  walkExpression
+} from './queryPlan';
+import { suggestJoinKeys } from './workspace';
+
+// Natural-language front end: turns a plain-English question into a QueryPlan.
+// Each recognised phrase contributes its own plan nodes, so "average sales by
+// region" becomes AVG(sales) grouped by region rather than a global average.
+
+const AGGREGATE_KEYWORDS: Record<string, AggregateFunction> = {
+  average: 'avg',
+  avg: 'avg',
+  mean: 'avg',
+  sum: 'sum',
+  total: 'sum',
+  min: 'min',
+  minimum: 'min',
+  max: 'max',
+  maximum: 'max',
+  median: 'median'
+};
+
+const AGGREGATE_ALIAS_PREFIX: Record<AggregateFunction, string> = {
+  count: 'count',
+  sum: 'total',
+  avg: 'average',
+  min: 'min',
+  max: 'max',
+  median: 'median'
+};
+
+// Aggregates that only make sense over numbers; MIN/MAX and COUNT DISTINCT
+// also work on text and dates.
+const NUMERIC_AGGREGATES = new Set<AggregateFunction>(['sum', 'avg', 'median']);
+
+// "highest price per category" asks for MAX per group; without a grouping the
+// same words rank rows instead (see RANKING_KEYWORDS).
+const SUPERLATIVE_AGGREGATES: Record<string, AggregateFunction> = {
+  highest: 'max',
+  largest: 'max',
+  biggest: 'max',
+  lowest: 'min',
+  smallest: 'min'
+};
+
+const DISTINCT_KEYWORDS = new Set(['distinct', 'unique']);
+
+// Words after a plural column name that introduce a per-group condition, as in
+// "regions with total sales over 300".
+const GROUP_CONDITION_WORDS = new Set(['with', 'having', 'that', 'which', 'whose', 'where', 'have']);
+
+const GROUP_KEYWORDS = [
+  ['group', 'by'],
+  ['grouped', 'by'],
+  ['for', 'each'],
+  ['in', 'each'],
+  ['by'],
+  ['per'],
+  ['each']
+];
+
+// Words that may sit between a keyword and the column it refers to.
+const FILLER_WORDS = new Set(['the', 'of', 'a', 'an', 'all', 'total', 'overall', 'number']);
+
+interface Token {
+  // Lower-cased form used for keyword and column matching.
+  word: string;
+  // Original text, used for values so "North" keeps its case.
+  raw: string;
+}
+
+const TOKEN_PATTERN = /'[^']*'|"[^"]*"|\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2})?)?|\d{1,2}\/\d{1,2}\/\d{2,4}|[-+]?\$?\d[\d,]*(?:\.\d+)?%?|[<>!=]=?|<>|[\p{L}\p{N}_']+/gu;
+
+const tokenize = (text: string): Token[] =>
+  (text.match(TOKEN_PATTERN) || []).map(raw => ({ word: raw.toLowerCase(), raw }));
+
+const isQuoted = (token: Token): boolean => /^(['"]).*\1$/s.test(token.raw);
+
+const parseNumber = (token: Token | undefined): number | null => {
+  if (!token || !/^[-+]?\$?\d[\d,]*(?:\.\d+)?%?$/.test(token.raw)) return null;
+  const value = Number(token.raw.replace(/[$,%]/g, ''));
+  return isNaN(value) ? null : value;
+};
+
+const normalizeName = (name: string): string => {
+  const compact = name.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+  if (compact.endsWith('ies')) return `${compact.slice(0, -3)}y`;
+  if (compact.endsWith('ses') || compact.endsWith('xes')) return compact.slice(0, -2);
+  if (compact.endsWith('s') && !compact.endsWith('ss')) return compact.slice(0, -1);
+  return compact;
+};
+
+/**
+ * Resolves the column named by the tokens starting at `start`, trying the
+ * longest phrase first so "product name" wins over "product". Returns the
+ * column and the number of tokens it consumed.
+ */
+const matchColumnAt = (
+  tokens: string[],
+  start: number,
+  columns: string[]
+): { column: string; length: number } | null => {
+  for (let length = Math.min(3, tokens.length - start); length > 0; length--) {
+    if (!tokens.slice(start, start + length).every(token => /^[\p{L}\p{N}_]+$/u.test(token))) continue;
+    const candidate = normalizeName(tokens.slice(start, start + length).join(''));
+    const match = columns.find(col => normalizeName(col) === candidate);
+    if (match) return { column: match, length };
+  }
+
+  // Fall back to a single word naming one part of exactly one column, so
+  // "name" finds product_name as long as nothing else ends in "name".
+  const word = tokens[start] ? normalizeName(tokens[start]) : '';
+  if (word.length >= 3) {
+    const partial = columns.filter(col => col.toLowerCase().split(/[_\s]+/).some(part => normalizeName(part) === word));
+    if (partial.length === 1) return { column: partial[0], length: 1 };
+  }
+  return null;
+};
+
+const columnAfter = (tokens: string[], index: number, columns: string[]): string | null => {
+  let start = index;
+  while (start < tokens.length && FILLER_WORDS.has(tokens[start])) start++;
+  return matchColumnAt(tokens, start, columns)?.column || null;
+};
+
+const findSequence = (tokens: string[], sequence: string[], from: number = 0): number => {
+  for (let i = from; i <= tokens.length - sequence.length; i++) {
+    if (sequence.every((word, offset) => tokens[i + offset] === word)) return i;
+  }
+  return -1;
+};
+
+const mentionedColumns = (tokens: string[], columns: string[]): string[] => {
+  const found: string[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const match = matchColumnAt(tokens, i, columns);
+    if (match) {
+      if (!found.includes(match.column)) found.push(match.column);
+      i += match.length - 1;
+    }
+  }
+  return found;
+};
+
+/**
+ * Finds the column after a grouping keyword. `skip` holds the positions of
+ * words that already belong to a sort phrase, so the "by" in "sorted by price"
+ * or "top 5 by sales" never starts a GROUP BY.
+ */
+const findGroupColumn = (
+  tokens: string[],
+  columns: string[],
+  stats: DataStats,
+  allowNumeric: boolean,
+  skip: Set<number> = new Set()
+): string | null => {
+  for (const keyword of GROUP_KEYWORDS) {
+    let index = findSequence(tokens, keyword);
+    while (index !== -1) {
+      const candidate = skip.has(index) ? null : columnAfter(tokens, index + keyword.length, columns);
+      if (candidate && (allowNumeric || columnRole(stats, candidate) === 'dimension')) {
+        return candidate;
+      }
+      index = findSequence(tokens, keyword, index + 1);
+    }
+  }
+  return null;
+};
+
+interface Measure {
+  fn: AggregateFunction;
+  column: string;
+  distinct: boolean;
+}
+
+const measureAlias = (measure: Measure): string =>
+  measure.distinct ? `distinct_${measure.column}` : `${AGGREGATE_ALIAS_PREFIX[measure.fn]}_${measure.column}`;
+
+/**
+ * Collects every aggregate the question asks for. Keywords chained with "and"
+ * share the next column ("average and max price"), each keyword/column pair is
+ * its own measure ("average price and total sales"), and a keyword without a
+ * usable column falls back to the first measure column mentioned or present.
+ */
+const findMeasures = (tokens: string[], columns: string[], stats: DataStats, perGroup: boolean): Measure[] => {
+  const measures: Measure[] = [];
+  let pending: AggregateFunction[] = [];
+
+  const measureColumns = stats.numericColumns.filter(column => columnRole(stats, column) === 'measure');
+  const fallback = mentionedColumns(tokens, measureColumns)[0] || measureColumns[0];
+  const flush = (target: string | null) => {
+    pending.forEach(fn => {
+      const col = target && (!NUMERIC_AGGREGATES.has(fn) || stats.numericColumns.includes(target)) ? target : fallback;
+      if (col) measures.push({ fn, column: col, distinct: false });
+    });
+    pending = [];
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const word = tokens[i];
+
+    if (AGGREGATE_KEYWORDS[word]) {
+      pending.push(AGGREGATE_KEYWORDS[word]);
+      continue;
+    }
+
+    if (perGroup && SUPERLATIVE_AGGREGATES[word]) {
+      pending.push(SUPERLATIVE_AGGREGATES[word]);
+      continue;
+    }
+
+    if (DISTINCT_KEYWORDS.has(word)) {
+      const target = columnAfter(tokens, i + 1, columns);
+      if (target) measures.push({ fn: 'count', column: target, distinct: true });
+      continue;
+    }
+
+    if (pending.length === 0) continue;
+    if (FILLER_WORDS.has(word) || (word === 'and' && AGGREGATE_KEYWORDS[tokens[i + 1]])) continue;
+
+    const match = matchColumnAt(tokens, i, columns);
+    const usable = match && pending.every(fn => !NUMERIC_AGGREGATES.has(fn) || stats.numericColumns.includes(match.column));
+    flush(usable ? match.column : null);
+    if (usable) i += match.length - 1;
+  }
+  flush(null);
+
+  const seen = new Set<string>();
+  return measures.filter(measure => {
+    const alias = measureAlias(measure);
+    if (seen.has(alias)) return false;
+    seen.add(alias);
+    return true;
+  });
+};
+
+// "count", "how many" or "number of", unless it is really a distinct count
+// ("how many unique products").
+const wantsCount = (tokens: string[]): boolean => {
+  const phrases = [['count'], ['how', 'many'], ['number', 'of']];
+  return phrases.some(phrase => {
+    const index = findSequence(tokens, phrase);
+    return index !== -1 && !DISTINCT_KEYWORDS.has(tokens[index + phrase.length]);
+  });
+};
+
+/**
+ * Picks a grouping column named in the plural right before a per-group
+ * condition, as in "regions with total sales over 300".
+ */
+const findPluralGroupColumn = (tokens: string[], columns: string[], stats: DataStats): string | null => {
+  for (let i = 0; i < tokens.length - 1; i++) {
+    if (!GROUP_CONDITION_WORDS.has(tokens[i + 1])) continue;
+    const match = columns.find(col => normalizeName(col) === normalizeName(tokens[i]) && col.toLowerCase() !== tokens[i]);
+    if (match && columnRole(stats, match) === 'dimension') return match;
+  }
+  return null;
+};
+
+const findLimit = (tokens: string[]): { keyword: string; count: number } | null => {
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i] === 'top' || tokens[i] === 'bottom' || tokens[i] === 'first' || tokens[i] === 'last') {
+      const count = Number(tokens[i + 1]);
+      return { keyword: tokens[i], count: Number.isInteger(count) && count > 0 ? count : 10 };
+    }
+  }
+  return null;
+};
+
+const RANKING_KEYWORDS: Record<string, SortDirection> = {
+  top: 'desc',
+  highest: 'desc',
+  largest: 'desc',
+  biggest: 'desc',
+  most: 'desc',
+  bottom: 'asc',
+  lowest: 'asc',
+  smallest: 'asc',
+  least: 'asc',
+  fewest: 'asc'
+};
+
+const SORT_KEYWORDS = [['sorted', 'by'], ['sort', 'by'], ['sorting', 'by'], ['ordered', 'by'], ['order', 'by'], ['ranked', 'by']];
+
+const DIRECTION_WORDS: Record<string, SortDirection> = {
+  asc: 'asc',
+  ascending: 'asc',
+  increasing: 'asc',
+  desc: 'desc',
+  descending: 'desc',
+  decreasing: 'desc',
+  reverse: 'desc'
+};
+
+// Words that stand for "the number of rows" as a sort key ("top 5 by count").
+const COUNT_WORDS = new Set(['count', 'rows', 'records', 'items', 'entries']);
+
+interface OrderRequest {
+  // null orders by the row count of each group.
+  column: string | null;
+  fn: AggregateFunction | null;
+  direction: SortDirection;
+}
+
+interface Ordering {
+  items: OrderRequest[];
+  // Set by "top 5 regions by sales", which ranks groups rather than rows.
+  groupColumn: string | null;
+  // Positions of "by" words that belong to a sort phrase.
+  consumed: Set<number>;
+}
+
+const readOrderTarget = (
+  tokens: string[],
+  start: number,
+  columns: string[]
+): { column: string | null; fn: AggregateFunction | null; end: number } | null => {
+  let index = start;
+  let fn: AggregateFunction | null = null;
+  while (index < tokens.length && (FILLER_WORDS.has(tokens[index]) || AGGREGATE_KEYWORDS[tokens[index]])) {
+    fn = AGGREGATE_KEYWORDS[tokens[index]] || fn;
+    index++;
+  }
+
+  const match = matchColumnAt(tokens, index, columns);
+  if (match) return { column: match.column, fn, end: index + match.length };
+
+  const countedWords = tokens.slice(start, index);
+  if (COUNT_WORDS.has(tokens[index]) || countedWords.includes('number')) {
+    return { column: null, fn: 'count', end: index + 1 };
+  }
+  return null;
+};
+
+const readDirection = (tokens: string[], start: number, fallback: SortDirection): SortDirection => {
+  for (let i = start; i < Math.min(tokens.length, start + 3); i++) {
+    if (tokens[i] === 'and' || tokens[i] === 'then') break;
+    if (DIRECTION_WORDS[tokens[i]]) return DIRECTION_WORDS[tokens[i]];
+    if (tokens[i] === 'highest' || tokens[i] === 'largest') return tokens[i + 1] === 'first' ? 'desc' : fallback;
+    if (tokens[i] === 'lowest' || tokens[i] === 'smallest') return tokens[i + 1] === 'first' ? 'asc' : fallback;
+  }
+  return fallback;
+};
+
+/**
+ * Reads ranking and sorting phrases: "top/bottom N by X", "highest X",
+ * "least X" and "sorted by X [descending], then Y". Explicit sort phrases come
+ * first in the resulting ORDER BY, ranking phrases after them.
+ */
+const findOrdering = (tokens: string[], columns: string[], stats: DataStats, perGroup: boolean): Ordering => {
+  const ordering: Ordering = { items: [], groupColumn: null, consumed: new Set() };
+
+  SORT_KEYWORDS.forEach(keyword => {
+    let index = findSequence(tokens, keyword);
+    while (index !== -1) {
+      ordering.consumed.add(index + keyword.length - 1);
+      let position = index + keyword.length;
+      let target = readOrderTarget(tokens, position, columns);
+      while (target) {
+        const direction = readDirection(tokens, target.end, 'asc');
+        ordering.items.push({ column: target.column, fn: target.fn, direction });
+        position = target.end;
+        while (position < tokens.length && (DIRECTION_WORDS[tokens[position]] || ['in', 'order'].includes(tokens[position]))) {
+          position++;
+        }
+        target = ['and', 'then'].includes(tokens[position]) ? readOrderTarget(tokens, position + 1, columns) : null;
+      }
+      index = findSequence(tokens, keyword, index + 1);
+    }
+  });
+
+  for (let i = 0; i < tokens.length; i++) {
+    const direction = RANKING_KEYWORDS[tokens[i]];
+    if (!direction) continue;
+
+    let next = i + 1;
+    const counted = /^\d+$/.test(tokens[next] || '');
+    if (counted) next++;
+
+    // "top 5 regions by total sales": an optional plural column, then "by".
+    // Only top/bottom or a count make "by" a sort key; "highest sales by
+    // region" still groups by region.
+    const ranksBy = counted || tokens[i] === 'top' || tokens[i] === 'bottom';
+    const byIndex = ranksBy ? tokens.slice(next, next + 4).indexOf('by') : -1;
+    if (byIndex !== -1) {
+      const target = readOrderTarget(tokens, next + byIndex + 1, columns);
+      if (target) {
+        ordering.consumed.add(next + byIndex);
+        ordering.items.push({ column: target.column, fn: target.fn, direction });
+        if (byIndex === 1) {
+          const noun = tokens[next];
+          const grouped = columns.find(col => normalizeName(col) === normalizeName(noun) && col.toLowerCase() !== noun);
+          if (grouped && columnRole(stats, grouped) === 'dimension') ordering.groupColumn = grouped;
+        }
+        continue;
+      }
+    }
+
+    // "highest sales", "most recent date": the keyword names the sort column.
+    if (perGroup && SUPERLATIVE_AGGREGATES[tokens[i]]) continue;
+    const target = readOrderTarget(tokens, next, columns);
+    const sortable = target && (target.column === null || target.fn
+      || stats.numericColumns.includes(target.column) || stats.dateColumns.includes(target.column));
+    if (sortable) {
+      ordering.items.push({ column: target.column, fn: target.fn, direction });
+    }
+  }
+
+  return ordering;
+};
+
+type FilterOperator = ComparisonOperator | 'between' | 'in' | 'contains' | 'not_contains' | 'starts_with' | 'ends_with';
+
+// Longest phrases first so "greater than or equal to" is not read as "greater than".
+const FILTER_OPERATORS: [string[], FilterOperator][] = [
+  [['greater', 'than', 'or', 'equal', 'to'], '>='],
+  [['less', 'than', 'or', 'equal', 'to'], '<='],
+  [['does', 'not', 'contain'], 'not_contains'],
+  [['not', 'equal', 'to'], '!='],
+  [['no', 'less', 'than'], '>='],
+  [['no', 'more', 'than'], '<='],
+  [["doesn't", 'contain'], 'not_contains'],
+  [['not', 'containing'], 'not_contains'],
+  [['not', 'like'], 'not_contains'],
+  [['greater', 'than'], '>'],
+  [['more', 'than'], '>'],
+  [['higher', 'than'], '>'],
+  [['less', 'than'], '<'],
+  [['lower', 'than'], '<'],
+  [['fewer', 'than'], '<'],
+  [['at', 'least'], '>='],
+  [['at', 'most'], '<='],
+  [['other', 'than'], '!='],
+  [['equal', 'to'], '='],
+  [['starts', 'with'], 'starts_with'],
+  [['ends', 'with'], 'ends_with'],
+  [['between'], 'between'],
+  [['over'], '>'],
+  [['above'], '>'],
+  [['exceeds'], '>'],
+  [['after'], '>'],
+  [['since'], '>='],
+  [['under'], '<'],
+  [['below'], '<'],
+  [['before'], '<'],
+  [['until'], '<='],
+  [['not'], '!='],
+  [["isn't"], '!='],
+  [['except'], '!='],
+  [['contains'], 'contains'],
+  [['containing'], 'contains'],
+  [['includes'], 'contains'],
+  [['like'], 'contains'],
+  [['equals'], '='],
+  [['in'], 'in'],
+  [['>='], '>='],
+  [['<='], '<='],
+  [['!='], '!='],
+  [['<>'], '!='],
+  [['=='], '='],
+  [['='], '='],
+  [['>'], '>'],
+  [['<'], '<']
+];
+
+const COMPARISON_OPERATORS = new Set<FilterOperator>(['=', '!=', '<', '<=', '>', '>=']);
+
+const isComparison = (operator: FilterOperator): operator is ComparisonOperator => COMPARISON_OPERATORS.has(operator);
+
+const LINKING_VERBS = new Set(['is', 'are', 'was', 'were', 'has', 'have']);
+
+// Words that end a free-text value ("region is North and ...").
+const VALUE_TERMINATORS = new Set([
+  'and', 'or', 'by', 'per', 'sorted', 'sort', 'order', 'ordered', 'with', 'where',
+  'group', 'grouped', 'limit', 'top', 'for', 'having', 'then', 'in'
+]);
+
+interface ParsedCondition {
+  expression: Expression;
+  start: number;
+  end: number;
+}
+
+const columnValues = (data: DataRow[], col: string): Map<string, string> => {
+  const values = new Map<string, string>();
+  data.forEach(row => {
+    const value = row[col];
+    if (!isMissing(value) && !values.has(String(value).toLowerCase())) {
+      values.set(String(value).toLowerCase(), String(value));
+    }
+  });
+  return values;
+};
+
+const valueEnd = (tokens: Token[], start: number): number => {
+  let end = start;
+  while (end < tokens.length && !VALUE_TERMINATORS.has(tokens[end].word) && !isQuoted(tokens[end])) end++;
+  return end;
+};
+
+/** The longest phrase at `start` that is an actual value of the column, as stored. */
+const readKnownValue = (
+  tokens: Token[],
+  start: number,
+  known: Map<string, string>
+): { value: string; end: number } | null => {
+  for (let length = valueEnd(tokens, start) - start; length > 0; length--) {
+    const phrase = tokens.slice(start, start + length).map(token => token.raw).join(' ');
+    const match = known.get(phrase.toLowerCase());
+    if (match !== undefined) return { value: match, end: start + length };
+  }
+  return null;
+};
+
+/**
+ * One or more values of the column joined by "or" or "and", as in "in north
+ * or south"; matches IN when there are several.
+ */
+const readKnownValues = (
+  tokens: Token[],
+  start: number,
+  target: Expression,
+  known: Map<string, string>
+): { expression: Expression; end: number } | null => {
+  const first = readKnownValue(tokens, start, known);
+  if (!first) return null;
+
+  const values = [first.value];
+  let end = first.end;
+  while (tokens[end] && (tokens[end].word === 'or' || tokens[end].word === 'and')) {
+    const next = readKnownValue(tokens, end + 1, known);
+    if (!next) break;
+    values.push(next.value);
+    end = next.end;
+  }
+  return {
+    expression: values.length === 1
+      ? compare('=', target, literal(values[0]))
+      : { type: 'in', operand: target, values: values.map(literal), negated: false },
+    end
+  };
+};
+
+/**
+ * Reads a free-text value starting at `start`. Unquoted values run until a
+ * terminator word; the longest prefix that is an actual value of the column
+ * wins, so "region is north" matches the stored "North".
+ */
+const readTextValue = (
+  tokens: Token[],
+  start: number,
+  known: Map<string, string> | null
+): { value: string; end: number } | null => {
+  if (start >= tokens.length) return null;
+  if (isQuoted(tokens[start])) {
+    return { value: tokens[start].raw.slice(1, -1), end: start + 1 };
+  }
+
+  const end = valueEnd(tokens, start);
+  if (end === start) return null;
+
+  const match = known ? readKnownValue(tokens, start, known) : null;
+  return match || { value: tokens.slice(start, end).map(token => token.raw).join(' '), end };
+};
+
+const readOperator = (words: string[], start: number): { operator: FilterOperator; end: number } | null => {
+  let index = start;
+  const linked = LINKING_VERBS.has(words[index]);
+  if (linked) index++;
+
+  for (const [phrase, operator] of FILTER_OPERATORS) {
+    if (phrase.every((word, offset) => words[index + offset] === word)) {
+      return { operator, end: index + phrase.length };
+    }
+  }
+
+  // A bare linking verb ("region is North") means equality.
+  return linked ? { operator: '=', end: index } : null;
+};
+
+const parseConditionAt = (
+  tokens: Token[],
+  start: number,
+  columns: string[],
+  stats: DataStats,
+  data: DataRow[],
+  fn: AggregateFunction | null
+): ParsedCondition | null => {
+  const words = tokens.map(token => token.word);
+  const match = matchColumnAt(words, start, columns);
+  if (!match) return null;
+
+  const operator = readOperator(words, start + match.length);
+  if (!operator) return null;
+
+  // "total sales over 300" compares the aggregate, not the raw column.
+  const target = fn ? aggregate(fn, column(match.column)) : column(match.column);
+  const isNumeric = stats.numericColumns.includes(match.column) || (fn !== null && fn !== 'min' && fn !== 'max');
+  const isDate = stats.dateColumns.includes(match.column);
+
+  const readScalar = (index: number, known: Map<string, string> | null): { value: Scalar; end: number } | null => {
+    if (isNumeric) {
+      const value = parseNumber(tokens[index]);
+      return value === null ? null : { value, end: index + 1 };
+    }
+    if (isDate) {
+      return tokens[index] ? { value: isQuoted(tokens[index]) ? tokens[index].raw.slice(1, -1) : tokens[index].raw, end: index + 1 } : null;
+    }
+    return readTextValue(tokens, index, known);
+  };
+
+  switch (operator.operator) {
+    case 'between': {
+      const low = readScalar(operator.end, null);
+      if (!low || words[low.end] !== 'and') return null;
+      const high = readScalar(low.end + 1, null);
+      if (!high) return null;
+      return {
+        expression: { type: 'between', operand: target, low: literal(low.value), high: literal(high.value), negated: false },
+        start,
+        end: high.end
+      };
+    }
+    case 'in': {
+      // "region in the north": only a value the column holds counts, so "in"
+      // followed by anything else is not mistaken for a filter.
+      if (fn || isNumeric || isDate) return null;
+      const index = words[operator.end] === 'the' ? operator.end + 1 : operator.end;
+      if (tokens[index] && isQuoted(tokens[index])) {
+        return { expression: compare('=', target, literal(tokens[index].raw.slice(1, -1))), start, end: index + 1 };
+      }
+      const values = readKnownValues(tokens, index, target, columnValues(data, match.column));
+      return values && { ...values, start };
+    }
+    case 'contains':
+    case 'not_contains':
+    case 'starts_with':
+    case 'ends_with': {
+      const text = readTextValue(tokens, operator.end, null);
+      if (!text) return null;
+      const escaped = escapeLikePattern(text.value);
+      const pattern = operator.operator === 'starts_with'
+        ? `${escaped}%`
+        : operator.operator === 'ends_with' ? `%${escaped}` : `%${escaped}%`;
+      return {
+        expression: {
+          type: 'like',
+          operand: target,
+          pattern,
+          negated: operator.operator === 'not_contains',
+          caseInsensitive: true
+        },
+        start,
+        end: text.end
+      };
+    }
+    default: {
+      const known = !fn && (operator.operator === '=' || operator.operator === '!=') ? columnValues(data, match.column) : null;
+      const value = readScalar(operator.end, known);
+      if (!value) return null;
+      return {
+        expression: compare(operator.operator, target, literal(value.value)),
+        start,
+        end: value.end
+      };
+    }
+  }
+};
+
+/**
+ * Parses a condition on the number of rows per group: "count over 5" or
+ * "with more than 5 products".
+ */
+const parseCountConditionAt = (tokens: Token[], start: number): ParsedCondition | null => {
+  const words = tokens.map(token => token.word);
+  if (words[start] !== 'count' && words[start] !== 'with' && words[start] !== 'having') return null;
+
+  const operator = readOperator(words, start + 1);
+  if (!operator || !isComparison(operator.operator)) return null;
+  if (words[start] !== 'count' && LINKING_VERBS.has(words[start + 1])) return null;
+
+  const value = parseNumber(tokens[operator.end]);
+  if (value === null) return null;
+
+  return {
+    expression: compare(operator.operator, aggregate('count', null), literal(value)),
+    start,
+    end: operator.end + 1
+  };
+};
+
+/**
+ * Parses a value named before (or without) its column: "in the north
+ * region", or "in North" when only one text column holds that value.
+ */
+const parseValueConditionAt = (
+  tokens: Token[],
+  start: number,
+  columns: string[],
+  stats: DataStats,
+  data: DataRow[]
+): ParsedCondition | null => {
+  const words = tokens.map(token => token.word);
+  if (words[start] !== 'in') return null;
+  const index = words[start + 1] === 'the' ? start + 2 : start + 1;
+
+  const candidates = columns
+    .filter(col => !stats.numericColumns.includes(col) && !stats.dateColumns.includes(col))
+    .map(col => ({ col, values: readKnownValues(tokens, index, column(col), columnValues(data, col)) }))
+    .filter(candidate => candidate.values !== null);
+  const named = candidates.find(({ col, values }) => matchColumnAt(words, values.end, columns)?.column === col);
+  const chosen = named || (candidates.length === 1 ? candidates[0] : null);
+  if (!chosen) return null;
+
+  const { expression, end } = chosen.values;
+  return { expression, start, end: named ? end + matchColumnAt(words, end, columns).length : end };
+};
+
+const aggregateBefore = (words: string[], index: number): AggregateFunction | null => {
+  let i = index - 1;
+  while (i >= 0 && FILLER_WORDS.has(words[i]) && !AGGREGATE_KEYWORDS[words[i]]) i--;
+  return i >= 0 ? AGGREGATE_KEYWORDS[words[i]] || null : null;
+};
+
+// AND binds tighter than OR, as in SQL, so "a and b or c" becomes (a AND b) OR c.
+const combineConditions = (tokens: Token[], conditions: ParsedCondition[]): Expression | null => {
+  if (conditions.length === 0) return null;
+
+  const alternatives: Expression[][] = [[conditions[0].expression]];
+  for (let i = 1; i < conditions.length; i++) {
+    const between = tokens.slice(conditions[i - 1].end, conditions[i].start).map(token => token.word);
+    if (between.includes('or')) {
+      alternatives.push([conditions[i].expression]);
+    } else {
+      alternatives[alternatives.length - 1].push(conditions[i].expression);
+    }
+  }
+
+  const branches = alternatives.map<Expression>(operands =>
+    operands.length === 1 ? operands[0] : { type: 'logical', operator: 'and', operands }
+  );
+  return branches.length === 1 ? branches[0] : { type: 'logical', operator: 'or', operands: branches };
+};
+
+/**
+ * Finds every "<column> <operator> <value>" condition in the question. Plain
+ * conditions filter rows (WHERE); conditions on an aggregate such as "total
+ * sales over 300" or "with more than 5 items" filter groups (HAVING).
+ */
+const findFilters = (
+  tokens: Token[],
+  columns: string[],
+  stats: DataStats,
+  data: DataRow[]
+): { where: Expression | null; having: Expression | null } => {
+  const words = tokens.map(token => token.word);
+  const rowConditions: ParsedCondition[] = [];
+  const groupConditions: ParsedCondition[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const fn = aggregateBefore(words, i);
+    const condition = parseConditionAt(tokens, i, columns, stats, data, fn);
+    if (condition) {
+      (fn ? groupConditions : rowConditions).push(condition);
+      i = condition.end - 1;
+      continue;
+    }
+
+    const countCondition = parseCountConditionAt(tokens, i);
+    if (countCondition) {
+      groupConditions.push(countCondition);
+      i = countCondition.end - 1;
+      continue;
+    }
+
+    const valueCondition = parseValueConditionAt(tokens, i, columns, stats, data);
+    if (valueCondition) {
+      rowConditions.push(valueCondition);
+      i = valueCondition.end - 1;
+    }
+  }
+
+  return {
+    where: combineConditions(tokens, rowConditions),
+    having: combineConditions(tokens, groupConditions)
+  };
+};
+
+/**
+ * Resolves a sort request against the plan. Grouped plans sort on aggregates:
+ * an explicit one ("by total sales"), the measure already selected for the
+ * column, or SUM of a numeric column that was not aggregated yet. Any
+ * aggregate introduced here is added to the select list so it is visible.
+ */
+const orderExpression = (request: OrderRequest, plan: QueryPlan, stats: DataStats): Expression | null => {
+  const isGrouped = plan.groupBy.length > 0 || plan.select.some(item => item.expression.type === 'aggregate');
+
+  if (!isGrouped) {
+    return request.column ? column(request.column) : null;
+  }
+
+  if (request.column && plan.groupBy.some(expression => expression.type === 'column' && expression.name === request.column)) {
+    return column(request.column);
+  }
+
+  let expression: AggregateExpression | null = null;
+  if (request.column === null) {
+    expression = aggregate('count', null);
+  } else if (request.fn) {
+    expression = aggregate(request.fn, column(request.column));
+  } else {
+    const selected = plan.select.find(item =>
+      item.expression.type === 'aggregate'
+      && item.expression.argument?.type === 'column'
+      && item.expression.argument.name === request.column
+    );
+    if (selected) return selected.expression;
+    if (!stats.numericColumns.includes(request.column)) return null;
+    expression = aggregate('sum', column(request.column));
+  }
+
+  if (!plan.select.some(item => JSON.stringify(item.expression) === JSON.stringify(expression))) {
+    const alias = expression.argument?.type === 'column'
+      ? measureAlias({ fn: expression.fn, column: expression.argument.name, distinct: false })
+      : 'count';
+    plan.select.push({ expression, alias });
+  }
+  return expression;
+};
+
+/**
+ * Joined rows key a column that exists in several tables as table.column.
+ * Columns picked from those rows are turned back into qualified references
+ * so the plan validates and renders as "orders"."id".
+ */
+const qualifyJoinedColumns = (plan: QueryPlan): QueryPlan => {
+  const sources = [plan.from, ...plan.joins.map(join => join.table)];
+  const qualify = (expression: Expression): Expression =>
+    transformExpression(expression, node => {
+      if (node.type !== 'column' || node.table) return node;
+      const source = sources.find(name => node.name.startsWith(`${name}.`));
+      return source ? column(node.name.slice(source.length + 1), source) : node;
+    });
+
+  return {
+    ...plan,
+    select: plan.select.map(item => ({ ...item, expression: qualify(item.expression) })),
+    where: plan.where && qualify(plan.where),
+    groupBy: plan.groupBy.map(qualify),
+    having: plan.having && qualify(plan.having),
+    orderBy: plan.orderBy.map(item => ({ ...item, expression: qualify(item.expression) }))
+  };
+};
+
+// Longest first, so "left joined with" is not read as "joined with".
+const JOIN_PHRASES: { words: string[]; type: JoinType }[] = [
+  { words: ['left', 'joined', 'with'], type: 'left' },
+  { words: ['left', 'joined', 'to'], type: 'left' },
+  { words: ['left', 'join'], type: 'left' },
+  { words: ['joined', 'with'], type: 'inner' },
+  { words: ['joined', 'to'], type: 'inner' },
+  { words: ['join', 'with'], type: 'inner' },
+  { words: ['combined', 'with'], type: 'inner' },
+  { words: ['merged', 'with'], type: 'inner' },
+  { words: ['joined'], type: 'inner' },
+  { words: ['join'], type: 'inner' }
+];
+
+// Phrases that ask to keep rows without a match, turning a join into a LEFT JOIN.
+const KEEP_UNMATCHED_PHRASES = [['keeping', 'all'], ['keep', 'all'], ['including', 'unmatched'], ['even', 'without']];
+
+interface JoinRequest {
+  left: string;
+  right: string;
+  type: JoinType;
+  // Key columns named in the question ("on customer_id"), if any.
+  leftColumn: string | null;
+  rightColumn: string | null;
+  start: number;
+  end: number;
+}
+
+/**
+ * Finds "<table> joined with <table> [on <column> [= <column>]]". The left
+ * table may be left out, in which case the active table is used.
+ */
+const findJoin = (words: string[], activeTable: string, tables: TableSet): JoinRequest | null => {
+  const names = Object.keys(tables);
+
+  for (let i = 0; i < words.length; i++) {
+    const phrase = JOIN_PHRASES.find(candidate => candidate.words.every((word, offset) => words[i + offset] === word));
+    if (!phrase) continue;
+
+    let rightStart = i + phrase.words.length;
+    while (FILLER_WORDS.has(words[rightStart])) rightStart++;
+    const right = matchColumnAt(words, rightStart, names);
+    if (!right) continue;
+
+    let start = i;
+    let left = activeTable;
+    for (let length = 1; length <= Math.min(3, i); length++) {
+      const match = matchColumnAt(words, i - length, names);
+      if (match && match.length === length) {
+        left = match.column;
+        start = i - length;
+        break;
+      }
+    }
+    if (left === right.column) continue;
+
+    const request: JoinRequest = {
+      left,
+      right: right.column,
+      type: phrase.type,
+      leftColumn: null,
+      rightColumn: null,
+      start,
+      end: rightStart + right.length
+    };
+
+    if (['on', 'using', 'by', 'via'].includes(words[request.end])) {
+      const leftColumns = Object.keys(tables[left][0] || {});
+      const rightColumns = Object.keys(tables[right.column][0] || {});
+      const key = matchColumnAt(words, request.end + 1, [...new Set([...leftColumns, ...rightColumns])]);
+      if (key) {
+        request.leftColumn = key.column;
+        request.rightColumn = key.column;
+        request.end += 1 + key.length;
+        if (words[request.end] === '=' || words[request.end] === 'to') {
+          const other = matchColumnAt(words, request.end + 1, rightColumns);
+          if (other) {
+            request.rightColumn = other.column;
+            request.end += 1 + other.length;
+          }
+        }
+      }
+    }
+
+    if (KEEP_UNMATCHED_PHRASES.some(keep => findSequence(words, keep) !== -1)) {
+      request.type = 'left';
+    }
+    return request;
+  }
+
+  return null;
+};
+
+/** Turns a join request into the plan's join clause, falling back to suggested keys. */
+const buildJoin = (request: JoinRequest, tables: TableSet): QueryPlan['joins'][number] => {
+  const leftRows = tables[request.left];
+  const rightRows = tables[request.right];
+  let { leftColumn, rightColumn } = request;
+
+  if (!leftColumn) {
+    const [best] = suggestJoinKeys(
+      { name: request.left, filename: request.left, data: leftRows, stats: analyzeData(leftRows) },
+      { name: request.right, filename: request.right, data: rightRows, stats: analyzeData(rightRows) }
+    );
+    if (!best) {
+      throw new Error(`No matching key columns between ${request.left} and ${request.right}; say which column to join on, e.g. "on customer_id"`);
+    }
+    leftColumn = best.leftColumn;
+    rightColumn = best.rightColumn;
+  }
+
+  if (!(leftColumn in (leftRows[0] || {}))) {
+    throw new Error(`${request.left} has no column "${leftColumn}" to join on`);
+  }
+  if (!(rightColumn in (rightRows[0] || {}))) {
+    throw new Error(`${request.right} has no column "${rightColumn}" to join on`);
+  }
+
+  return {
+    type: request.type,
+    table: request.right,
+    alias: null,
+    on: compare('=', column(leftColumn, request.left), column(rightColumn, request.right))
+  };
+};
+
+export interface PlanOptions {
+  // The table name `data` was loaded under; the plan reads FROM it.
+  table?: string;
+  // Every workspace table, for questions that join tables.
+  tables?: TableSet;
+}
+
+/**
+ * Builds a query plan for a natural-language question over `data`. Column
+ * types come from analyzeData unless precomputed stats are passed in. With
+ * workspace tables in `options`, "orders joined with customers on
+ * customer_id" joins them and the rest of the question runs on the result.
+ */
+export const buildQueryPlan = (
+  question: string,
+  data: DataRow[],
+  stats: DataStats = analyzeData(data),
+  options: PlanOptions = {}
+): QueryPlan => {
+  let tokens = tokenize(question);
+  let words = tokens.map(token => token.word);
+  const table = options.table || DEFAULT_TABLE;
+  const plan = createPlan(table);
+
+  const joinRequest = options.tables ? findJoin(words, table, options.tables) : null;
+  if (joinRequest) {
+    plan.from = joinRequest.left;
+    plan.joins = [buildJoin(joinRequest, options.tables)];
+    data = joinTables(options.tables[joinRequest.left], plan, options.tables);
+    stats = analyzeData(data);
+    tokens = [...tokens.slice(0, joinRequest.start), ...tokens.slice(joinRequest.end)];
+    words = tokens.map(token => token.word);
+  }
+
+  const columns = Object.keys(data[0] || {});
+
+  const filters = findFilters(tokens, columns, stats, data);
+  plan.where = filters.where;
+  plan.having = filters.having;
+
+  const perGroup = findGroupColumn(words, columns, stats, false) !== null;
+  const measures = findMeasures(words, columns, stats, perGroup);
+  const ordering = findOrdering(words, columns, stats, perGroup);
+  const countRequested = wantsCount(words) || findSequence(words, ['group', 'by']) !== -1;
+  const groupColumn = findGroupColumn(words, columns, stats, measures.length > 0 || countRequested, ordering.consumed)
+    || ordering.groupColumn
+    || (measures.length > 0 || countRequested || plan.having ? findPluralGroupColumn(words, columns, stats) : null);
+
+  if (measures.length > 0 || countRequested || groupColumn || plan.having) {
+    if (groupColumn) {
+      plan.groupBy = [column(groupColumn)];
+      plan.select.push({ expression: column(groupColumn), alias: groupColumn });
+    }
+
+    measures
+      .filter(measure => measure.column !== groupColumn)
+      .forEach(measure => {
+        plan.select.push({
+          expression: aggregate(measure.fn, column(measure.column), measure.distinct),
+          alias: measureAlias(measure)
+        });
+      });
+
+    if (countRequested || plan.select.length === plan.groupBy.length) {
+      plan.select.push({ expression: aggregate('count', null), alias: 'count' });
+    }
+
+    // Show every aggregate the HAVING clause filters on next to the groups.
+    walkExpression(plan.having)
+      .filter((expression): expression is AggregateExpression => expression.type === 'aggregate')
+      .forEach(expression => {
+        const selected = plan.select.some(item => JSON.stringify(item.expression) === JSON.stringify(expression));
+        if (!selected) {
+          const alias = expression.argument?.type === 'column'
+            ? measureAlias({ fn: expression.fn, column: expression.argument.name, distinct: expression.distinct })
+            : 'count';
+          plan.select.push({ expression, alias });
+        }
+      });
+  }
+
+  ordering.items.forEach(request => {
+    const expression = orderExpression(request, plan, stats);
+    if (expression && !plan.orderBy.some(item => JSON.stringify(item.expression) === JSON.stringify(expression))) {
+      plan.orderBy.push({ expression, direction: request.direction });
+    }
+  });
+
+  const limit = findLimit(words);
+  if (limit) {
+    plan.limit = limit.count;
+    if (limit.keyword === 'last' && plan.groupBy.length === 0 && plan.select.length === 0 && plan.orderBy.length === 0) {
+      plan.offset = Math.max(0, data.length - limit.count);
+    }
+  }
+
+  return joinRequest ? qualifyJoinedColumns(plan) : plan;
+};
@@ -0,0 +1,203 @@
+import { describe, expect, it } from 'vitest';
+import {
+  aggregate,
+  column,
+  compare,
+  createPlan,
+  evaluateExpression,
+  executePlan,
+  Expression,
+  literal,
+  validatePlan
+} from './queryPlan';
+import { parseSQL } from './sqlParser';
+
+const and = (...operands: Expression[]): Expression => ({ type: 'logical', operator: 'and', operands });
+const or = (...operands: Expression[]): Expression => ({ type: 'logical', operator: 'or', operands });
+const not = (operand: Expression): Expression => ({ type: 'not', operand });
+
+describe('evaluateExpression', () => {
+  const row = { price: 10, discount: null, region: '' };
+  const yes = compare('>', column('price'), literal(5));
+  const no = compare('<', column('price'), literal(5));
+  const unknown = compare('>', column('discount'), literal(5));
+
+  it('treats comparisons with missing values as unknown', () => {
+    expect(evaluateExpression(unknown, row)).toBeNull();
+    expect(evaluateExpression(compare('=', column('region'), literal('')), row)).toBeNull();
+    expect(evaluateExpression(compare('=', column('nowhere'), literal(1)), row)).toBeNull();
+  });
+
+  it('follows three-valued logic for AND, OR and NOT', () => {
+    expect(evaluateExpression(and(yes, unknown), row)).toBeNull();
+    expect(evaluateExpression(and(no, unknown), row)).toBe(false);
+    expect(evaluateExpression(or(yes, unknown), row)).toBe(true);
+    expect(evaluateExpression(or(no, unknown), row)).toBeNull();
+    expect(evaluateExpression(not(unknown), row)).toBeNull();
+    expect(evaluateExpression(not(no), row)).toBe(true);
+  });
+
+  it('returns unknown from IN when the value is missing or only a missing candidate could match', () => {
+    const candidates = [literal(1), literal(null)];
+    expect(evaluateExpression({ type: 'in', operand: column('discount'), values: candidates, negated: false }, row))
+      .toBeNull();
+    expect(evaluateExpression({ type: 'in', operand: column('price'), values: candidates, negated: true }, row))
+      .toBeNull();
+    expect(evaluateExpression({ type: 'in', operand: column('price'), values: [literal('10')], negated: false }, row))
+      .toBe(true);
+  });
+});
+
+describe('executePlan', () => {
+  const data = [
+    { product: 'A', region: 'North', price: 10, discount: 1 },
+    { product: 'B', region: 'North', price: 20, discount: null },
+    { product: 'C', region: 'South', price: null, discount: 2 },
+    { product: 'D', region: 'South', price: 40, discount: '' }
+  ];
+
+  it('keeps only rows whose condition is true, not unknown', () => {
+    const plan = { ...createPlan(), where: not(compare('>', column('discount'), literal(1))) };
+    expect(executePlan(data, plan).map(row => row.product)).toEqual(['A']);
+  });
+
+  it('skips missing values in aggregates but counts every row with COUNT(*)', () => {
+    const plan = {
+      ...createPlan(),
+      select: [
+        { expression: aggregate('count', null), alias: 'rows' },
+        { expression: aggregate('count', column('price')), alias: 'priced' },
+        { expression: aggregate('avg', column('price')), alias: 'average' },
+        { expression: aggregate('sum', column('discount')), alias: 'discounts' }
+      ]
+    };
+    expect(executePlan(data, plan)).toEqual([{ rows: 4, priced: 3, average: 70 / 3, discounts: 3 }]);
+  });
+
+  it('collapses an aggregate over no rows into one row', () => {
+    const plan = {
+      ...createPlan(),
+      select: [
+        { expression: aggregate('count', null), alias: 'rows' },
+        { expression: aggregate('sum', column('price')), alias: 'total' }
+      ]
+    };
+    expect(executePlan([], plan)).toEqual([{ rows: 0, total: null }]);
+  });
+
+  it('rejects unknown columns before running', () => {
+    const plan = { ...createPlan(), where: compare('>', column('cost'), literal(1)) };
+    expect(() => validatePlan(plan, { data: Object.keys(data[0]) })).toThrow(/cost/);
+  });
+});
+
+describe('grouped queries', () => {
+  const data = [
+    { region: 'North', price: 10, sales: 200 },
+    { region: 'North', price: 30, sales: 150 },
+    { region: 'South', price: 5, sales: 100 },
+    { region: 'South', price: null, sales: 50 },
+    { region: 'West', price: null, sales: 400 }
+  ];
+  const run = (sql: string) => executePlan(data, parseSQL(sql));
+
+  it('computes several aggregates per group', () => {
+    expect(run('SELECT region, AVG(price) AS average, SUM(sales) AS total, MAX(price) AS top FROM data GROUP BY region'))
+      .toEqual([
+        { region: 'North', average: 20, total: 350, top: 30 },
+        { region: 'South', average: 5, total: 150, top: 5 },
+        { region: 'West', average: null, total: 400, top: null }
+      ]);
+  });
+
+  it('filters groups with HAVING on aggregates, aliases and aggregates not selected', () => {
+    expect(run('SELECT region FROM data GROUP BY region HAVING SUM(sales) > 300').map(row => row.region))
+      .toEqual(['North', 'West']);
+    expect(run('SELECT region, COUNT(*) AS orders FROM data GROUP BY region HAVING orders >= 2').map(row => row.region))
+      .toEqual(['North', 'South']);
+  });
+
+  it('drops groups whose HAVING condition is unknown', () => {
+    expect(run('SELECT region FROM data GROUP BY region HAVING AVG(price) > 1').map(row => row.region))
+      .toEqual(['North', 'South']);
+  });
+});
+
+describe('ordering', () => {
+  const data = [
+    { product: 'A', price: 20, stock: 1 },
+    { product: 'B', price: null, stock: 2 },
+    { product: 'C', price: 5, stock: 3 },
+    { product: 'D', price: '', stock: 4 },
+    { product: 'E', price: 20, stock: 5 }
+  ];
+  const products = (sql: string) => executePlan(data, parseSQL(sql)).map(row => row.product);
+
+  it('puts missing values last in both directions', () => {
+    expect(products('SELECT product FROM data ORDER BY price')).toEqual(['C', 'A', 'E', 'B', 'D']);
+    expect(products('SELECT product FROM data ORDER BY price DESC')).toEqual(['A', 'E', 'C', 'B', 'D']);
+  });
+
+  it('puts missing values first when asked', () => {
+    expect(products('SELECT product FROM data ORDER BY price DESC NULLS FIRST')).toEqual(['B', 'D', 'A', 'E', 'C']);
+  });
+
+  it('breaks ties with later keys and keeps the input order otherwise', () => {
+    expect(products('SELECT product FROM data ORDER BY price DESC, stock DESC')).toEqual(['E', 'A', 'C', 'D', 'B']);
+    expect(products('SELECT product FROM data ORDER BY price DESC LIMIT 2 OFFSET 1')).toEqual(['E', 'C']);
+  });
+
+  it('orders by select aliases and compares numeric text as numbers', () => {
+    const rows = [{ size: '10' }, { size: '9' }, { size: '100' }];
+    expect(executePlan(rows, parseSQL('SELECT size AS s FROM data ORDER BY s')).map(row => row.s))
+      .toEqual(['9', '10', '100']);
+  });
+});
+
+describe('joins', () => {
+  const orders = [
+    { id: 1, customer_id: 10, amount: 50 },
+    { id: 2, customer_id: 20, amount: 30 },
+    { id: 3, customer_id: 99, amount: 70 },
+    { id: 4, customer_id: null, amount: 10 }
+  ];
+  const tables = {
+    orders,
+    customers: [
+      { id: 10, name: 'Ada' },
+      { id: '20', name: 'Grace' },
+      { id: null, name: 'Nobody' }
+    ]
+  };
+  const run = (sql: string) => executePlan(orders, parseSQL(sql), tables);
+
+  it('keeps unmatched rows of a left join with empty columns from the right', () => {
+    expect(run('SELECT o.id, c.name FROM orders o LEFT JOIN customers c ON o.customer_id = c.id')).toEqual([
+      { id: 1, name: 'Ada' },
+      { id: 2, name: 'Grace' },
+      { id: 3, name: null },
+      { id: 4, name: null }
+    ]);
+  });
+
+  it('drops unmatched rows of an inner join and never matches missing keys', () => {
+    expect(run('SELECT o.id FROM orders o JOIN customers c ON o.customer_id = c.id').map(row => row.id)).toEqual([1, 2]);
+  });
+
+  it('finds the unmatched rows of a left join with IS NULL', () => {
+    expect(run('SELECT o.id FROM orders o LEFT JOIN customers c ON o.customer_id = c.id WHERE c.name IS NULL')
+      .map(row => row.id)).toEqual([3, 4]);
+  });
+
+  it('keys columns both tables have by alias', () => {
+    const [first] = run('SELECT * FROM orders o JOIN customers c ON o.customer_id = c.id');
+    expect(first).toEqual({ 'o.id': 1, customer_id: 10, amount: 50, 'c.id': 10, name: 'Ada' });
+  });
+
+  it('joins on conditions other than equality', () => {
+    expect(run('SELECT o.id, c.name FROM orders o JOIN customers c ON o.amount > 40 AND c.id = 10')).toEqual([
+      { id: 1, name: 'Ada' },
+      { id: 3, name: 'Ada' }
+    ]);
+  });
+});
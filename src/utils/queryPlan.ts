@@ -0,0 +1,849 @@
+import { DataRow } from './dataProcessor';
+import { callScalarFunction, formatTimestamp, toDate } from './sqlFunctions';
+
+// Query plan AST. Both the natural-language layer and the executor speak this
+// format, so every phrase the NL layer understands turns into plan nodes that
+// compose instead of overwriting each other's results.
+
+export type Scalar = string | number | boolean | null;
+
+export type ComparisonOperator = '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max' | 'median';
+
+export type ArithmeticOperator = '+' | '-' | '*' | '/' | '%' | '||';
+
+export type CastType = 'integer' | 'decimal' | 'text' | 'boolean' | 'date' | 'timestamp';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface ColumnExpression {
+  type: 'column';
+  name: string;
+  // Table name or alias for qualified references such as orders.customer_id.
+  table?: string;
+}
+
+export interface LiteralExpression {
+  type: 'literal';
+  value: Scalar;
+}
+
+export interface ComparisonExpression {
+  type: 'comparison';
+  operator: ComparisonOperator;
+  left: Expression;
+  right: Expression;
+}
+
+export interface LogicalExpression {
+  type: 'logical';
+  operator: 'and' | 'or';
+  operands: Expression[];
+}
+
+export interface NotExpression {
+  type: 'not';
+  operand: Expression;
+}
+
+export interface BetweenExpression {
+  type: 'between';
+  operand: Expression;
+  low: Expression;
+  high: Expression;
+  negated: boolean;
+}
+
+export interface LikeExpression {
+  type: 'like';
+  operand: Expression;
+  // SQL LIKE pattern: % matches any run of characters, _ a single one and a
+  // backslash escapes the next character.
+  pattern: string;
+  negated: boolean;
+  caseInsensitive: boolean;
+}
+
+export interface AggregateExpression {
+  type: 'aggregate';
+  fn: AggregateFunction;
+  // null means COUNT(*)
+  argument: Expression | null;
+  // Only aggregate each distinct argument value once, as in COUNT(DISTINCT x).
+  distinct: boolean;
+}
+
+export interface ArithmeticExpression {
+  type: 'arithmetic';
+  operator: ArithmeticOperator;
+  left: Expression;
+  right: Expression;
+}
+
+export interface NegateExpression {
+  type: 'negate';
+  operand: Expression;
+}
+
+export interface InExpression {
+  type: 'in';
+  operand: Expression;
+  values: Expression[];
+  negated: boolean;
+}
+
+export interface IsNullExpression {
+  type: 'isNull';
+  operand: Expression;
+  negated: boolean;
+}
+
+export interface FunctionExpression {
+  type: 'function';
+  // Canonical upper-case name from SCALAR_FUNCTIONS.
+  name: string;
+  args: Expression[];
+}
+
+export interface CaseExpression {
+  type: 'case';
+  // Set for the "simple" form CASE x WHEN 1 THEN ...; null for searched CASE.
+  operand: Expression | null;
+  branches: { when: Expression; then: Expression }[];
+  otherwise: Expression | null;
+}
+
+export interface CastExpression {
+  type: 'cast';
+  operand: Expression;
+  targetType: CastType;
+}
+
+// Only valid as a select item, where it expands to every source column.
+export interface StarExpression {
+  type: 'star';
+}
+
+export type Expression =
+  | ColumnExpression
+  | LiteralExpression
+  | ComparisonExpression
+  | LogicalExpression
+  | NotExpression
+  | BetweenExpression
+  | LikeExpression
+  | AggregateExpression
+  | ArithmeticExpression
+  | NegateExpression
+  | InExpression
+  | IsNullExpression
+  | FunctionExpression
+  | CaseExpression
+  | CastExpression
+  | StarExpression;
+
+export interface SelectItem {
+  expression: Expression;
+  alias: string;
+}
+
+export interface OrderItem {
+  expression: Expression;
+  direction: SortDirection;
+  // Missing values sort last unless this is set (SQL's NULLS FIRST).
+  nullsFirst?: boolean;
+}
+
+export type JoinType = 'inner' | 'left';
+
+export interface JoinClause {
+  type: JoinType;
+  table: string;
+  alias: string | null;
+  on: Expression;
+}
+
+// Rows of every table in the workspace, by table name.
+export type TableSet = Record<string, DataRow[]>;
+
+export interface QueryPlan {
+  from: string;
+  alias: string | null;
+  joins: JoinClause[];
+  // An empty select list means every column of the source rows.
+  select: SelectItem[];
+  distinct: boolean;
+  where: Expression | null;
+  groupBy: Expression[];
+  having: Expression | null;
+  orderBy: OrderItem[];
+  limit: number | null;
+  offset: number;
+}
+
+interface EvaluationContext {
+  row: DataRow;
+  // Rows of the current group; only set while evaluating grouped output.
+  group?: DataRow[];
+}
+
+export const DEFAULT_TABLE = 'data';
+
+export const createPlan = (from: string = DEFAULT_TABLE): QueryPlan => ({
+  from,
+  alias: null,
+  joins: [],
+  select: [],
+  distinct: false,
+  where: null,
+  groupBy: [],
+  having: null,
+  orderBy: [],
+  limit: null,
+  offset: 0
+});
+
+export const column = (name: string, table?: string): ColumnExpression =>
+  table ? { type: 'column', name, table } : { type: 'column', name };
+
+export const literal = (value: Scalar): LiteralExpression => ({ type: 'literal', value });
+
+export const compare = (
+  operator: ComparisonOperator,
+  left: Expression,
+  right: Expression
+): ComparisonExpression => ({ type: 'comparison', operator, left, right });
+
+export const aggregate = (
+  fn: AggregateFunction,
+  argument: Expression | null,
+  distinct: boolean = false
+): AggregateExpression => ({
+  type: 'aggregate',
+  fn,
+  argument,
+  distinct
+});
+
+export const isMissing = (value: unknown): boolean =>
+  value === null || value === undefined || value === '';
+
+const toNumber = (value: unknown): number => {
+  if (isMissing(value) || typeof value === 'boolean') return NaN;
+  return Number(value);
+};
+
+/**
+ * Compares two cell values the way the executor does everywhere: numerically
+ * when both sides look like numbers, as strings otherwise. Returns null when
+ * either side is missing so callers can apply SQL NULL semantics.
+ */
+export const compareValues = (a: unknown, b: unknown): number | null => {
+  if (isMissing(a) || isMissing(b)) return null;
+
+  const numA = toNumber(a);
+  const numB = toNumber(b);
+  if (!isNaN(numA) && !isNaN(numB)) {
+    return numA === numB ? 0 : numA < numB ? -1 : 1;
+  }
+
+  const strA = String(a);
+  const strB = String(b);
+  return strA === strB ? 0 : strA < strB ? -1 : 1;
+};
+
+/** Direct sub-expressions of a node, for walking a tree without caring about its shape. */
+export const childExpressions = (expression: Expression): Expression[] => {
+  switch (expression.type) {
+    case 'comparison':
+    case 'arithmetic':
+      return [expression.left, expression.right];
+    case 'logical':
+      return expression.operands;
+    case 'not':
+    case 'negate':
+    case 'like':
+    case 'isNull':
+    case 'cast':
+      return [expression.operand];
+    case 'between':
+      return [expression.operand, expression.low, expression.high];
+    case 'in':
+      return [expression.operand, ...expression.values];
+    case 'function':
+      return expression.args;
+    case 'case':
+      return [
+        ...(expression.operand ? [expression.operand] : []),
+        ...expression.branches.flatMap(branch => [branch.when, branch.then]),
+        ...(expression.otherwise ? [expression.otherwise] : [])
+      ];
+    case 'aggregate':
+      return expression.argument ? [expression.argument] : [];
+    default:
+      return [];
+  }
+};
+
+/** Every node of an expression tree, parents before children. */
+export const walkExpression = (expression: Expression | null, found: Expression[] = []): Expression[] => {
+  if (!expression) return found;
+  found.push(expression);
+  childExpressions(expression).forEach(child => walkExpression(child, found));
+  return found;
+};
+
+/**
+ * Rebuilds an expression bottom-up, letting `visit` replace any node after
+ * its children have been rewritten.
+ */
+export const transformExpression = (expression: Expression, visit: (node: Expression) => Expression): Expression => {
+  const map = (node: Expression) => transformExpression(node, visit);
+
+  let rebuilt: Expression;
+  switch (expression.type) {
+    case 'comparison':
+    case 'arithmetic':
+      rebuilt = { ...expression, left: map(expression.left), right: map(expression.right) };
+      break;
+    case 'logical':
+      rebuilt = { ...expression, operands: expression.operands.map(map) };
+      break;
+    case 'not':
+    case 'negate':
+    case 'like':
+    case 'isNull':
+    case 'cast':
+      rebuilt = { ...expression, operand: map(expression.operand) };
+      break;
+    case 'between':
+      rebuilt = { ...expression, operand: map(expression.operand), low: map(expression.low), high: map(expression.high) };
+      break;
+    case 'in':
+      rebuilt = { ...expression, operand: map(expression.operand), values: expression.values.map(map) };
+      break;
+    case 'function':
+      rebuilt = { ...expression, args: expression.args.map(map) };
+      break;
+    case 'case':
+      rebuilt = {
+        ...expression,
+        operand: expression.operand ? map(expression.operand) : null,
+        branches: expression.branches.map(branch => ({ when: map(branch.when), then: map(branch.then) })),
+        otherwise: expression.otherwise ? map(expression.otherwise) : null
+      };
+      break;
+    case 'aggregate':
+      rebuilt = { ...expression, argument: expression.argument ? map(expression.argument) : null };
+      break;
+    default:
+      rebuilt = expression;
+  }
+  return visit(rebuilt);
+};
+
+export const containsAggregate = (expression: Expression | null): boolean =>
+  walkExpression(expression).some(node => node.type === 'aggregate');
+
+/** Escapes %, _ and backslashes so `text` matches literally inside a LIKE pattern. */
+export const escapeLikePattern = (text: string): string => text.replace(/[\\%_]/g, match => `\\${match}`);
+
+const likePatternCache = new Map<string, RegExp>();
+
+const likeToRegExp = (pattern: string, caseInsensitive: boolean): RegExp => {
+  const key = `${caseInsensitive ? 'i' : 's'}:${pattern}`;
+  const cached = likePatternCache.get(key);
+  if (cached) return cached;
+
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    } else if (char === '%') {
+      source += '[\\s\\S]*';
+    } else if (char === '_') {
+      source += '[\\s\\S]';
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  const regExp = new RegExp(`^${source}$`, caseInsensitive ? 'i' : '');
+  likePatternCache.set(key, regExp);
+  return regExp;
+};
+
+const castValue = (value: Scalar, targetType: CastType): Scalar => {
+  if (isMissing(value)) return null;
+
+  switch (targetType) {
+    case 'integer': {
+      const number = toNumber(value);
+      return isNaN(number) ? null : Math.trunc(number);
+    }
+    case 'decimal': {
+      const number = toNumber(value);
+      return isNaN(number) ? null : number;
+    }
+    case 'text':
+      return String(value);
+    case 'boolean': {
+      const text = String(value).trim().toLowerCase();
+      if (['true', 't', 'yes', 'y', '1'].includes(text)) return true;
+      if (['false', 'f', 'no', 'n', '0'].includes(text)) return false;
+      return null;
+    }
+    case 'date':
+      return callScalarFunction('DATE', [value]);
+    case 'timestamp': {
+      const date = toDate(value);
+      return date ? formatTimestamp(date) : null;
+    }
+  }
+};
+
+const computeAggregate = (expression: AggregateExpression, group: DataRow[]): Scalar => {
+  if (expression.argument === null) {
+    return group.length;
+  }
+
+  let values = group
+    .map(row => evaluate(expression.argument, { row }))
+    .filter(value => !isMissing(value));
+
+  if (expression.distinct) {
+    const seen = new Set<string>();
+    values = values.filter(value => {
+      const key = typeof value === 'number' ? `n:${value}` : `s:${String(value)}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  switch (expression.fn) {
+    case 'count':
+      return values.length;
+    case 'sum': {
+      const numbers = values.map(toNumber).filter(n => !isNaN(n));
+      return numbers.length > 0 ? numbers.reduce((acc, n) => acc + n, 0) : null;
+    }
+    case 'avg': {
+      const numbers = values.map(toNumber).filter(n => !isNaN(n));
+      return numbers.length > 0 ? numbers.reduce((acc, n) => acc + n, 0) / numbers.length : null;
+    }
+    case 'median': {
+      const numbers = values.map(toNumber).filter(n => !isNaN(n)).sort((a, b) => a - b);
+      if (numbers.length === 0) return null;
+      const middle = Math.floor(numbers.length / 2);
+      return numbers.length % 2 === 1 ? numbers[middle] : (numbers[middle - 1] + numbers[middle]) / 2;
+    }
+    case 'min':
+    case 'max': {
+      if (values.length === 0) return null;
+      const direction = expression.fn === 'min' ? -1 : 1;
+      return values.reduce((best, value) => (compareValues(value, best) * direction > 0 ? value : best)) as Scalar;
+    }
+  }
+};
+
+const evaluate = (expression: Expression, context: EvaluationContext): Scalar => {
+  switch (expression.type) {
+    case 'column': {
+      // Joined rows key columns that exist in several tables as alias.column.
+      const qualified = expression.table ? `${expression.table}.${expression.name}` : null;
+      const value = qualified && qualified in context.row ? context.row[qualified] : context.row[expression.name];
+      return value === undefined ? null : value;
+    }
+    case 'literal':
+      return expression.value;
+    case 'comparison': {
+      const result = compareValues(evaluate(expression.left, context), evaluate(expression.right, context));
+      if (result === null) return null;
+      switch (expression.operator) {
+        case '=': return result === 0;
+        case '!=': return result !== 0;
+        case '<': return result < 0;
+        case '<=': return result <= 0;
+        case '>': return result > 0;
+        case '>=': return result >= 0;
+      }
+      return null;
+    }
+    case 'logical': {
+      const values = expression.operands.map(operand => evaluate(operand, context));
+      if (expression.operator === 'and') {
+        if (values.some(value => value === false)) return false;
+        return values.some(value => value === null) ? null : true;
+      }
+      if (values.some(value => value === true)) return true;
+      return values.some(value => value === null) ? null : false;
+    }
+    case 'not': {
+      const value = evaluate(expression.operand, context);
+      return value === null ? null : !value;
+    }
+    case 'between': {
+      const value = evaluate(expression.operand, context);
+      const low = compareValues(value, evaluate(expression.low, context));
+      const high = compareValues(value, evaluate(expression.high, context));
+      if (low === null || high === null) return null;
+      const inside = low >= 0 && high <= 0;
+      return expression.negated ? !inside : inside;
+    }
+    case 'like': {
+      const value = evaluate(expression.operand, context);
+      if (isMissing(value)) return null;
+      const matches = likeToRegExp(expression.pattern, expression.caseInsensitive).test(String(value));
+      return expression.negated ? !matches : matches;
+    }
+    case 'aggregate':
+      if (!context.group) {
+        throw new Error('Aggregate functions are only allowed in grouped queries');
+      }
+      return computeAggregate(expression, context.group);
+    case 'arithmetic': {
+      const left = evaluate(expression.left, context);
+      const right = evaluate(expression.right, context);
+      if (isMissing(left) || isMissing(right)) return null;
+      if (expression.operator === '||') return `${left}${right}`;
+
+      const a = toNumber(left);
+      const b = toNumber(right);
+      if (isNaN(a) || isNaN(b)) return null;
+      switch (expression.operator) {
+        case '+': return a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        // Division by zero yields NULL rather than Infinity.
+        case '/': return b === 0 ? null : a / b;
+        case '%': return b === 0 ? null : a % b;
+      }
+      return null;
+    }
+    case 'negate': {
+      const value = toNumber(evaluate(expression.operand, context));
+      return isNaN(value) ? null : -value;
+    }
+    case 'in': {
+      const value = evaluate(expression.operand, context);
+      if (isMissing(value)) return null;
+      const results = expression.values.map(candidate => compareValues(value, evaluate(candidate, context)));
+      if (results.some(result => result === 0)) return !expression.negated;
+      return results.some(result => result === null) ? null : expression.negated;
+    }
+    case 'isNull': {
+      const missing = isMissing(evaluate(expression.operand, context));
+      return expression.negated ? !missing : missing;
+    }
+    case 'function':
+      return callScalarFunction(expression.name, expression.args.map(arg => evaluate(arg, context)));
+    case 'case': {
+      const subject = expression.operand ? evaluate(expression.operand, context) : null;
+      for (const branch of expression.branches) {
+        const matched = expression.operand
+          ? compareValues(subject, evaluate(branch.when, context)) === 0
+          : evaluate(branch.when, context) === true;
+        if (matched) return evaluate(branch.then, context);
+      }
+      return expression.otherwise ? evaluate(expression.otherwise, context) : null;
+    }
+    case 'cast':
+      return castValue(evaluate(expression.operand, context), expression.targetType);
+    case 'star':
+      throw new Error('* is only allowed in the select list');
+  }
+};
+
+/**
+ * Evaluates an expression against a single row. Exposed for callers that need
+ * to apply a plan's predicate outside of executePlan, e.g. to preview a filter.
+ */
+export const evaluateExpression = (expression: Expression, row: DataRow, group?: DataRow[]): Scalar =>
+  evaluate(expression, { row, group });
+
+const groupRows = (rows: DataRow[], keys: Expression[]): DataRow[][] => {
+  // Without GROUP BY an aggregate query collapses everything into one group,
+  // even when there are no rows (COUNT(*) over an empty table is 0).
+  if (keys.length === 0) return [rows];
+
+  const groups = new Map<string, DataRow[]>();
+  rows.forEach(row => {
+    const key = JSON.stringify(keys.map(expression => evaluate(expression, { row })));
+    const group = groups.get(key);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(key, [row]);
+    }
+  });
+  return Array.from(groups.values());
+};
+
+const project = (select: SelectItem[], context: EvaluationContext): DataRow => {
+  if (select.length === 0) return context.row;
+
+  const output: DataRow = {};
+  select.forEach(item => {
+    if (item.expression.type === 'star') {
+      Object.assign(output, context.row);
+    } else {
+      output[item.alias] = evaluate(item.expression, context);
+    }
+  });
+  return output;
+};
+
+interface PlanSource {
+  alias: string;
+  table: string;
+}
+
+const planSources = (plan: QueryPlan): PlanSource[] => [
+  { alias: plan.alias || plan.from, table: plan.from },
+  ...plan.joins.map(join => ({ alias: join.alias || join.table, table: join.table }))
+];
+
+/**
+ * Checks a plan against the columns of the tables it reads before anything
+ * runs, so a typo fails with a clear message instead of a column of nulls.
+ * `tableColumns` maps each table name to its columns. GROUP BY may name a
+ * select alias; those references are replaced by the aliased expression in
+ * the returned plan. Throws on the first problem found.
+ */
+export const validatePlan = (plan: QueryPlan, tableColumns: Record<string, string[]>): QueryPlan => {
+  const sources = planSources(plan);
+  const seen = new Set<string>();
+  sources.forEach(source => {
+    if (!tableColumns[source.table]) {
+      throw new Error(`Unknown table "${source.table}". Available tables: ${Object.keys(tableColumns).join(', ')}`);
+    }
+    if (seen.has(source.alias)) {
+      throw new Error(`Table "${source.alias}" appears twice; give one of them an alias`);
+    }
+    seen.add(source.alias);
+  });
+
+  const available = sources.length === 1
+    ? tableColumns[sources[0].table]
+    : sources.flatMap(source => tableColumns[source.table].map(name => `${source.alias}.${name}`));
+
+  const aliases = new Map(
+    plan.select
+      .filter(item => item.expression.type !== 'star')
+      .map(item => [item.alias, item.expression] as [string, Expression])
+  );
+
+  // Whether a column reference names a real column, throwing if it is
+  // qualified with an unknown table or matches columns of several tables.
+  const resolves = (node: ColumnExpression): boolean => {
+    if (node.table) {
+      const source = sources.find(candidate => candidate.alias === node.table)
+        || sources.find(candidate => candidate.table === node.table);
+      if (!source) {
+        throw new Error(`Unknown table or alias "${node.table}"`);
+      }
+      if (!tableColumns[source.table].includes(node.name)) {
+        throw new Error(`Unknown column "${node.table}.${node.name}". Available columns: ${available.join(', ')}`);
+      }
+      return true;
+    }
+
+    const owners = sources.filter(source => tableColumns[source.table].includes(node.name));
+    if (owners.length > 1) {
+      throw new Error(`Column "${node.name}" is ambiguous; use ${owners.map(source => `${source.alias}.${node.name}`).join(' or ')}`);
+    }
+    return owners.length === 1;
+  };
+
+  const checkColumns = (expression: Expression | null, allowAliases: boolean) => {
+    walkExpression(expression).forEach(node => {
+      if (node.type !== 'column' || resolves(node)) return;
+      if (allowAliases && !node.table && aliases.has(node.name)) return;
+      throw new Error(`Unknown column "${node.name}". Available columns: ${available.join(', ')}`);
+    });
+  };
+
+  plan.joins.forEach(join => {
+    checkColumns(join.on, false);
+    if (containsAggregate(join.on)) {
+      throw new Error('Aggregate functions are not allowed in a join condition');
+    }
+  });
+  plan.select.forEach(item => checkColumns(item.expression, false));
+  checkColumns(plan.where, false);
+
+  if (containsAggregate(plan.where)) {
+    throw new Error('Aggregate functions are not allowed in WHERE; use HAVING instead');
+  }
+
+  const groupBy = plan.groupBy.map(expression => {
+    if (expression.type === 'column' && !resolves(expression) && !expression.table && aliases.has(expression.name)) {
+      const aliased = aliases.get(expression.name);
+      if (containsAggregate(aliased)) {
+        throw new Error(`Cannot group by "${expression.name}" because it is an aggregate`);
+      }
+      return aliased;
+    }
+    checkColumns(expression, false);
+    return expression;
+  });
+
+  checkColumns(plan.having, true);
+  plan.orderBy.forEach(item => checkColumns(item.expression, true));
+
+  return { ...plan, groupBy };
+};
+
+// Join keys compare the way compareValues does: numerically when the value
+// looks like a number, so 7 and '7' land in the same bucket.
+const joinKey = (value: unknown): string | null => {
+  if (isMissing(value)) return null;
+  const numeric = toNumber(value);
+  return isNaN(numeric) ? `s:${String(value)}` : `n:${numeric}`;
+};
+
+/**
+ * Combines the plan's FROM table with its joined tables into flat rows.
+ * A column name that exists in more than one table is keyed as
+ * alias.column; all others keep their plain name. Equality joins on a column
+ * of the new table are hashed; other conditions fall back to a nested loop.
+ */
+export const joinTables = (data: DataRow[], plan: QueryPlan, tables: TableSet): DataRow[] => {
+  const sources = planSources(plan).map((source, index) => {
+    const rows = index === 0 ? data : tables[source.table];
+    if (!rows) throw new Error(`Unknown table "${source.table}"`);
+    return { ...source, rows, columns: Object.keys(rows[0] || {}) };
+  });
+
+  const counts = new Map<string, number>();
+  sources.forEach(source => source.columns.forEach(name => counts.set(name, (counts.get(name) || 0) + 1)));
+  const keys = sources.map(source =>
+    source.columns.map(name => (counts.get(name) > 1 ? `${source.alias}.${name}` : name))
+  );
+
+  const addSource = (target: DataRow, index: number, row: DataRow | null): DataRow => {
+    sources[index].columns.forEach((name, position) => {
+      target[keys[index][position]] = row ? row[name] : null;
+    });
+    return target;
+  };
+
+  let combined = sources[0].rows.map(row => addSource({}, 0, row));
+
+  plan.joins.forEach((join, joinIndex) => {
+    const index = joinIndex + 1;
+    const right = sources[index];
+
+    const belongsToRight = (node: Expression): node is ColumnExpression =>
+      node.type === 'column' && right.columns.includes(node.name)
+      && (node.table ? node.table === right.alias : counts.get(node.name) === 1);
+
+    let candidates: (row: DataRow) => DataRow[] = () => right.rows;
+    if (join.on.type === 'comparison' && join.on.operator === '=') {
+      const { left: a, right: b } = join.on;
+      const rightColumn = belongsToRight(a) ? a : belongsToRight(b) ? b : null;
+      const leftSide = rightColumn === a ? b : a;
+      if (rightColumn && !walkExpression(leftSide).some(node => node.type === 'column' && belongsToRight(node))) {
+        const buckets = new Map<string, DataRow[]>();
+        right.rows.forEach(row => {
+          const key = joinKey(row[rightColumn.name]);
+          if (key === null) return;
+          if (!buckets.has(key)) buckets.set(key, []);
+          buckets.get(key).push(row);
+        });
+        candidates = row => buckets.get(joinKey(evaluate(leftSide, { row }))) || [];
+      }
+    }
+
+    combined = combined.flatMap(row => {
+      const matches = candidates(row)
+        .map(match => addSource({ ...row }, index, match))
+        .filter(joined => evaluate(join.on, { row: joined }) === true);
+      if (matches.length === 0 && join.type === 'left') return [addSource({ ...row }, index, null)];
+      return matches;
+    });
+  });
+
+  return combined;
+};
+
+/**
+ * Runs a plan over an in-memory table in the same order a SQL engine would:
+ * WHERE, GROUP BY/aggregates, HAVING, DISTINCT, ORDER BY, OFFSET/LIMIT.
+ * ORDER BY and HAVING may refer to select aliases as well as source columns.
+ */
+export const executePlan = (data: DataRow[], plan: QueryPlan, tables: TableSet = {}): DataRow[] => {
+  const source = plan.joins.length > 0 ? joinTables(data, plan, tables) : data;
+  const filtered = plan.where
+    ? source.filter(row => evaluate(plan.where, { row }) === true)
+    : source;
+
+  const isGrouped = plan.groupBy.length > 0
+    || plan.select.some(item => containsAggregate(item.expression))
+    || containsAggregate(plan.having);
+
+  let results: { output: DataRow; context: EvaluationContext }[];
+
+  if (isGrouped) {
+    const select = plan.select.length > 0
+      ? plan.select
+      : plan.groupBy.map((expression, index) => ({
+          expression,
+          alias: expression.type === 'column' ? expression.name : `group_${index + 1}`
+        }));
+
+    results = groupRows(filtered, plan.groupBy).map(group => {
+      const context = { row: group[0] || {}, group };
+      const output = project(select, context);
+      return { output, context: { row: { ...context.row, ...output }, group } };
+    });
+
+    if (plan.having) {
+      results = results.filter(result => evaluate(plan.having, result.context) === true);
+    }
+  } else {
+    results = filtered.map(row => {
+      const output = project(plan.select, { row });
+      return { output, context: { row: { ...row, ...output } } };
+    });
+  }
+
+  if (plan.distinct) {
+    const seen = new Set<string>();
+    results = results.filter(result => {
+      const key = JSON.stringify(Object.values(result.output));
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  if (plan.orderBy.length > 0) {
+    // Array.prototype.sort is stable, so ties keep their input order.
+    results = [...results].sort((a, b) => {
+      for (const item of plan.orderBy) {
+        const valueA = evaluate(item.expression, a.context);
+        const valueB = evaluate(item.expression, b.context);
+        // Missing values sort last regardless of direction unless NULLS FIRST.
+        if (isMissing(valueA) || isMissing(valueB)) {
+          if (isMissing(valueA) && isMissing(valueB)) continue;
+          const missingFirst = isMissing(valueA) ? -1 : 1;
+          return item.nullsFirst ? missingFirst : -missingFirst;
+        }
+        const result = compareValues(valueA, valueB);
+        if (result !== 0) {
+          return item.direction === 'desc' ? -result : result;
+        }
+      }
+      return 0;
+    });
+  }
+
+  const start = Math.max(0, plan.offset);
+  const end = plan.limit === null ? undefined : start + Math.max(0, plan.limit);
+
+  return results.slice(start, end).map(result => result.output);
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { executeProviderQuery } from './dataProcessor';
+import { createMockProvider } from './queryProviders';
+
+describe('executeProviderQuery', () => {
+  const tables = {
+    sales: [
+      { region: 'North', amount: 10 },
+      { region: 'South', amount: 20 },
+      { region: 'North', amount: 5 }
+    ],
+    regions: [{ region: 'North', manager: 'Ada' }]
+  };
+
+  it('runs the plan a provider returns and shows its SQL', async () => {
+    const provider = createMockProvider({
+      'total by region': 'SELECT region, SUM(amount) AS total FROM sales GROUP BY region ORDER BY total DESC'
+    });
+    const result = await executeProviderQuery(tables, 'sales', '  Total BY region ', provider);
+
+    expect(result.error).toBeUndefined();
+    expect(result.data).toEqual([{ region: 'South', total: 20 }, { region: 'North', total: 15 }]);
+    expect(result.sql).toContain('SUM("amount") AS "total"');
+  });
+
+  it('describes the active table and the other tables to the provider', async () => {
+    const provider = createMockProvider({ everything: 'SELECT * FROM sales' });
+    await executeProviderQuery(tables, 'sales', 'everything', provider);
+
+    const [request] = provider.requests;
+    expect(request.table).toBe('sales');
+    expect(request.schema.columns.map(column => [column.name, column.type]))
+      .toEqual([['region', 'text'], ['amount', 'numeric']]);
+    expect(request.schema.related.map(table => table.table)).toEqual(['regions']);
+    expect(request.schema.joinHints).toEqual([{ table: 'regions', leftColumn: 'region', rightColumn: 'region' }]);
+  });
+
+  it('resolves "data" and differently cased table names to workspace tables', async () => {
+    const provider = createMockProvider({
+      first: 'SELECT amount FROM data LIMIT 1',
+      joined: 'SELECT s.amount, r.manager FROM SALES s JOIN Regions r ON s.region = r.region'
+    });
+
+    expect((await executeProviderQuery(tables, 'sales', 'first', provider)).data).toEqual([{ amount: 10 }]);
+    expect((await executeProviderQuery(tables, 'sales', 'joined', provider)).data)
+      .toEqual([{ amount: 10, manager: 'Ada' }, { amount: 5, manager: 'Ada' }]);
+  });
+
+  it.each([
+    ['SELECT price FROM sales', 'Unknown column "price"'],
+    ['SELECT * FROM customers', 'Unknown table "customers"'],
+    ['SELECT * FROM sales JOIN sales ON sales.region = sales.region', 'appears twice'],
+    ['SELECT region FROM sales GROUP BY region HAVING SUM(cost) > 1', 'Unknown column "cost"']
+  ])('rejects the plan of %j before running it', async (sql, message) => {
+    const result = await executeProviderQuery(tables, 'sales', 'question', createMockProvider({ question: sql }));
+
+    expect(result.data).toEqual([]);
+    expect(result.error).toContain('The generated query is not valid for this data');
+    expect(result.error).toContain(message);
+  });
+
+  it('reports a provider that cannot answer', async () => {
+    const result = await executeProviderQuery(tables, 'sales', 'unknown', createMockProvider({}));
+    expect(result.error).toBe('The mock provider has no answer for "unknown"');
+  });
+});
@@ -0,0 +1,283 @@
+import { analyzeData, DataRow, DataStats } from './dataProcessor';
+import { buildQueryPlan } from './nlQuery';
+import { DEFAULT_TABLE, QueryPlan, Scalar, TableSet } from './queryPlan';
+import { SCALAR_FUNCTIONS } from './sqlFunctions';
+import { parseSQL, SqlSyntaxError } from './sqlParser';
+import { suggestJoinKeys } from './workspace';
+
+// Pluggable question-to-query translation. A provider gets the question and a
+// description of the tables and answers with a QueryPlan; executing that plan
+// (after validating it against the real columns) is left to the caller, so
+// every provider's output goes through the same checks and the same executor.
+
+export type SchemaColumnType = 'numeric' | 'date' | 'text';
+
+export interface SchemaColumn {
+  name: string;
+  type: SchemaColumnType;
+  // A few distinct values, so a model can match "in the north" to 'North'.
+  examples: Scalar[];
+}
+
+export interface TableSchema {
+  table: string;
+  rowCount: number;
+  columns: SchemaColumn[];
+}
+
+export interface JoinHint {
+  table: string;
+  leftColumn: string;
+  rightColumn: string;
+}
+
+// The active table, plus the other workspace tables a question may join.
+export interface QuerySchema extends TableSchema {
+  related: TableSchema[];
+  joinHints: JoinHint[];
+}
+
+export interface TranslationRequest {
+  question: string;
+  schema: QuerySchema;
+  table: string;
+  // Local providers may look at the rows; remote ones only ever see the schema.
+  data: DataRow[];
+  stats: DataStats;
+  tables: TableSet;
+}
+
+export interface StructuredQuery {
+  plan: QueryPlan;
+  explanation?: string;
+}
+
+export interface QueryProvider {
+  id: string;
+  name: string;
+  translate: (request: TranslationRequest) => Promise<StructuredQuery>;
+}
+
+const EXAMPLE_VALUES = 5;
+
+export const describeSchema = (data: DataRow[], stats: DataStats, table: string = DEFAULT_TABLE): TableSchema => {
+  const columns = Object.keys(data[0] || {});
+
+  return {
+    table,
+    rowCount: stats.totalRows,
+    columns: columns.map(name => {
+      const type: SchemaColumnType = stats.numericColumns.includes(name)
+        ? 'numeric'
+        : stats.dateColumns.includes(name) ? 'date' : 'text';
+
+      const examples: Scalar[] = [];
+      for (const row of data) {
+        const value = row[name];
+        if (value === null || value === undefined || value === '' || examples.includes(value)) continue;
+        examples.push(value);
+        if (examples.length === EXAMPLE_VALUES) break;
+      }
+
+      return { name, type, examples };
+    })
+  };
+};
+
+export const describeWorkspace = (tables: TableSet, activeTable: string): QuerySchema => {
+  const active = tables[activeTable] || [];
+  const activeStats = analyzeData(active);
+  const others = Object.keys(tables).filter(name => name !== activeTable);
+
+  const related = others.map(name => describeSchema(tables[name], analyzeData(tables[name]), name));
+  const joinHints = others.flatMap(name => {
+    const [best] = suggestJoinKeys(
+      { name: activeTable, filename: activeTable, data: active, stats: activeStats },
+      { name, filename: name, data: tables[name], stats: analyzeData(tables[name]) }
+    );
+    return best ? [{ table: name, leftColumn: best.leftColumn, rightColumn: best.rightColumn }] : [];
+  });
+
+  return { ...describeSchema(active, activeStats, activeTable), related, joinHints };
+};
+
+/** The built-in keyword engine; needs no network and sees the actual rows. */
+export const createHeuristicProvider = (): QueryProvider => ({
+  id: 'heuristic',
+  name: 'Built-in (keyword matching)',
+  translate: async ({ question, data, stats, table, tables }) => ({
+    plan: buildQueryPlan(question, data, stats, { table, tables })
+  })
+});
+
+const normalizeQuestion = (question: string): string => question.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export interface MockQueryProvider extends QueryProvider {
+  // Every request received, in order, for assertions.
+  requests: TranslationRequest[];
+}
+
+/**
+ * A deterministic provider for tests: answers each known question with fixed
+ * SQL (matched case- and whitespace-insensitively) and rejects anything else.
+ */
+export const createMockProvider = (responses: Record<string, string>): MockQueryProvider => {
+  const answers = new Map(Object.entries(responses).map(([question, sql]) => [normalizeQuestion(question), sql]));
+  const requests: TranslationRequest[] = [];
+
+  return {
+    id: 'mock',
+    name: 'Mock',
+    requests,
+    translate: async request => {
+      requests.push(request);
+      const sql = answers.get(normalizeQuestion(request.question));
+      if (sql === undefined) {
+        throw new Error(`The mock provider has no answer for "${request.question}"`);
+      }
+      return { plan: parseSQL(sql), explanation: 'Fixed response' };
+    }
+  };
+};
+
+export interface OpenAICompatibleConfig {
+  // e.g. https://api.openai.com/v1 or http://localhost:11434/v1
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  temperature?: number;
+}
+
+const describeColumns = (table: TableSchema): string =>
+  table.columns
+    .map(column => {
+      const examples = column.examples.length > 0
+        ? ` e.g. ${column.examples.map(value => JSON.stringify(value)).join(', ')}`
+        : '';
+      return `- "${column.name}" (${column.type})${examples}`;
+    })
+    .join('\n');
+
+const buildSystemPrompt = (schema: QuerySchema): string => {
+  const related = schema.related.flatMap(table => [
+    '',
+    `Table "${table.table}" (${table.rowCount} rows) can be joined:`,
+    describeColumns(table)
+  ]);
+  const joinHints = schema.joinHints.map(
+    hint => `- "${schema.table}"."${hint.leftColumn}" = "${hint.table}"."${hint.rightColumn}"`
+  );
+
+  return [
+    'You translate questions about tabular data into one SQL SELECT statement.',
+    `Questions are about table "${schema.table}" (${schema.rowCount} rows) with these columns:`,
+    describeColumns(schema),
+    ...related,
+    ...(joinHints.length > 0 ? ['', 'Likely join keys:', ...joinHints] : []),
+    '',
+    'Rules:',
+    '- Use only the tables and columns listed above; double-quote identifiers.',
+    '- Supported: SELECT [DISTINCT], WHERE, GROUP BY, HAVING, ORDER BY, LIMIT, OFFSET, CASE, CAST,',
+    '  IN, BETWEEN, LIKE, ILIKE, IS NULL and the aggregates COUNT, SUM, AVG, MIN, MAX, MEDIAN.',
+    `- Other functions available: ${Object.keys(SCALAR_FUNCTIONS).join(', ')}.`,
+    '- INNER JOIN and LEFT JOIN with an ON condition are supported; qualify columns that exist in several tables.',
+    '- No subqueries, window functions or CTEs.',
+    'Answer with JSON only: {"sql": "<statement>", "explanation": "<one sentence>"}'
+  ].join('\n');
+};
+
+// Models do not always follow the JSON instruction, so also accept a fenced
+// SQL block or a bare SELECT statement.
+const extractSQL = (content: string): { sql: string; explanation?: string } => {
+  const json = content.match(/\{[\s\S]*\}/);
+  if (json) {
+    try {
+      const parsed = JSON.parse(json[0]);
+      if (typeof parsed.sql === 'string') {
+        return { sql: parsed.sql, explanation: typeof parsed.explanation === 'string' ? parsed.explanation : undefined };
+      }
+    } catch {
+      // Not JSON after all; fall through to the other formats.
+    }
+  }
+
+  const fenced = content.match(/```(?:sql)?\s*([\s\S]*?)```/i);
+  if (fenced) return { sql: fenced[1].trim() };
+
+  const select = content.match(/\bselect\b[\s\S]*/i);
+  if (select) return { sql: select[0].trim() };
+
+  throw new Error('The model did not return a SQL query');
+};
+
+/**
+ * Talks to any service implementing the OpenAI chat completions API. Only the
+ * question and the schema description (with a few example values per column)
+ * leave the browser.
+ */
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): QueryProvider => ({
+  id: 'openai-compatible',
+  name: `OpenAI-compatible (${config.model})`,
+  translate: async ({ question, schema }) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) {
+      headers.Authorization = `Bearer ${config.apiKey}`;
+    }
+
+    const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: config.model,
+        temperature: config.temperature ?? 0,
+        messages: [
+          { role: 'system', content: buildSystemPrompt(schema) },
+          { role: 'user', content: question }
+        ]
+      })
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`Model request failed (${response.status} ${response.statusText})${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+    }
+
+    const body = await response.json();
+    const content = body?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error('The model response did not contain a message');
+    }
+
+    const { sql, explanation } = extractSQL(content);
+    try {
+      return { plan: parseSQL(sql), explanation };
+    } catch (error) {
+      if (error instanceof SqlSyntaxError) {
+        throw new Error(`The model returned SQL that could not be parsed: ${error.message}\n${sql}`);
+      }
+      throw error;
+    }
+  }
+});
+
+export type ProviderKind = 'heuristic' | 'openai-compatible';
+
+// What it takes to recreate a provider, saved with every question it
+// translated. API keys are never part of it.
+export interface ProviderSettings {
+  kind: ProviderKind;
+  // Only for OpenAI-compatible services.
+  model?: string;
+  baseUrl?: string;
+}
+
+/** The provider described by `settings`; `apiKey` is only sent to OpenAI-compatible services. */
+export const providerFromSettings = (settings: ProviderSettings, apiKey?: string): QueryProvider => (
+  settings.kind === 'openai-compatible'
+    ? createOpenAICompatibleProvider({ baseUrl: settings.baseUrl, model: settings.model, apiKey: apiKey || undefined })
+    : createHeuristicProvider()
+);
+
+/** Where questions translated with `settings` are sent, or null when they stay in the browser. */
+export const providerEndpoint = (settings: ProviderSettings): string | null =>
+  (settings.kind === 'openai-compatible' ? settings.baseUrl.replace(/\/+$/, '') : null);
@@ -0,0 +1,224 @@
+import { columnarRows, createColumnarBuilder, getColumnarTable } from './columnar';
+import { DATE_FORMATS, DateFormat, parseDate } from './csvDetect';
+import { ColumnRole, DataRow, DataStats, declareStats } from './dataProcessor';
+import { ColumnType, matchesType, parseDuration, parseMonthNameDate } from './typeInference';
+import type { WorkspaceTable } from './workspace';
+
+// Column types set by hand. Overridden columns are cast from the rows as
+// imported, which the table keeps so an override can be changed or undone;
+// cells that cannot be cast are left empty and reported. The table's stats
+// are declared for the cast rows, so queries use the chosen types.
+
+export interface ColumnOverride {
+  type: ColumnType;
+  // Date format to read dates with ('DD/MM/YYYY'), otherwise how values are shown.
+  format: string;
+  role: ColumnRole;
+}
+
+export interface CastFailure {
+  count: number;
+  // The first few cells that failed: row index and original value.
+  examples: { row: number; value: string }[];
+}
+
+const FAILURE_EXAMPLES = 20;
+
+const NUMERIC_TYPES: ColumnType[] = ['integer', 'decimal', 'currency', 'percentage', 'latitude', 'longitude', 'duration'];
+
+export const castKind = (type: ColumnType): 'numeric' | 'date' | 'text' => {
+  if (type === 'date' || type === 'datetime') return 'date';
+  return NUMERIC_TYPES.includes(type) ? 'numeric' : 'text';
+};
+
+export const defaultRole = (type: ColumnType): ColumnRole =>
+  castKind(type) === 'numeric' && type !== 'latitude' && type !== 'longitude' ? 'measure' : 'dimension';
+
+// Currency symbols and codes, percent signs, grouping and spaces are dropped;
+// "(12.50)" is negative.
+const parseNumber = (raw: string): number | null => {
+  const negative = /^\(.*\)$/.test(raw);
+  const stripped = raw
+    .replace(/^\(|\)$/g, '')
+    .replace(/[A-Za-z]{3}$|^[A-Za-z]{3}|[$€£¥₹₩₽₺₪฿%\s,]/g, '');
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)$/.test(stripped)) return null;
+  const value = Number(stripped);
+  return negative ? -value : value;
+};
+
+const parseDateValue = (raw: string, format: string, withTime: boolean): string | null => {
+  // Inferred formats for date-times carry a time part ('DD/MM/YYYY HH:MM').
+  const dateFormat = format.split(' ')[0] as DateFormat;
+  const formats = DATE_FORMATS.includes(dateFormat) && dateFormat !== 'none'
+    ? [dateFormat]
+    : DATE_FORMATS.filter(candidate => candidate !== 'none');
+  for (const candidate of formats) {
+    const iso = parseDate(raw, candidate);
+    if (iso) return withTime || !iso.includes('T') ? iso : iso.slice(0, 10);
+  }
+  if (/^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/.test(raw) && !isNaN(Date.parse(raw))) {
+    return withTime ? raw.replace(' ', 'T') : raw.slice(0, 10);
+  }
+  return parseMonthNameDate(raw);
+};
+
+const BOOLEAN_VALUES: Record<string, boolean> = {
+  true: true, yes: true, y: true, t: true, '1': true,
+  false: false, no: false, n: false, f: false, '0': false
+};
+
+/**
+ * Casts one value to `type`: numbers for numeric types (durations in seconds),
+ * ISO strings for dates, 'true'/'false' for booleans, text otherwise. Returns
+ * null when the value cannot be cast; empty values stay empty.
+ */
+export const castValue = (value: unknown, override: ColumnOverride, column = ''): string | number | null => {
+  if (value === null || value === undefined || value === '') return '';
+  const raw = String(value).trim();
+
+  switch (override.type) {
+    case 'integer': {
+      const number = typeof value === 'number' ? value : parseNumber(raw);
+      return number !== null && Number.isInteger(number) ? number : null;
+    }
+    case 'decimal':
+    case 'currency':
+    case 'percentage':
+      return typeof value === 'number' ? value : parseNumber(raw);
+    case 'latitude':
+    case 'longitude': {
+      const number = typeof value === 'number' ? value : parseNumber(raw);
+      const limit = override.type === 'latitude' ? 90 : 180;
+      return number !== null && Math.abs(number) <= limit ? number : null;
+    }
+    case 'duration':
+      return typeof value === 'number' ? value : parseDuration(raw);
+    case 'date':
+    case 'datetime':
+      return parseDateValue(raw, override.format, override.type === 'datetime');
+    case 'boolean': {
+      const flag = BOOLEAN_VALUES[raw.toLowerCase()];
+      return flag === undefined ? null : String(flag);
+    }
+    default:
+      return matchesType(raw, override.type, column) ? raw : null;
+  }
+};
+
+/**
+ * Casts the overridden columns of `rows`. Columnar rows stay columnar and share
+ * the vectors of columns that were not overridden.
+ */
+export const castColumns = (
+  rows: DataRow[],
+  overrides: Record<string, ColumnOverride>
+): { data: DataRow[]; failures: Record<string, CastFailure> } => {
+  const columns = Object.keys(rows[0] || {});
+  const cast = columns.filter(column => overrides[column]);
+  const failures: Record<string, CastFailure> = {};
+  if (cast.length === 0) return { data: rows, failures };
+
+  const builder = createColumnarBuilder(cast, cast.map(column => castKind(overrides[column].type) !== 'numeric'));
+  rows.forEach((row, index) => {
+    builder.append(cast.map(column => {
+      const value = castValue(row[column], overrides[column], column);
+      if (value !== null) return String(value);
+      const failure = failures[column] || (failures[column] = { count: 0, examples: [] });
+      failure.count++;
+      if (failure.examples.length < FAILURE_EXAMPLES) failure.examples.push({ row: index, value: String(row[column]) });
+      return '';
+    }));
+  });
+  const castTable = builder.finish();
+
+  const table = getColumnarTable(rows);
+  if (table) {
+    const vectors = table.vectors.map((vector, index) => {
+      const position = cast.indexOf(table.columns[index]);
+      return position === -1 ? vector : castTable.vectors[position];
+    });
+    return { data: columnarRows({ ...table, vectors }), failures };
+  }
+
+  const castRows = columnarRows(castTable);
+  const data = rows.map((row, index) => {
+    const copy = { ...row };
+    cast.forEach(column => {
+      copy[column] = castRows[index][column];
+    });
+    return copy;
+  });
+  return { data, failures };
+};
+
+/** `stats` with the overridden columns' types, kinds and roles replaced. */
+export const overrideStats = (
+  stats: DataStats,
+  columns: string[],
+  overrides: Record<string, ColumnOverride>,
+  failures: Record<string, CastFailure>
+): DataStats => {
+  const kindOf = (column: string): string => {
+    if (overrides[column]) return castKind(overrides[column].type);
+    return stats.numericColumns.includes(column) ? 'numeric' : stats.dateColumns.includes(column) ? 'date' : 'text';
+  };
+  const named = (kind: string) => columns.filter(column => kindOf(column) === kind);
+
+  const columnTypes = { ...stats.columnTypes };
+  const columnRoles = { ...stats.columnRoles };
+  Object.entries(overrides).forEach(([column, override]) => {
+    columnTypes[column] = {
+      type: override.type,
+      confidence: 1,
+      format: override.format,
+      mismatches: failures[column]?.count || 0
+    };
+    columnRoles[column] = override.role;
+  });
+
+  return {
+    ...stats,
+    numericColumns: named('numeric'),
+    textColumns: named('text'),
+    dateColumns: named('date'),
+    columnTypes,
+    columnRoles
+  };
+};
+
+/**
+ * The table with `overrides` applied to the rows it was imported with.
+ * `baseStats` are the stats of those rows before any override.
+ */
+export const applySchemaOverrides = (
+  table: WorkspaceTable,
+  overrides: Record<string, ColumnOverride>,
+  baseStats: DataStats = table.stats
+): WorkspaceTable => {
+  const source = table.sourceData || table.data;
+  if (Object.keys(overrides).length === 0) {
+    return { ...table, data: source, stats: baseStats, sourceData: undefined, overrides: undefined, castFailures: undefined };
+  }
+
+  const { data, failures } = castColumns(source, overrides);
+  const stats = overrideStats(baseStats, Object.keys(source[0] || {}), overrides, failures);
+  return {
+    ...table,
+    data: declareStats(data, stats),
+    stats,
+    sourceData: source,
+    overrides,
+    castFailures: failures
+  };
+};
+
+/** The table with a column shown under `displayName` (its label when blank). */
+export const renameColumn = (table: WorkspaceTable, column: string, displayName: string): WorkspaceTable => {
+  const columns = table.columns || Object.keys(table.data[0] || {}).map(name => ({ name, label: name, displayName: name }));
+  return {
+    ...table,
+    columns: columns.map(meta => (
+      meta.name === column ? { ...meta, displayName: displayName.trim() || meta.label || meta.name } : meta
+    ))
+  };
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { callScalarFunction, extractDatePart, truncateDate } from './sqlFunctions';
+
+describe('callScalarFunction', () => {
+  it('applies text and number functions', () => {
+    expect(callScalarFunction('UPPER', ['ab'])).toBe('AB');
+    expect(callScalarFunction('SUBSTR', ['hello', 2, 3])).toBe('ell');
+    expect(callScalarFunction('ROUND', [2.345, 2])).toBe(2.35);
+  });
+
+  it('passes missing values through, except COALESCE', () => {
+    expect(callScalarFunction('LENGTH', [null])).toBeNull();
+    expect(callScalarFunction('COALESCE', [null, '', 3])).toBe(3);
+  });
+});
+
+describe('date functions', () => {
+  it('extracts parts and truncates to a unit', () => {
+    expect(extractDatePart('year', '2024-03-15')).toBe(2024);
+    expect(extractDatePart('quarter', '2024-08-15')).toBe(3);
+    expect(truncateDate('month', '2024-03-15')).toBe('2024-03-01');
+  });
+
+  it('returns null for text that is not a date', () => {
+    expect(extractDatePart('year', 'soon')).toBeNull();
+  });
+});
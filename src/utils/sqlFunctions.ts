@@ -0,0 +1,308 @@
+import { Scalar } from './queryPlan';
+
+// Scalar functions available to SQL queries. Names are upper-case; the parser
+// checks arity against this table before a plan ever reaches the executor.
+
+export interface ScalarFunction {
+  minArgs: number;
+  maxArgs: number;
+  // Most functions return NULL as soon as one argument is NULL; the few that
+  // handle NULL themselves (COALESCE, CONCAT, ...) set this flag.
+  acceptsNull?: boolean;
+  evaluate: (args: Scalar[]) => Scalar;
+}
+
+export type DatePart = 'year' | 'quarter' | 'month' | 'week' | 'day' | 'dow' | 'doy' | 'hour' | 'minute' | 'second' | 'epoch';
+
+export const DATE_PARTS: DatePart[] = ['year', 'quarter', 'month', 'week', 'day', 'dow', 'doy', 'hour', 'minute', 'second', 'epoch'];
+
+const isNull = (value: Scalar): boolean => value === null || value === undefined || value === '';
+
+const pad = (value: number, length: number = 2): string => String(value).padStart(length, '0');
+
+/**
+ * Parses a cell value as a date. ISO dates and timestamps without a zone are
+ * read as UTC so results never depend on the viewer's time zone.
+ */
+export const toDate = (value: Scalar): Date | null => {
+  if (isNull(value) || typeof value === 'boolean') return null;
+  if (typeof value === 'number') return new Date(value);
+
+  const text = String(value).trim();
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?)?$/);
+  if (iso) {
+    const [, year, month, day, hour = '0', minute = '0', second = '0', fraction = '0'] = iso;
+    const date = new Date(Date.UTC(
+      Number(year), Number(month) - 1, Number(day),
+      Number(hour), Number(minute), Number(second), Number(fraction.slice(0, 3).padEnd(3, '0'))
+    ));
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const parsed = new Date(text);
+  return isNaN(parsed.getTime()) ? null : parsed;
+};
+
+export const formatDate = (date: Date): string =>
+  `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+
+export const formatTimestamp = (date: Date): string =>
+  `${formatDate(date)} ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+
+// ISO-8601 week number: weeks start on Monday and week 1 holds January 4th.
+const isoWeek = (date: Date): number => {
+  // Move to the Thursday of the same week; its year owns the week.
+  const thursday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  thursday.setUTCDate(thursday.getUTCDate() - ((thursday.getUTCDay() + 6) % 7) + 3);
+  const firstThursday = new Date(Date.UTC(thursday.getUTCFullYear(), 0, 4));
+  firstThursday.setUTCDate(firstThursday.getUTCDate() - ((firstThursday.getUTCDay() + 6) % 7) + 3);
+  return 1 + Math.round((thursday.getTime() - firstThursday.getTime()) / (7 * 86400000));
+};
+
+const dayOfYear = (date: Date): number =>
+  Math.floor((Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()) - Date.UTC(date.getUTCFullYear(), 0, 1)) / 86400000) + 1;
+
+export const extractDatePart = (part: string, value: Scalar): Scalar => {
+  const date = toDate(value);
+  if (!date) return null;
+
+  switch (part.toLowerCase()) {
+    case 'year': return date.getUTCFullYear();
+    case 'quarter': return Math.floor(date.getUTCMonth() / 3) + 1;
+    case 'month': return date.getUTCMonth() + 1;
+    case 'week': return isoWeek(date);
+    case 'day': return date.getUTCDate();
+    case 'dow': return date.getUTCDay();
+    case 'doy': return dayOfYear(date);
+    case 'hour': return date.getUTCHours();
+    case 'minute': return date.getUTCMinutes();
+    case 'second': return date.getUTCSeconds();
+    case 'epoch': return Math.floor(date.getTime() / 1000);
+    default:
+      throw new Error(`Unsupported date part "${part}"`);
+  }
+};
+
+/** Truncates a date to the start of its year, quarter, month, week (Monday), day, hour or minute. */
+export const truncateDate = (unit: string, value: Scalar): Scalar => {
+  const date = toDate(value);
+  if (!date) return null;
+
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  switch (unit.toLowerCase()) {
+    case 'year':
+      return formatDate(new Date(Date.UTC(year, 0, 1)));
+    case 'quarter':
+      return formatDate(new Date(Date.UTC(year, month - (month % 3), 1)));
+    case 'month':
+      return formatDate(new Date(Date.UTC(year, month, 1)));
+    case 'week': {
+      const monday = new Date(Date.UTC(year, month, date.getUTCDate()));
+      monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+      return formatDate(monday);
+    }
+    case 'day':
+      return formatDate(date);
+    case 'hour':
+      return formatTimestamp(new Date(Date.UTC(year, month, date.getUTCDate(), date.getUTCHours())));
+    case 'minute':
+      return formatTimestamp(new Date(Date.UTC(year, month, date.getUTCDate(), date.getUTCHours(), date.getUTCMinutes())));
+    default:
+      throw new Error(`Unsupported DATE_TRUNC unit "${unit}"`);
+  }
+};
+
+const dateDiff = (unit: string, start: Scalar, end: Scalar): Scalar => {
+  const from = toDate(start);
+  const to = toDate(end);
+  if (!from || !to) return null;
+
+  const milliseconds = to.getTime() - from.getTime();
+  switch (unit.toLowerCase()) {
+    case 'year':
+      return to.getUTCFullYear() - from.getUTCFullYear();
+    case 'quarter':
+      return (to.getUTCFullYear() - from.getUTCFullYear()) * 4 + Math.floor(to.getUTCMonth() / 3) - Math.floor(from.getUTCMonth() / 3);
+    case 'month':
+      return (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + to.getUTCMonth() - from.getUTCMonth();
+    case 'week':
+      return Math.trunc(milliseconds / (7 * 86400000));
+    case 'day':
+      return Math.trunc(milliseconds / 86400000);
+    case 'hour':
+      return Math.trunc(milliseconds / 3600000);
+    case 'minute':
+      return Math.trunc(milliseconds / 60000);
+    case 'second':
+      return Math.trunc(milliseconds / 1000);
+    default:
+      throw new Error(`Unsupported DATE_DIFF unit "${unit}"`);
+  }
+};
+
+const strftime = (format: string, value: Scalar): Scalar => {
+  const date = toDate(value);
+  if (!date) return null;
+
+  return format.replace(/%([YmdHMSjwW%])/g, (_, code: string) => {
+    switch (code) {
+      case 'Y': return String(date.getUTCFullYear());
+      case 'm': return pad(date.getUTCMonth() + 1);
+      case 'd': return pad(date.getUTCDate());
+      case 'H': return pad(date.getUTCHours());
+      case 'M': return pad(date.getUTCMinutes());
+      case 'S': return pad(date.getUTCSeconds());
+      case 'j': return pad(dayOfYear(date), 3);
+      case 'w': return String(date.getUTCDay());
+      case 'W': return pad(isoWeek(date));
+      default: return '%';
+    }
+  });
+};
+
+const num = (value: Scalar): number => Number(value);
+
+const str = (value: Scalar): string => String(value);
+
+const numeric = (fn: (...values: number[]) => number) => (args: Scalar[]): Scalar => {
+  const result = fn(...args.map(num));
+  return Number.isFinite(result) ? result : null;
+};
+
+export const SCALAR_FUNCTIONS: Record<string, ScalarFunction> = {
+  // Strings
+  UPPER: { minArgs: 1, maxArgs: 1, evaluate: ([value]) => str(value).toUpperCase() },
+  LOWER: { minArgs: 1, maxArgs: 1, evaluate: ([value]) => str(value).toLowerCase() },
+  LENGTH: { minArgs: 1, maxArgs: 1, evaluate: ([value]) => str(value).length },
+  TRIM: { minArgs: 1, maxArgs: 1, evaluate: ([value]) => str(value).trim() },
+  LTRIM: { minArgs: 1, maxArgs: 1, evaluate: ([value]) => str(value).trimStart() },
+  RTRIM: { minArgs: 1, maxArgs: 1, evaluate: ([value]) => str(value).trimEnd() },
+  REVERSE: { minArgs: 1, maxArgs: 1, evaluate: ([value]) => Array.from(str(value)).reverse().join('') },
+  SUBSTR: {
+    minArgs: 2,
+    maxArgs: 3,
+    // SQL positions are 1-based.
+    evaluate: ([value, start, length]) => {
+      const text = str(value);
+      const from = Math.max(0, num(start) - 1);
+      return length === undefined ? text.slice(from) : text.slice(from, from + Math.max(0, num(length)));
+    }
+  },
+  LEFT: { minArgs: 2, maxArgs: 2, evaluate: ([value, length]) => str(value).slice(0, Math.max(0, num(length))) },
+  RIGHT: {
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([value, length]) => {
+      const count = Math.max(0, num(length));
+      return count === 0 ? '' : str(value).slice(-count);
+    }
+  },
+  REPLACE: { minArgs: 3, maxArgs: 3, evaluate: ([value, search, replacement]) => str(value).split(str(search)).join(str(replacement)) },
+  STRPOS: { minArgs: 2, maxArgs: 2, evaluate: ([value, search]) => str(value).indexOf(str(search)) + 1 },
+  SPLIT_PART: {
+    minArgs: 3,
+    maxArgs: 3,
+    evaluate: ([value, delimiter, index]) => str(value).split(str(delimiter))[num(index) - 1] ?? ''
+  },
+  CONCAT: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    acceptsNull: true,
+    evaluate: args => args.filter(arg => !isNull(arg)).map(str).join('')
+  },
+
+  // Numbers
+  ABS: { minArgs: 1, maxArgs: 1, evaluate: numeric(Math.abs) },
+  CEIL: { minArgs: 1, maxArgs: 1, evaluate: numeric(Math.ceil) },
+  FLOOR: { minArgs: 1, maxArgs: 1, evaluate: numeric(Math.floor) },
+  SQRT: { minArgs: 1, maxArgs: 1, evaluate: numeric(Math.sqrt) },
+  EXP: { minArgs: 1, maxArgs: 1, evaluate: numeric(Math.exp) },
+  LN: { minArgs: 1, maxArgs: 1, evaluate: numeric(Math.log) },
+  LOG10: { minArgs: 1, maxArgs: 1, evaluate: numeric(Math.log10) },
+  SIGN: { minArgs: 1, maxArgs: 1, evaluate: numeric(Math.sign) },
+  POWER: { minArgs: 2, maxArgs: 2, evaluate: numeric(Math.pow) },
+  MOD: { minArgs: 2, maxArgs: 2, evaluate: numeric((a, b) => a % b) },
+  ROUND: {
+    minArgs: 1,
+    maxArgs: 2,
+    evaluate: ([value, digits]) => {
+      const factor = Math.pow(10, digits === undefined ? 0 : num(digits));
+      const result = Math.round(num(value) * factor) / factor;
+      return Number.isFinite(result) ? result : null;
+    }
+  },
+
+  // NULL handling and comparisons
+  COALESCE: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    acceptsNull: true,
+    evaluate: args => args.find(arg => !isNull(arg)) ?? null
+  },
+  NULLIF: {
+    minArgs: 2,
+    maxArgs: 2,
+    acceptsNull: true,
+    evaluate: ([value, other]) => (!isNull(value) && !isNull(other) && str(value) === str(other) ? null : value)
+  },
+  GREATEST: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    evaluate: args => args.reduce((best, arg) => (num(arg) > num(best) ? arg : best))
+  },
+  LEAST: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    evaluate: args => args.reduce((best, arg) => (num(arg) < num(best) ? arg : best))
+  },
+
+  // Dates
+  DATE: {
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([value]) => {
+      const date = toDate(value);
+      return date ? formatDate(date) : null;
+    }
+  },
+  YEAR: { minArgs: 1, maxArgs: 1, evaluate: ([value]) => extractDatePart('year', value) },
+  QUARTER: { minArgs: 1, maxArgs: 1, evaluate: ([value]) => extractDatePart('quarter', value) },
+  MONTH: { minArgs: 1, maxArgs: 1, evaluate: ([value]) => extractDatePart('month', value) },
+  WEEK: { minArgs: 1, maxArgs: 1, evaluate: ([value]) => extractDatePart('week', value) },
+  DAY: { minArgs: 1, maxArgs: 1, evaluate: ([value]) => extractDatePart('day', value) },
+  DAYOFWEEK: { minArgs: 1, maxArgs: 1, evaluate: ([value]) => extractDatePart('dow', value) },
+  HOUR: { minArgs: 1, maxArgs: 1, evaluate: ([value]) => extractDatePart('hour', value) },
+  MINUTE: { minArgs: 1, maxArgs: 1, evaluate: ([value]) => extractDatePart('minute', value) },
+  EXTRACT: { minArgs: 2, maxArgs: 2, evaluate: ([part, value]) => extractDatePart(str(part), value) },
+  DATE_TRUNC: { minArgs: 2, maxArgs: 2, evaluate: ([unit, value]) => truncateDate(str(unit), value) },
+  DATE_DIFF: { minArgs: 3, maxArgs: 3, evaluate: ([unit, start, end]) => dateDiff(str(unit), start, end) },
+  STRFTIME: { minArgs: 2, maxArgs: 2, evaluate: ([format, value]) => strftime(str(format), value) },
+  CURRENT_DATE: { minArgs: 0, maxArgs: 0, evaluate: () => formatDate(new Date()) },
+  CURRENT_TIMESTAMP: { minArgs: 0, maxArgs: 0, evaluate: () => formatTimestamp(new Date()) }
+};
+
+// Alternative spellings accepted by the parser, mapped to their canonical name.
+export const FUNCTION_ALIASES: Record<string, string> = {
+  SUBSTRING: 'SUBSTR',
+  LEN: 'LENGTH',
+  CHAR_LENGTH: 'LENGTH',
+  CEILING: 'CEIL',
+  POW: 'POWER',
+  IFNULL: 'COALESCE',
+  INSTR: 'STRPOS',
+  DATEDIFF: 'DATE_DIFF',
+  NOW: 'CURRENT_TIMESTAMP',
+  DAY_OF_WEEK: 'DAYOFWEEK'
+};
+
+export const callScalarFunction = (name: string, args: Scalar[]): Scalar => {
+  const definition = SCALAR_FUNCTIONS[name];
+  if (!definition) {
+    throw new Error(`Unknown function ${name}`);
+  }
+  if (!definition.acceptsNull && args.some(isNull)) {
+    return null;
+  }
+  return definition.evaluate(args);
+};
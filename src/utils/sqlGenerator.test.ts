@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { buildQueryPlan } from './nlQuery';
+import { executePlan } from './queryPlan';
+import { formatLiteral, planToSQL, quoteIdentifier } from './sqlGenerator';
+import { parseSQL } from './sqlParser';
+
+describe('planToSQL', () => {
+  const statements = [
+    'SELECT * FROM data',
+    'SELECT DISTINCT region FROM data WHERE price >= 10 AND (discount IS NULL OR discount < 0.5)',
+    "SELECT product, price * 2 AS doubled FROM data WHERE name LIKE '%it''s%' AND region NOT IN ('North', 'West')",
+    'SELECT region, COUNT(*) AS orders, AVG(price) AS average FROM data GROUP BY region HAVING COUNT(*) > 1 ORDER BY average DESC NULLS FIRST LIMIT 5 OFFSET 10',
+    'SELECT o.id, c.name FROM orders AS o LEFT JOIN customers AS c ON o.customer_id = c.id WHERE c.name IS NOT NULL',
+    "SELECT CASE WHEN price BETWEEN 1 AND 10 THEN 'low' ELSE 'high' END AS band, CAST(price AS integer) AS whole FROM data",
+    'SELECT "odd ""name""", -price AS negative FROM data ORDER BY 1'
+  ];
+
+  it.each(statements)('round-trips %s', sql => {
+    const plan = parseSQL(sql);
+    const generated = planToSQL(plan);
+    expect(parseSQL(generated)).toEqual(plan);
+    expect(planToSQL(parseSQL(generated))).toBe(generated);
+  });
+
+  it('shows the SQL of the plan that ran for a question', () => {
+    const data = [
+      { region: 'North', price: 10 },
+      { region: 'North', price: 30 },
+      { region: 'South', price: 5 }
+    ];
+    const plan = buildQueryPlan('average price by region', data);
+    expect(executePlan(data, parseSQL(planToSQL(plan)))).toEqual(executePlan(data, plan));
+  });
+
+  it('escapes identifiers and literals', () => {
+    expect(quoteIdentifier('say "hi"')).toBe('"say ""hi"""');
+    expect(formatLiteral("it's")).toBe("'it''s'");
+    expect(formatLiteral(null)).toBe('NULL');
+  });
+});
@@ -0,0 +1,228 @@
+import {
+  AggregateFunction,
+  CastType,
+  ComparisonOperator,
+  Expression,
+  QueryPlan,
+  Scalar,
+  SelectItem,
+  transformExpression
+} from './queryPlan';
+
+// Renders a QueryPlan as ANSI SQL. The displayed SQL is generated from the very
+// plan that produced the result rows, so the two can never disagree.
+
+const AGGREGATE_SQL: Record<AggregateFunction, string> = {
+  count: 'COUNT',
+  sum: 'SUM',
+  avg: 'AVG',
+  min: 'MIN',
+  max: 'MAX',
+  // Not ANSI, but understood by DuckDB, Oracle, Snowflake and others.
+  median: 'MEDIAN'
+};
+
+const COMPARISON_SQL: Record<ComparisonOperator, string> = {
+  '=': '=',
+  '!=': '<>',
+  '<': '<',
+  '<=': '<=',
+  '>': '>',
+  '>=': '>='
+};
+
+export const quoteIdentifier = (name: string): string => `"${name.replace(/"/g, '""')}"`;
+
+export const formatLiteral = (value: Scalar): string => {
+  if (value === null || value === undefined) return 'NULL';
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? String(value) : 'NULL';
+  }
+  return `'${String(value).replace(/'/g, "''")}'`;
+};
+
+const CAST_SQL: Record<CastType, string> = {
+  integer: 'INTEGER',
+  decimal: 'DECIMAL',
+  text: 'TEXT',
+  boolean: 'BOOLEAN',
+  date: 'DATE',
+  timestamp: 'TIMESTAMP'
+};
+
+// Binding strength of each node when rendered; a child that binds more loosely
+// than its parent is parenthesised.
+const precedence = (expression: Expression): number => {
+  switch (expression.type) {
+    case 'logical':
+      return expression.operator === 'or' ? 1 : 2;
+    case 'not':
+      return 3;
+    case 'comparison':
+    case 'between':
+    case 'like':
+    case 'in':
+    case 'isNull':
+      return 4;
+    case 'arithmetic':
+      if (expression.operator === '||') return 5;
+      return expression.operator === '+' || expression.operator === '-' ? 6 : 7;
+    case 'negate':
+      return 8;
+    default:
+      return 9;
+  }
+};
+
+/**
+ * Renders `child` inside a parent of the given precedence. Right-hand operands
+ * of the same precedence are parenthesised too, so a - (b - c) keeps its
+ * meaning.
+ */
+const operand = (child: Expression, parentPrecedence: number, rightSide: boolean = false): string => {
+  const sql = expressionToSQL(child);
+  const childPrecedence = precedence(child);
+  const needsParens = childPrecedence < parentPrecedence || (rightSide && childPrecedence === parentPrecedence);
+  return needsParens ? `(${sql})` : sql;
+};
+
+/**
+ * Renders one expression, adding only the parentheses needed to keep its
+ * meaning once the SQL is pasted into another database.
+ */
+export const expressionToSQL = (expression: Expression): string => {
+  const level = precedence(expression);
+
+  switch (expression.type) {
+    case 'column':
+      return expression.table
+        ? `${quoteIdentifier(expression.table)}.${quoteIdentifier(expression.name)}`
+        : quoteIdentifier(expression.name);
+    case 'literal':
+      return formatLiteral(expression.value);
+    case 'star':
+      return '*';
+    case 'comparison':
+      return `${operand(expression.left, level + 1)} ${COMPARISON_SQL[expression.operator]} ${operand(expression.right, level + 1)}`;
+    case 'logical':
+      return expression.operands
+        .map(child => operand(child, level + (child.type === 'logical' ? 1 : 0)))
+        .join(` ${expression.operator.toUpperCase()} `);
+    case 'not':
+      return `NOT ${operand(expression.operand, level + 1)}`;
+    case 'between':
+      return `${operand(expression.operand, level + 1)} ${expression.negated ? 'NOT ' : ''}BETWEEN ${operand(expression.low, level + 1)} AND ${operand(expression.high, level + 1)}`;
+    case 'like': {
+      // Case-insensitive matches lower-case both sides; ILIKE is not portable.
+      const target = expression.caseInsensitive
+        ? `LOWER(${expressionToSQL(expression.operand)})`
+        : operand(expression.operand, level + 1);
+      const pattern = expression.caseInsensitive ? expression.pattern.toLowerCase() : expression.pattern;
+      const escape = pattern.includes('\\') ? ` ESCAPE ${formatLiteral('\\')}` : '';
+      return `${target} ${expression.negated ? 'NOT ' : ''}LIKE ${formatLiteral(pattern)}${escape}`;
+    }
+    case 'in':
+      return `${operand(expression.operand, level + 1)} ${expression.negated ? 'NOT ' : ''}IN (${expression.values.map(expressionToSQL).join(', ')})`;
+    case 'isNull':
+      return `${operand(expression.operand, level + 1)} IS ${expression.negated ? 'NOT ' : ''}NULL`;
+    case 'arithmetic':
+      return `${operand(expression.left, level)} ${expression.operator} ${operand(expression.right, level, true)}`;
+    case 'negate':
+      return `-${operand(expression.operand, level)}`;
+    case 'function':
+      if (expression.name === 'EXTRACT' && expression.args[0].type === 'literal') {
+        return `EXTRACT(${String(expression.args[0].value).toUpperCase()} FROM ${expressionToSQL(expression.args[1])})`;
+      }
+      if (expression.args.length === 0 && expression.name.startsWith('CURRENT_')) {
+        return expression.name;
+      }
+      return `${expression.name}(${expression.args.map(expressionToSQL).join(', ')})`;
+    case 'case': {
+      const parts = ['CASE'];
+      if (expression.operand) parts.push(expressionToSQL(expression.operand));
+      expression.branches.forEach(branch => {
+        parts.push(`WHEN ${expressionToSQL(branch.when)} THEN ${expressionToSQL(branch.then)}`);
+      });
+      if (expression.otherwise) parts.push(`ELSE ${expressionToSQL(expression.otherwise)}`);
+      parts.push('END');
+      return parts.join(' ');
+    }
+    case 'cast':
+      return `CAST(${expressionToSQL(expression.operand)} AS ${CAST_SQL[expression.targetType]})`;
+    case 'aggregate':
+      if (!expression.argument) return `${AGGREGATE_SQL[expression.fn]}(*)`;
+      return `${AGGREGATE_SQL[expression.fn]}(${expression.distinct ? 'DISTINCT ' : ''}${expressionToSQL(expression.argument)})`;
+  }
+};
+
+const sameExpression = (a: Expression, b: Expression): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+// HAVING cannot portably refer to select aliases, so alias references are
+// replaced by the aliased expression before rendering.
+const inlineAliases = (expression: Expression, select: SelectItem[]): Expression =>
+  transformExpression(expression, node => {
+    if (node.type !== 'column' || node.table) return node;
+    const aliased = select.find(item => item.alias === node.name);
+    return aliased && aliased.expression.type !== 'column' ? aliased.expression : node;
+  });
+
+/**
+ * Generates the SQL for a plan, one clause per line. Identifiers are always
+ * double-quoted so reserved words and mixed-case names survive, and ORDER BY
+ * always spells out NULLS FIRST/LAST because databases disagree on the default.
+ */
+export const planToSQL = (plan: QueryPlan): string => {
+  const clauses: string[] = [];
+
+  const selectList = plan.select.length > 0
+    ? plan.select.map(item => {
+        const sql = expressionToSQL(item.expression);
+        return item.expression.type === 'star' || (item.expression.type === 'column' && item.expression.name === item.alias)
+          ? sql
+          : `${sql} AS ${quoteIdentifier(item.alias)}`;
+      }).join(', ')
+    : '*';
+
+  clauses.push(`SELECT ${plan.distinct ? 'DISTINCT ' : ''}${selectList}`);
+  const source = (table: string, alias: string | null) =>
+    alias && alias !== table ? `${quoteIdentifier(table)} AS ${quoteIdentifier(alias)}` : quoteIdentifier(table);
+
+  clauses.push(`FROM ${source(plan.from, plan.alias)}`);
+
+  plan.joins.forEach(join => {
+    clauses.push(`${join.type === 'left' ? 'LEFT' : 'INNER'} JOIN ${source(join.table, join.alias)} ON ${expressionToSQL(join.on)}`);
+  });
+
+  if (plan.where) {
+    clauses.push(`WHERE ${expressionToSQL(plan.where)}`);
+  }
+
+  if (plan.groupBy.length > 0) {
+    clauses.push(`GROUP BY ${plan.groupBy.map(expressionToSQL).join(', ')}`);
+  }
+
+  if (plan.having) {
+    clauses.push(`HAVING ${expressionToSQL(inlineAliases(plan.having, plan.select))}`);
+  }
+
+  if (plan.orderBy.length > 0) {
+    const items = plan.orderBy.map(item => {
+      // Prefer the select alias when ordering by something already selected.
+      const selected = plan.select.find(selectItem => sameExpression(selectItem.expression, item.expression));
+      const sql = selected ? quoteIdentifier(selected.alias) : expressionToSQL(item.expression);
+      return `${sql} ${item.direction.toUpperCase()} NULLS ${item.nullsFirst ? 'FIRST' : 'LAST'}`;
+    });
+    clauses.push(`ORDER BY ${items.join(', ')}`);
+  }
+
+  if (plan.limit !== null) {
+    clauses.push(`LIMIT ${plan.limit}`);
+  }
+
+  if (plan.offset > 0) {
+    clauses.push(`OFFSET ${plan.offset}`);
+  }
+
+  return clauses.join('\n');
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { executeSQLQuery } from './dataProcessor';
+import { parseSQL, SqlSyntaxError } from './sqlParser';
+
+const syntaxError = (sql: string): SqlSyntaxError => {
+  try {
+    parseSQL(sql);
+  } catch (error) {
+    if (error instanceof SqlSyntaxError) return error;
+    throw error;
+  }
+  throw new Error(`Expected "${sql}" to fail`);
+};
+
+describe('parseSQL', () => {
+  it('reads the clauses of a statement into a plan', () => {
+    const plan = parseSQL('SELECT region, SUM(sales) AS total FROM data WHERE price > 5 GROUP BY region LIMIT 3 OFFSET 1;');
+    expect(plan.select.map(item => item.alias)).toEqual(['region', 'total']);
+    expect(plan.where).toEqual({
+      type: 'comparison',
+      operator: '>',
+      left: { type: 'column', name: 'price' },
+      right: { type: 'literal', value: 5 }
+    });
+    expect(plan.groupBy).toEqual([{ type: 'column', name: 'region' }]);
+    expect([plan.limit, plan.offset]).toEqual([3, 1]);
+  });
+
+  it.each([
+    ['SELECT * FROM data WHERE price >', 'Unexpected end of input', 1, 33],
+    ['SELECT * FROM data; SELECT * FROM data', 'Unexpected "SELECT"', 1, 21],
+    ['SELECT * FROM data LIMIT -1', 'Expected a row count', 1, 26],
+    ['SELECT * FROM data LIMIT 1.5', 'Expected a row count', 1, 26],
+    ['SELECT * FROM data OFFSET -2', 'Expected a row offset', 1, 27],
+    ['SELECT * FROM data WHERE (price = 1', 'Expected ")"', 1, 36],
+    ["SELECT * FROM data WHERE name = 'x", 'Unterminated string literal', 1, 33],
+    ['SELECT a,, b FROM data', 'Unexpected ","', 1, 10],
+    ['SELECT SUM(SUM(a)) FROM data', 'Aggregate functions cannot be nested', 1, 12],
+    ['SELECT * FROM data x JOIN other ON y.id = x.id', 'Unknown table or alias "y"', 1, 36],
+    ['DELETE FROM data', 'Expected SELECT', 1, 1],
+    ['SELECT *\nFROM data\nWHERE price >', 'Unexpected end of input', 3, 14]
+  ])('rejects %j', (sql, message, line, column) => {
+    const error = syntaxError(sql);
+    expect(error.message).toContain(message);
+    expect([error.line, error.column]).toEqual([line, column]);
+  });
+});
+
+describe('executeSQLQuery', () => {
+  const tables = { data: [{ price: 10 }, { price: 20 }] };
+
+  it('reports where a syntax error is so the editor can point at it', () => {
+    const result = executeSQLQuery(tables, 'data', 'SELECT * FROM data WHERE price >');
+    expect(result.data).toEqual([]);
+    expect(result.errorPosition).toEqual({ line: 1, column: 33 });
+  });
+
+  it('reports unknown columns without a position', () => {
+    const result = executeSQLQuery(tables, 'data', 'SELECT cost FROM data');
+    expect(result.error).toContain('Unknown column "cost"');
+    expect(result.errorPosition).toBeUndefined();
+  });
+
+  it('runs a valid statement', () => {
+    expect(executeSQLQuery(tables, 'data', 'SELECT price * 2 AS doubled FROM data WHERE price > 10').data)
+      .toEqual([{ doubled: 40 }]);
+  });
+});
@@ -0,0 +1,700 @@
+import {
+  AggregateFunction,
+  CastType,
+  ComparisonOperator,
+  Expression,
+  JoinType,
+  OrderItem,
+  QueryPlan,
+  SelectItem,
+  aggregate,
+  column,
+  containsAggregate,
+  createPlan,
+  literal
+} from './queryPlan';
+import { DATE_PARTS, FUNCTION_ALIASES, SCALAR_FUNCTIONS } from './sqlFunctions';
+
+// SQL front end for the editor mode: a tokenizer and recursive-descent parser
+// that compile a SELECT statement into the same QueryPlan the natural-language
+// layer produces, so both modes share one executor and one SQL generator.
+
+/** A syntax error with the 1-based line and column where parsing stopped. */
+export class SqlSyntaxError extends Error {
+  line: number;
+  column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`${message} at line ${line}, column ${column}`);
+    this.name = 'SqlSyntaxError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+type TokenType = 'word' | 'identifier' | 'number' | 'string' | 'operator' | 'eof';
+
+interface SqlToken {
+  type: TokenType;
+  // Unquoted text for identifiers and strings, the raw text otherwise.
+  value: string;
+  line: number;
+  column: number;
+  start: number;
+  end: number;
+}
+
+const RESERVED_WORDS = new Set([
+  'SELECT', 'DISTINCT', 'ALL', 'FROM', 'WHERE', 'GROUP', 'BY', 'HAVING', 'ORDER', 'LIMIT', 'OFFSET',
+  'AS', 'AND', 'OR', 'NOT', 'IS', 'NULL', 'IN', 'BETWEEN', 'LIKE', 'ILIKE', 'ESCAPE', 'CASE', 'WHEN',
+  'THEN', 'ELSE', 'END', 'ASC', 'DESC', 'TRUE', 'FALSE', 'NULLS', 'JOIN', 'INNER', 'LEFT', 'RIGHT',
+  'FULL', 'OUTER', 'CROSS', 'ON', 'UNION', 'CAST'
+]);
+
+const AGGREGATE_FUNCTIONS: Record<string, AggregateFunction> = {
+  COUNT: 'count',
+  SUM: 'sum',
+  AVG: 'avg',
+  MIN: 'min',
+  MAX: 'max',
+  MEDIAN: 'median'
+};
+
+const CAST_TYPES: Record<string, CastType> = {
+  INT: 'integer',
+  INTEGER: 'integer',
+  BIGINT: 'integer',
+  SMALLINT: 'integer',
+  REAL: 'decimal',
+  FLOAT: 'decimal',
+  DOUBLE: 'decimal',
+  DECIMAL: 'decimal',
+  NUMERIC: 'decimal',
+  TEXT: 'text',
+  VARCHAR: 'text',
+  CHAR: 'text',
+  STRING: 'text',
+  BOOLEAN: 'boolean',
+  BOOL: 'boolean',
+  DATE: 'date',
+  TIMESTAMP: 'timestamp',
+  DATETIME: 'timestamp'
+};
+
+const EXTRACT_PART_ALIASES: Record<string, string> = {
+  DAYOFWEEK: 'dow',
+  DAYOFYEAR: 'doy'
+};
+
+const COMPARISON_TOKENS: Record<string, ComparisonOperator> = {
+  '=': '=',
+  '==': '=',
+  '!=': '!=',
+  '<>': '!=',
+  '<': '<',
+  '<=': '<=',
+  '>': '>',
+  '>=': '>='
+};
+
+const OPERATORS = ['<=', '>=', '<>', '!=', '==', '||', '(', ')', ',', ';', '*', '+', '-', '/', '%', '=', '<', '>', '.'];
+
+export const tokenizeSQL = (sql: string): SqlToken[] => {
+  const tokens: SqlToken[] = [];
+  let index = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const advance = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      if (sql[index] === '\n') {
+        line++;
+        lineStart = index + 1;
+      }
+      index++;
+    }
+  };
+
+  const fail = (message: string, at: number = index): never => {
+    const before = sql.slice(0, at);
+    const errorLine = before.split('\n').length;
+    throw new SqlSyntaxError(message, errorLine, at - before.lastIndexOf('\n'));
+  };
+
+  // Reads a quoted run where the closing quote is escaped by doubling it.
+  const readQuoted = (close: string): string => {
+    const start = index;
+    let value = '';
+    advance(1);
+    while (index < sql.length) {
+      if (sql[index] === close) {
+        if (sql[index + 1] === close && close !== ']') {
+          value += close;
+          advance(2);
+          continue;
+        }
+        advance(1);
+        return value;
+      }
+      value += sql[index];
+      advance(1);
+    }
+    return fail(close === "'" ? 'Unterminated string literal' : 'Unterminated quoted identifier', start);
+  };
+
+  while (index < sql.length) {
+    const char = sql[index];
+
+    if (/\s/.test(char)) {
+      advance(1);
+      continue;
+    }
+
+    if (sql.startsWith('--', index)) {
+      while (index < sql.length && sql[index] !== '\n') advance(1);
+      continue;
+    }
+
+    if (sql.startsWith('/*', index)) {
+      const close = sql.indexOf('*/', index + 2);
+      if (close === -1) fail('Unterminated comment');
+      advance(close + 2 - index);
+      continue;
+    }
+
+    const start = index;
+    const startLine = line;
+    const startColumn = index - lineStart + 1;
+    const push = (type: TokenType, value: string) => {
+      tokens.push({ type, value, line: startLine, column: startColumn, start, end: index });
+    };
+
+    if (char === "'") {
+      const value = readQuoted("'");
+      push('string', value);
+    } else if (char === '"' || char === '`' || char === '[') {
+      const value = readQuoted(char === '[' ? ']' : char);
+      push('identifier', value);
+    } else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(sql[index + 1] || ''))) {
+      const match = sql.slice(index).match(/^(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?/);
+      advance(match[0].length);
+      push('number', match[0]);
+    } else if (/[\p{L}_]/u.test(char)) {
+      const match = sql.slice(index).match(/^[\p{L}\p{N}_$]+/u);
+      advance(match[0].length);
+      push('word', match[0]);
+    } else {
+      const operator = OPERATORS.find(candidate => sql.startsWith(candidate, index));
+      if (!operator) fail(`Unexpected character "${char}"`);
+      advance(operator.length);
+      push('operator', operator);
+    }
+  }
+
+  tokens.push({ type: 'eof', value: '', line, column: index - lineStart + 1, start: index, end: index });
+  return tokens;
+};
+
+const describe = (token: SqlToken): string => {
+  switch (token.type) {
+    case 'eof': return 'end of input';
+    case 'string': return `'${token.value}'`;
+    case 'identifier': return `"${token.value}"`;
+    default: return `"${token.value}"`;
+  }
+};
+
+/**
+ * Parses one SELECT statement into a QueryPlan. Column names are not checked
+ * here; run validatePlan against the table's columns before executing.
+ */
+export const parseSQL = (sql: string): QueryPlan => {
+  const tokens = tokenizeSQL(sql);
+  let position = 0;
+  let aggregateDepth = 0;
+  const qualifiers: SqlToken[] = [];
+
+  const peek = (offset: number = 0): SqlToken => tokens[Math.min(position + offset, tokens.length - 1)];
+  const next = (): SqlToken => tokens[Math.min(position++, tokens.length - 1)];
+
+  const fail = (message: string, token: SqlToken = peek()): never => {
+    throw new SqlSyntaxError(message, token.line, token.column);
+  };
+
+  const isKeyword = (token: SqlToken, keyword: string): boolean =>
+    token.type === 'word' && token.value.toUpperCase() === keyword;
+
+  const acceptKeyword = (...keywords: string[]): boolean => {
+    if (!keywords.every((keyword, offset) => isKeyword(peek(offset), keyword))) return false;
+    position += keywords.length;
+    return true;
+  };
+
+  const expectKeyword = (...keywords: string[]): void => {
+    keywords.forEach(keyword => {
+      if (!isKeyword(peek(), keyword)) fail(`Expected ${keyword} but found ${describe(peek())}`);
+      position++;
+    });
+  };
+
+  const isOperator = (token: SqlToken, value: string): boolean => token.type === 'operator' && token.value === value;
+
+  const acceptOperator = (value: string): boolean => {
+    if (!isOperator(peek(), value)) return false;
+    position++;
+    return true;
+  };
+
+  const expectOperator = (value: string): void => {
+    if (!acceptOperator(value)) fail(`Expected "${value}" but found ${describe(peek())}`);
+  };
+
+  const isIdentifierToken = (token: SqlToken): boolean =>
+    token.type === 'identifier' || (token.type === 'word' && !RESERVED_WORDS.has(token.value.toUpperCase()));
+
+  const expectIdentifier = (what: string): string => {
+    const token = peek();
+    if (!isIdentifierToken(token)) fail(`Expected ${what} but found ${describe(token)}`);
+    position++;
+    return token.value;
+  };
+
+  const expectInteger = (what: string): number => {
+    const token = peek();
+    if (token.type !== 'number' || !/^\d+$/.test(token.value)) fail(`Expected ${what} but found ${describe(token)}`);
+    position++;
+    return Number(token.value);
+  };
+
+  const parseExpression = (): Expression => parseOr();
+
+  const parseOr = (): Expression => {
+    const operands = [parseAnd()];
+    while (acceptKeyword('OR')) operands.push(parseAnd());
+    return operands.length === 1 ? operands[0] : { type: 'logical', operator: 'or', operands };
+  };
+
+  const parseAnd = (): Expression => {
+    const operands = [parseNot()];
+    while (acceptKeyword('AND')) operands.push(parseNot());
+    return operands.length === 1 ? operands[0] : { type: 'logical', operator: 'and', operands };
+  };
+
+  const parseNot = (): Expression => {
+    if (acceptKeyword('NOT')) return { type: 'not', operand: parseNot() };
+    return parsePredicate();
+  };
+
+  const parseLikePattern = (escape: string | null, token: SqlToken): string => {
+    // Re-express the pattern with backslash escapes, which is what the
+    // executor's LIKE understands.
+    const pattern = token.value;
+    if (escape === null || escape === '\\') return pattern;
+
+    let converted = '';
+    for (let i = 0; i < pattern.length; i++) {
+      if (pattern[i] === escape && i + 1 < pattern.length) {
+        converted += `\\${pattern[++i]}`;
+      } else {
+        converted += pattern[i] === '\\' ? '\\\\' : pattern[i];
+      }
+    }
+    return converted;
+  };
+
+  const parsePredicate = (): Expression => {
+    const left = parseConcat();
+
+    const comparison = peek().type === 'operator' ? COMPARISON_TOKENS[peek().value] : undefined;
+    if (comparison) {
+      position++;
+      return { type: 'comparison', operator: comparison, left, right: parseConcat() };
+    }
+
+    if (acceptKeyword('IS')) {
+      const negated = acceptKeyword('NOT');
+      expectKeyword('NULL');
+      return { type: 'isNull', operand: left, negated };
+    }
+
+    const negated = acceptKeyword('NOT');
+
+    if (acceptKeyword('IN')) {
+      expectOperator('(');
+      const values = [parseExpression()];
+      while (acceptOperator(',')) values.push(parseExpression());
+      expectOperator(')');
+      return { type: 'in', operand: left, values, negated };
+    }
+
+    if (acceptKeyword('BETWEEN')) {
+      const low = parseConcat();
+      expectKeyword('AND');
+      return { type: 'between', operand: left, low, high: parseConcat(), negated };
+    }
+
+    if (isKeyword(peek(), 'LIKE') || isKeyword(peek(), 'ILIKE')) {
+      const caseInsensitive = next().value.toUpperCase() === 'ILIKE';
+      const patternToken = peek();
+      if (patternToken.type !== 'string') fail('LIKE patterns must be string literals');
+      position++;
+      let escape: string | null = null;
+      if (acceptKeyword('ESCAPE')) {
+        const escapeToken = peek();
+        if (escapeToken.type !== 'string' || escapeToken.value.length !== 1) fail('ESCAPE expects a single character');
+        position++;
+        escape = escapeToken.value;
+      }
+      return {
+        type: 'like',
+        operand: left,
+        pattern: parseLikePattern(escape, patternToken),
+        negated,
+        caseInsensitive
+      };
+    }
+
+    if (negated) fail(`Expected IN, BETWEEN or LIKE after NOT but found ${describe(peek())}`);
+    return left;
+  };
+
+  const parseConcat = (): Expression => {
+    let left = parseAdditive();
+    while (acceptOperator('||')) {
+      left = { type: 'arithmetic', operator: '||', left, right: parseAdditive() };
+    }
+    return left;
+  };
+
+  const parseAdditive = (): Expression => {
+    let left = parseMultiplicative();
+    while (isOperator(peek(), '+') || isOperator(peek(), '-')) {
+      const operator = next().value as '+' | '-';
+      left = { type: 'arithmetic', operator, left, right: parseMultiplicative() };
+    }
+    return left;
+  };
+
+  const parseMultiplicative = (): Expression => {
+    let left = parseUnary();
+    while (isOperator(peek(), '*') || isOperator(peek(), '/') || isOperator(peek(), '%')) {
+      const operator = next().value as '*' | '/' | '%';
+      left = { type: 'arithmetic', operator, left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseUnary = (): Expression => {
+    if (acceptOperator('-')) {
+      const operand = parseUnary();
+      if (operand.type === 'literal' && typeof operand.value === 'number') return literal(-operand.value);
+      return { type: 'negate', operand };
+    }
+    if (acceptOperator('+')) return parseUnary();
+    return parsePrimary();
+  };
+
+  const parseAggregate = (fn: AggregateFunction, nameToken: SqlToken): Expression => {
+    if (aggregateDepth > 0) fail('Aggregate functions cannot be nested', nameToken);
+
+    if (fn === 'count' && isOperator(peek(), '*')) {
+      position++;
+      expectOperator(')');
+      return aggregate('count', null);
+    }
+
+    const distinct = acceptKeyword('DISTINCT');
+    if (!distinct) acceptKeyword('ALL');
+    aggregateDepth++;
+    const argument = parseExpression();
+    aggregateDepth--;
+    expectOperator(')');
+    return aggregate(fn, argument, distinct);
+  };
+
+  const parseCast = (): Expression => {
+    const operand = parseExpression();
+    expectKeyword('AS');
+    const typeToken = peek();
+    const targetType = typeToken.type === 'word' ? CAST_TYPES[typeToken.value.toUpperCase()] : undefined;
+    if (!targetType) fail(`Unknown type ${describe(typeToken)} in CAST`);
+    position++;
+    acceptKeyword('PRECISION');
+    // Length and precision arguments (VARCHAR(20), DECIMAL(10, 2)) do not
+    // change how values are converted here.
+    if (acceptOperator('(')) {
+      expectInteger('a type length');
+      if (acceptOperator(',')) expectInteger('a type scale');
+      expectOperator(')');
+    }
+    expectOperator(')');
+    return { type: 'cast', operand, targetType };
+  };
+
+  const parseExtract = (): Expression => {
+    const partToken = peek();
+    const partName = partToken.type === 'word' || partToken.type === 'string' ? partToken.value.toUpperCase() : '';
+    const part = EXTRACT_PART_ALIASES[partName] || partName.toLowerCase();
+    if (!DATE_PARTS.includes(part as typeof DATE_PARTS[number])) fail(`Unknown date part ${describe(partToken)}`);
+    position++;
+    expectKeyword('FROM');
+    const operand = parseExpression();
+    expectOperator(')');
+    return { type: 'function', name: 'EXTRACT', args: [literal(part), operand] };
+  };
+
+  const parseFunction = (nameToken: SqlToken): Expression => {
+    const upper = nameToken.value.toUpperCase();
+
+    const fn = AGGREGATE_FUNCTIONS[upper];
+    if (fn) return parseAggregate(fn, nameToken);
+    if (upper === 'CAST') return parseCast();
+    if (upper === 'EXTRACT') return parseExtract();
+
+    const name = FUNCTION_ALIASES[upper] || upper;
+    const definition = SCALAR_FUNCTIONS[name];
+    if (!definition) fail(`Unknown function ${nameToken.value}`, nameToken);
+
+    const args: Expression[] = [];
+    if (!isOperator(peek(), ')')) {
+      args.push(parseExpression());
+      while (acceptOperator(',')) args.push(parseExpression());
+    }
+    expectOperator(')');
+
+    if (args.length < definition.minArgs || args.length > definition.maxArgs) {
+      const expected = definition.minArgs === definition.maxArgs
+        ? `${definition.minArgs}`
+        : definition.maxArgs === Infinity ? `at least ${definition.minArgs}` : `${definition.minArgs} to ${definition.maxArgs}`;
+      fail(`${name} expects ${expected} argument${expected === '1' ? '' : 's'} but got ${args.length}`, nameToken);
+    }
+    return { type: 'function', name, args };
+  };
+
+  const parseCase = (): Expression => {
+    const operand = isKeyword(peek(), 'WHEN') ? null : parseExpression();
+    const branches: { when: Expression; then: Expression }[] = [];
+    while (acceptKeyword('WHEN')) {
+      const when = parseExpression();
+      expectKeyword('THEN');
+      branches.push({ when, then: parseExpression() });
+    }
+    if (branches.length === 0) fail(`Expected WHEN but found ${describe(peek())}`);
+    const otherwise = acceptKeyword('ELSE') ? parseExpression() : null;
+    expectKeyword('END');
+    return { type: 'case', operand, branches, otherwise };
+  };
+
+  const parsePrimary = (): Expression => {
+    const token = peek();
+
+    if (token.type === 'number') {
+      position++;
+      return literal(Number(token.value));
+    }
+
+    if (token.type === 'string') {
+      position++;
+      return literal(token.value);
+    }
+
+    if (isOperator(token, '(')) {
+      position++;
+      const inner = parseExpression();
+      expectOperator(')');
+      return inner;
+    }
+
+    if (token.type === 'word') {
+      const upper = token.value.toUpperCase();
+      if (upper === 'NULL') { position++; return literal(null); }
+      if (upper === 'TRUE') { position++; return literal(true); }
+      if (upper === 'FALSE') { position++; return literal(false); }
+      if (upper === 'CASE') { position++; return parseCase(); }
+      if ((upper === 'CURRENT_DATE' || upper === 'CURRENT_TIMESTAMP') && !isOperator(peek(1), '(')) {
+        position++;
+        return { type: 'function', name: upper, args: [] };
+      }
+      // Typed literals: DATE '2024-01-31', TIMESTAMP '2024-01-31 10:00:00'.
+      if ((upper === 'DATE' || upper === 'TIMESTAMP') && peek(1).type === 'string') {
+        position++;
+        return literal(next().value);
+      }
+      if (isOperator(peek(1), '(')) {
+        position += 2;
+        return parseFunction(token);
+      }
+    }
+
+    if (isIdentifierToken(token)) {
+      position++;
+      if (isOperator(peek(), '.')) {
+        // table.column: the qualifier is checked once FROM has been parsed.
+        position++;
+        qualifiers.push(token);
+        return column(expectIdentifier('a column name'), token.value);
+      }
+      return column(token.value);
+    }
+
+    return fail(`Unexpected ${describe(token)}`);
+  };
+
+  const parseSelectItem = (index: number): SelectItem => {
+    if (isOperator(peek(), '*')) {
+      position++;
+      return { expression: { type: 'star' }, alias: '*' };
+    }
+
+    const start = peek().start;
+    const expression = parseExpression();
+    const end = tokens[position - 1].end;
+
+    if (acceptKeyword('AS')) {
+      return { expression, alias: expectIdentifier('an alias') };
+    }
+    if (isIdentifierToken(peek())) {
+      return { expression, alias: next().value };
+    }
+    // Unnamed expressions are labelled with their own source text, as SQLite does.
+    const alias = expression.type === 'column' ? expression.name : sql.slice(start, end).replace(/\s+/g, ' ') || `column_${index + 1}`;
+    return { expression, alias };
+  };
+
+  // ORDER BY 2 / GROUP BY 1 refer to the select list by position.
+  const resolveOrdinal = (expression: Expression, select: SelectItem[], token: SqlToken): Expression => {
+    if (expression.type !== 'literal' || typeof expression.value !== 'number') return expression;
+    const item = select[expression.value - 1];
+    if (!Number.isInteger(expression.value) || !item || item.expression.type === 'star') {
+      fail(`Position ${expression.value} is not in the select list`, token);
+    }
+    return item.expression;
+  };
+
+  const plan: QueryPlan = createPlan();
+
+  expectKeyword('SELECT');
+  plan.distinct = acceptKeyword('DISTINCT');
+  if (!plan.distinct) acceptKeyword('ALL');
+
+  plan.select.push(parseSelectItem(0));
+  while (acceptOperator(',')) plan.select.push(parseSelectItem(plan.select.length));
+
+  // Keep output column names unique so no value silently overwrites another.
+  const used = new Map<string, number>();
+  plan.select.forEach(item => {
+    if (item.expression.type === 'star') return;
+    const count = used.get(item.alias) || 0;
+    used.set(item.alias, count + 1);
+    if (count > 0) item.alias = `${item.alias}_${count + 1}`;
+  });
+
+  // A lone * is the plan's "all columns" form.
+  if (plan.select.length === 1 && plan.select[0].expression.type === 'star') {
+    plan.select = [];
+  }
+
+  const parseTableAlias = (): string | null => {
+    if (acceptKeyword('AS')) return expectIdentifier('a table alias');
+    return isIdentifierToken(peek()) ? next().value : null;
+  };
+
+  const parseJoinType = (): JoinType | null => {
+    if (acceptKeyword('JOIN') || acceptKeyword('INNER', 'JOIN')) return 'inner';
+    if (acceptKeyword('LEFT', 'JOIN') || acceptKeyword('LEFT', 'OUTER', 'JOIN')) return 'left';
+    if (isKeyword(peek(), 'RIGHT') || isKeyword(peek(), 'FULL') || isKeyword(peek(), 'CROSS')) {
+      fail(`${peek().value.toUpperCase()} joins are not supported; use INNER or LEFT JOIN`);
+    }
+    return null;
+  };
+
+  expectKeyword('FROM');
+  plan.from = expectIdentifier('a table name');
+  plan.alias = parseTableAlias();
+
+  for (let type = parseJoinType(); type; type = parseJoinType()) {
+    const table = expectIdentifier('a table name');
+    const alias = parseTableAlias();
+    expectKeyword('ON');
+    const onToken = peek();
+    const on = parseExpression();
+    if (containsAggregate(on)) fail('Aggregate functions are not allowed in a join condition', onToken);
+    plan.joins.push({ type, table, alias, on });
+  }
+
+  if (acceptKeyword('WHERE')) {
+    const whereToken = tokens[position - 1];
+    plan.where = parseExpression();
+    if (containsAggregate(plan.where)) {
+      fail('Aggregate functions are not allowed in WHERE; use HAVING', whereToken);
+    }
+  }
+
+  if (acceptKeyword('GROUP', 'BY')) {
+    do {
+      const token = peek();
+      const expression = resolveOrdinal(parseExpression(), plan.select, token);
+      if (containsAggregate(expression)) {
+        fail('Aggregate functions are not allowed in GROUP BY', token);
+      }
+      plan.groupBy.push(expression);
+    } while (acceptOperator(','));
+  }
+
+  if (acceptKeyword('HAVING')) {
+    plan.having = parseExpression();
+  }
+
+  if (acceptKeyword('ORDER', 'BY')) {
+    do {
+      const token = peek();
+      const item: OrderItem = {
+        expression: resolveOrdinal(parseExpression(), plan.select, token),
+        direction: 'asc'
+      };
+      if (acceptKeyword('DESC')) {
+        item.direction = 'desc';
+      } else {
+        acceptKeyword('ASC');
+      }
+      if (acceptKeyword('NULLS')) {
+        if (acceptKeyword('FIRST')) {
+          item.nullsFirst = true;
+        } else {
+          expectKeyword('LAST');
+        }
+      }
+      plan.orderBy.push(item);
+    } while (acceptOperator(','));
+  }
+
+  if (acceptKeyword('LIMIT')) {
+    const first = expectInteger('a row count');
+    if (acceptOperator(',')) {
+      // MySQL style: LIMIT offset, count
+      plan.offset = first;
+      plan.limit = expectInteger('a row count');
+    } else {
+      plan.limit = first;
+    }
+  }
+
+  if (acceptKeyword('OFFSET')) {
+    plan.offset = expectInteger('a row offset');
+    if (!acceptKeyword('ROWS')) acceptKeyword('ROW');
+  }
+
+  acceptOperator(';');
+  if (peek().type !== 'eof') {
+    fail(`Unexpected ${describe(peek())}`);
+  }
+
+  const sourceNames = [plan.from, plan.alias, ...plan.joins.flatMap(join => [join.table, join.alias])];
+  qualifiers.forEach(token => {
+    if (!sourceNames.includes(token.value)) {
+      fail(`Unknown table or alias "${token.value}"`, token);
+    }
+  });
+
+  return plan;
+};
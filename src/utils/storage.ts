@@ -0,0 +1,224 @@
+import { ColumnMeta, ColumnSchema, DataRow, DataStats, ParseReport } from './dataProcessor';
+import { WorkspaceTable } from './workspace';
+import { applySchemaOverrides, ColumnOverride } from './schemaOverride';
+import { ColumnarTable, columnarRows, columnarSize, getColumnarTable } from './columnar';
+import { QueryHistoryItem } from '@/components/QueryHistory';
+
+// IndexedDB persistence for the workspace. Dataset metadata and rows live in
+// separate stores so listing what is stored never loads the rows themselves.
+// Tables parsed into columnar storage are stored in that form; the row views
+// over them cannot be cloned into IndexedDB anyway.
+
+const DB_NAME = 'ask-your-data';
+const DB_VERSION = 1;
+
+const DATASETS = 'datasets';
+const DATASET_ROWS = 'datasetRows';
+const HISTORY = 'history';
+const PREFERENCES = 'preferences';
+
+export interface StoredDatasetInfo {
+  name: string;
+  filename: string;
+  stats: DataStats;
+  // Approximate size of the rows as JSON (or of the columns), in bytes.
+  sizeBytes: number;
+  savedAt: Date;
+  columns?: ColumnMeta[];
+  parseReport?: ParseReport;
+  sheet?: string;
+  schema?: ColumnSchema[];
+  jsonPaths?: Record<string, string>;
+  overrides?: Record<string, ColumnOverride>;
+}
+
+export interface UiPreferences {
+  selectedTab: number;
+  activeTable: string;
+  // Tables open in the workspace; other stored datasets stay on disk only.
+  openTables: string[];
+}
+
+const PREFERENCES_KEY = 'ui';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (databasePromise) return databasePromise;
+
+  databasePromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('Browser storage (IndexedDB) is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(DATASETS)) db.createObjectStore(DATASETS, { keyPath: 'name' });
+      if (!db.objectStoreNames.contains(DATASET_ROWS)) db.createObjectStore(DATASET_ROWS, { keyPath: 'name' });
+      if (!db.objectStoreNames.contains(HISTORY)) db.createObjectStore(HISTORY, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(PREFERENCES)) db.createObjectStore(PREFERENCES, { keyPath: 'key' });
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error || new Error('Failed to open browser storage'));
+    request.onblocked = () => reject(new Error('Browser storage is in use by another tab'));
+  });
+
+  // Let a later call retry instead of caching the failure.
+  databasePromise.catch(() => {
+    databasePromise = null;
+  });
+
+  return databasePromise;
+};
+
+/**
+ * Runs `work` in one transaction over `stores` and resolves with its result
+ * once the transaction has committed.
+ */
+const transaction = async <T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => IDBRequest<T> | void
+): Promise<T> => {
+  const db = await openDatabase();
+
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    const request = work(tx);
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error || new Error('Browser storage request failed'));
+    tx.onabort = () => reject(tx.error || new Error('Browser storage request was aborted'));
+  });
+};
+
+interface StoredRows {
+  name: string;
+  rows?: DataRow[];
+  columnar?: ColumnarTable;
+}
+
+const estimateSize = (rows: DataRow[]): number => new Blob([JSON.stringify(rows)]).size;
+
+// Tables with overrides are stored as imported; the overrides are applied again on load.
+export const saveDataset = (table: WorkspaceTable): Promise<void> => {
+  const rows = table.sourceData || table.data;
+  const columnar = getColumnarTable(rows);
+  const info: StoredDatasetInfo = {
+    name: table.name,
+    filename: table.filename,
+    stats: table.stats,
+    sizeBytes: columnar ? columnarSize(columnar) : estimateSize(rows),
+    savedAt: new Date(),
+    columns: table.columns,
+    parseReport: table.parseReport,
+    sheet: table.sheet,
+    schema: table.schema,
+    jsonPaths: table.jsonPaths,
+    overrides: table.overrides
+  };
+  const stored: StoredRows = columnar ? { name: table.name, columnar } : { name: table.name, rows };
+
+  return transaction([DATASETS, DATASET_ROWS], 'readwrite', tx => {
+    tx.objectStore(DATASETS).put(info);
+    tx.objectStore(DATASET_ROWS).put(stored);
+  });
+};
+
+export const listStoredDatasets = (): Promise<StoredDatasetInfo[]> =>
+  transaction<StoredDatasetInfo[]>([DATASETS], 'readonly', tx => tx.objectStore(DATASETS).getAll());
+
+export const loadDataset = async (name: string): Promise<WorkspaceTable | null> => {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([DATASETS, DATASET_ROWS], 'readonly');
+    const infoRequest = tx.objectStore(DATASETS).get(name);
+    const rowsRequest = tx.objectStore(DATASET_ROWS).get(name);
+    tx.oncomplete = () => {
+      const info: StoredDatasetInfo | undefined = infoRequest.result;
+      const stored: StoredRows | undefined = rowsRequest.result;
+      if (!info || !stored) {
+        resolve(null);
+        return;
+      }
+      const data = stored.columnar ? columnarRows(stored.columnar) : stored.rows;
+      const table: WorkspaceTable = {
+        name: info.name,
+        filename: info.filename,
+        data,
+        stats: info.stats,
+        columns: info.columns,
+        parseReport: info.parseReport,
+        sheet: info.sheet,
+        schema: info.schema,
+        jsonPaths: info.jsonPaths
+      };
+      resolve(info.overrides ? applySchemaOverrides(table, info.overrides) : table);
+    };
+    tx.onerror = () => reject(tx.error || new Error(`Failed to load ${name} from browser storage`));
+  });
+};
+
+export const deleteDataset = (name: string): Promise<void> =>
+  transaction([DATASETS, DATASET_ROWS], 'readwrite', tx => {
+    tx.objectStore(DATASETS).delete(name);
+    tx.objectStore(DATASET_ROWS).delete(name);
+  });
+
+export const saveHistoryItem = (item: QueryHistoryItem): Promise<void> =>
+  transaction([HISTORY], 'readwrite', tx => {
+    tx.objectStore(HISTORY).put(item);
+  });
+
+export const loadHistory = async (): Promise<QueryHistoryItem[]> => {
+  const items = await transaction<QueryHistoryItem[]>([HISTORY], 'readonly', tx => tx.objectStore(HISTORY).getAll());
+  return items
+    // Older entries name their provider without saying where the question
+    // was sent, so they are re-run with the current provider.
+    .map(item => (typeof item.provider === 'string' ? { ...item, provider: undefined } : item))
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+};
+
+export const clearHistory = (): Promise<void> =>
+  transaction([HISTORY], 'readwrite', tx => {
+    tx.objectStore(HISTORY).clear();
+  });
+
+export const savePreferences = (preferences: UiPreferences): Promise<void> =>
+  transaction([PREFERENCES], 'readwrite', tx => {
+    tx.objectStore(PREFERENCES).put({ key: PREFERENCES_KEY, ...preferences });
+  });
+
+export const loadPreferences = async (): Promise<UiPreferences | null> => {
+  const stored = await transaction<(UiPreferences & { key: string }) | undefined>(
+    [PREFERENCES],
+    'readonly',
+    tx => tx.objectStore(PREFERENCES).get(PREFERENCES_KEY)
+  );
+  if (!stored) return null;
+  const { key: _key, ...preferences } = stored;
+  return preferences;
+};
+
+/** Browser-reported usage and quota for this origin, when available. */
+export const estimateStorage = async (): Promise<{ usage: number; quota: number } | null> => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { ChartSettings, MAX_VALUES } from './chartBuilder';
+import { buildTimeSeries } from './timeSeries';
+
+describe('buildTimeSeries', () => {
+  // One row a day for two years.
+  const data = Array.from({ length: 730 }, (_, index) => ({
+    day: new Date(Date.UTC(2023, 0, 1 + index)).toISOString().slice(0, 10),
+    sales: 1
+  }));
+  const settings = (overrides: Partial<ChartSettings>): ChartSettings => ({
+    type: 'bar',
+    x: 'day',
+    measures: [{ column: 'sales', fn: 'sum' }],
+    series: null,
+    sort: 'none',
+    limit: null,
+    ...overrides
+  });
+
+  it('picks a bucket that keeps bars within the value cap', () => {
+    const chart = buildTimeSeries(data, settings({}));
+    expect(chart.bucket).toBe('month');
+    expect(chart.times).toHaveLength(24);
+    expect(chart.truncation).toBeUndefined();
+  });
+
+  it('keeps the latest periods when a chosen bucket gives too many bars', () => {
+    const chart = buildTimeSeries(data, settings({ time: { bucket: 'week', fill: 'gap', rolling: null, compare: 'previous' } }));
+    expect(chart.times).toHaveLength(MAX_VALUES.bar);
+    expect(chart.truncation.periods).toEqual({ total: 106, shown: MAX_VALUES.bar });
+    expect(chart.times[MAX_VALUES.bar - 1]).toBe(Date.UTC(2024, 11, 30));
+    // Comparisons still reach back past the first period shown.
+    expect(chart.datasets[1].data[0]).toBe(7);
+  });
+
+  it('leaves lines to downsampling', () => {
+    const chart = buildTimeSeries(data, settings({ type: 'line', time: { bucket: 'day', fill: 'gap', rolling: null, compare: 'none' } }));
+    expect(chart.times).toHaveLength(730);
+  });
+});
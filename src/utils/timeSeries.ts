@@ -0,0 +1,283 @@
+import {
+  aggregateRows,
+  ChartSettings,
+  ChartTruncation,
+  MAX_LINE_POINTS,
+  MAX_SERIES,
+  MAX_VALUES,
+  measureLabel,
+  splitSeries
+} from './chartBuilder';
+import { dateReader } from './columnProfile';
+import type { DataRow } from './dataProcessor';
+import { downsampleIndices } from './downsample';
+import { isMissing } from './queryPlan';
+
+// Charts whose x-axis is a date column are drawn on a time axis: dates are
+// read with the column's format, bucketed into periods (days, ISO weeks,
+// months, quarters or years, all in UTC), and every period between the first
+// and the last gets a point, so missing periods show as zero or as a gap.
+// Rolling averages and period-over-period comparisons are extra datasets
+// derived from the aggregated values. Lines with too many periods are
+// downsampled after the overlays are computed; bars keep the latest periods
+// the chart can show.
+
+export type TimeBucket = 'auto' | 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export type TimeComparison = 'none' | 'previous' | 'year';
+
+export interface TimeAxisSettings {
+  // 'auto' picks the finest bucket that keeps the number of periods readable.
+  bucket: TimeBucket;
+  // Periods without rows: plotted as zero, or left as a gap in the line.
+  fill: 'zero' | 'gap';
+  // Trailing average over this many periods, drawn for every series.
+  rolling: number | null;
+  // The value one period earlier, or the same period a year earlier.
+  compare: TimeComparison;
+}
+
+export interface TimeSeriesDataset {
+  label: string;
+  // One value per period; null for gaps.
+  data: (number | null)[];
+  // Set on rolling averages and comparisons: the index of the dataset they
+  // are derived from.
+  source?: number;
+  overlay?: 'rolling' | 'comparison';
+}
+
+export interface TimeSeries {
+  bucket: Exclude<TimeBucket, 'auto'>;
+  // Start of every period from the first date to the last, in ms since the epoch (UTC).
+  times: number[];
+  datasets: TimeSeriesDataset[];
+  // Non-empty x values that could not be read as dates.
+  unparsed: number;
+  truncation?: ChartTruncation;
+}
+
+export const DEFAULT_TIME_AXIS: TimeAxisSettings = {
+  bucket: 'auto',
+  fill: 'gap',
+  rolling: null,
+  compare: 'none'
+};
+
+export const TIME_BUCKET_LABELS: Record<TimeBucket, string> = {
+  auto: 'Automatic',
+  day: 'Day',
+  week: 'Week',
+  month: 'Month',
+  quarter: 'Quarter',
+  year: 'Year'
+};
+
+const BUCKETS: Exclude<TimeBucket, 'auto'>[] = ['day', 'week', 'month', 'quarter', 'year'];
+const BUCKET_DAYS: Record<Exclude<TimeBucket, 'auto'>, number> = {
+  day: 1,
+  week: 7,
+  month: 30.44,
+  quarter: 91.31,
+  year: 365.25
+};
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+// Automatic bucketing keeps to at most this many periods.
+const AUTO_PERIODS = 120;
+// A chosen bucket is made coarser when it would give more periods than this.
+const MAX_PERIODS = 10_000;
+
+/** Start of the period that contains `time`; weeks start on Monday. */
+export const bucketStart = (time: number, bucket: Exclude<TimeBucket, 'auto'>): number => {
+  const date = new Date(time);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  switch (bucket) {
+    case 'day':
+      return Math.floor(time / DAY_MS) * DAY_MS;
+    case 'week':
+      return (Math.floor(time / DAY_MS) - ((date.getUTCDay() + 6) % 7)) * DAY_MS;
+    case 'month':
+      return Date.UTC(year, month, 1);
+    case 'quarter':
+      return Date.UTC(year, month - (month % 3), 1);
+    default:
+      return Date.UTC(year, 0, 1);
+  }
+};
+
+const nextBucket = (start: number, bucket: Exclude<TimeBucket, 'auto'>): number => {
+  const date = new Date(start);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  switch (bucket) {
+    case 'day':
+      return start + DAY_MS;
+    case 'week':
+      return start + 7 * DAY_MS;
+    case 'month':
+      return Date.UTC(year, month + 1, 1);
+    case 'quarter':
+      return Date.UTC(year, month + 3, 1);
+    default:
+      return Date.UTC(year + 1, 0, 1);
+  }
+};
+
+// Start of the same period a year earlier (52 weeks earlier for weeks).
+const yearEarlier = (start: number, bucket: Exclude<TimeBucket, 'auto'>): number => {
+  if (bucket === 'week') return start - 52 * 7 * DAY_MS;
+  const date = new Date(start);
+  return bucketStart(Date.UTC(date.getUTCFullYear() - 1, date.getUTCMonth(), date.getUTCDate()), bucket);
+};
+
+/** Label of the period starting at `time`, e.g. 2024-03-05, 2024-W10, Mar 2024, Q1 2024. */
+export const bucketLabel = (time: number, bucket: Exclude<TimeBucket, 'auto'>): string => {
+  const date = new Date(time);
+  const year = date.getUTCFullYear();
+  switch (bucket) {
+    case 'day':
+      return date.toISOString().slice(0, 10);
+    case 'week': {
+      // An ISO week belongs to the year of its Thursday.
+      const thursday = new Date(time + 3 * DAY_MS);
+      const weekYear = thursday.getUTCFullYear();
+      const week = Math.floor((thursday.getTime() - Date.UTC(weekYear, 0, 1)) / (7 * DAY_MS)) + 1;
+      return `${weekYear}-W${String(week).padStart(2, '0')}`;
+    }
+    case 'month':
+      return `${MONTHS[date.getUTCMonth()]} ${year}`;
+    case 'quarter':
+      return `Q${Math.floor(date.getUTCMonth() / 3) + 1} ${year}`;
+    default:
+      return String(year);
+  }
+};
+
+const chooseBucket = (bucket: TimeBucket, span: number, most = AUTO_PERIODS): Exclude<TimeBucket, 'auto'> => {
+  const periods = (candidate: Exclude<TimeBucket, 'auto'>) => span / DAY_MS / BUCKET_DAYS[candidate];
+  if (bucket === 'auto') return BUCKETS.find(candidate => periods(candidate) <= most) || 'year';
+  return BUCKETS.slice(BUCKETS.indexOf(bucket)).find(candidate => periods(candidate) <= MAX_PERIODS) || 'year';
+};
+
+// Trailing mean over `window` periods, from the first full window on.
+const rollingAverage = (values: (number | null)[], window: number): (number | null)[] =>
+  values.map((_, index) => {
+    if (index < window - 1) return null;
+    const present = values.slice(index - window + 1, index + 1).filter((value): value is number => value !== null);
+    return present.length > 0 ? present.reduce((sum, value) => sum + value, 0) / present.length : null;
+  });
+
+/**
+ * Aggregates the measures per period of the date column on x (split by the
+ * series column), with the rolling averages and comparisons asked for.
+ * `format` is the x column's inferred date format.
+ */
+export const buildTimeSeries = (
+  data: DataRow[],
+  settings: ChartSettings,
+  displayName: (key: string) => string = key => key,
+  format?: string
+): TimeSeries => {
+  const { x, measures, series } = settings;
+  const options = { ...DEFAULT_TIME_AXIS, ...settings.time };
+  const read = dateReader(format);
+
+  const dated: { time: number; row: DataRow }[] = [];
+  let unparsed = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  data.forEach(row => {
+    if (isMissing(row[x])) return;
+    const time = read(String(row[x]));
+    if (isNaN(time)) {
+      unparsed++;
+      return;
+    }
+    dated.push({ time, row });
+    min = Math.min(min, time);
+    max = Math.max(max, time);
+  });
+  if (dated.length === 0) return { bucket: 'day', times: [], datasets: [], unparsed };
+
+  // Bars are only readable up to the chart's value limit.
+  const most = MAX_VALUES[settings.type];
+  const bucket = chooseBucket(options.bucket, max - min, Math.min(AUTO_PERIODS, most ?? AUTO_PERIODS));
+  const times: number[] = [];
+  for (let time = bucketStart(min, bucket); time <= max; time = nextBucket(time, bucket)) times.push(time);
+  const periodIndex = new Map(times.map((time, index) => [time, index]));
+
+  // Series as in the chart builder, with the least frequent values combined.
+  const split = series ? splitSeries(dated.map(({ row }) => row), series, MAX_SERIES, settings.other !== false) : null;
+  const seriesValues: (string | null)[] = split ? split.labels : [null];
+  const seriesIndex = new Map(seriesValues.map((value, index) => [value, index]));
+
+  // Rows of every series in every period.
+  const cells = seriesValues.map(() => times.map((): DataRow[] => []));
+  dated.forEach(({ time, row }) => {
+    const index = seriesIndex.get(split ? split.seriesOf(row) : null);
+    if (index !== undefined) cells[index][periodIndex.get(bucketStart(time, bucket))].push(row);
+  });
+
+  const datasets: TimeSeriesDataset[] = [];
+  measures.forEach(measure => seriesValues.forEach((seriesValue, index) => {
+    const label = seriesValue === null
+      ? measureLabel(measure, displayName)
+      : measures.length > 1 ? `${seriesValue} · ${measureLabel(measure, displayName)}` : seriesValue;
+    const values = cells[index].map(rows =>
+      (rows.length > 0 ? aggregateRows(rows, measure) : options.fill === 'zero' ? 0 : null));
+    const source = datasets.length;
+    datasets.push({ label, data: values });
+
+    if (options.rolling && options.rolling > 1) {
+      datasets.push({
+        label: `${label} · ${options.rolling}-period average`,
+        data: rollingAverage(values, options.rolling),
+        source,
+        overlay: 'rolling'
+      });
+    }
+    if (options.compare !== 'none') {
+      datasets.push({
+        label: `${label} · ${options.compare === 'previous' ? 'previous period' : 'a year earlier'}`,
+        data: times.map((time, period) => {
+          const earlier = options.compare === 'previous' ? period - 1 : periodIndex.get(yearEarlier(time, bucket));
+          return earlier === undefined || earlier < 0 ? null : values[earlier];
+        }),
+        source,
+        overlay: 'comparison'
+      });
+    }
+  }));
+
+  const truncation: ChartTruncation = { other: settings.other !== false };
+  if (split && split.shown < split.total) truncation.series = { total: split.total, shown: split.shown };
+
+  const kept = settings.type === 'line' || settings.type === 'area'
+    ? downsampleIndices(times, datasets.filter(dataset => !dataset.overlay).map(dataset => dataset.data), MAX_LINE_POINTS)
+    : null;
+  if (kept) {
+    truncation.points = { total: times.length, shown: kept.length };
+    return {
+      bucket,
+      times: kept.map(index => times[index]),
+      datasets: datasets.map(dataset => ({ ...dataset, data: kept.map(index => dataset.data[index]) })),
+      unparsed,
+      truncation
+    };
+  }
+
+  if (most !== undefined && times.length > most) {
+    truncation.periods = { total: times.length, shown: most };
+    return {
+      bucket,
+      times: times.slice(-most),
+      datasets: datasets.map(dataset => ({ ...dataset, data: dataset.data.slice(-most) })),
+      unparsed,
+      truncation
+    };
+  }
+
+  return { bucket, times, datasets, unparsed, truncation: truncation.series ? truncation : undefined };
+};
@@ -0,0 +1,455 @@
+import { getColumnarTable } from './columnar';
+import { DATE_FORMATS, DateFormat, parseDate } from './csvDetect';
+import type { DataRow } from './dataProcessor';
+
+// Per-column type inference. A sample of each column is checked against a list
+// of candidate types, most specific first; the first type that fits nearly all
+// sampled values wins. Column names are used as hints where values alone are
+// ambiguous (a 0-90 number is only a latitude in a column called "lat").
+// Values are never parsed with `new Date()`, which accepts text such as
+// "North 2".
+
+export type ColumnType =
+  | 'integer'
+  | 'decimal'
+  | 'boolean'
+  | 'currency'
+  | 'percentage'
+  | 'date'
+  | 'datetime'
+  | 'duration'
+  | 'categorical'
+  | 'identifier'
+  | 'email'
+  | 'url'
+  | 'latitude'
+  | 'longitude'
+  | 'coordinates'
+  | 'country'
+  | 'postal_code'
+  | 'text';
+
+export interface InferredType {
+  type: ColumnType;
+  // Share of sampled values that fit, reduced for very small samples (0..1).
+  confidence: number;
+  // How the values are written: a number pattern such as '#,##0.00' or
+  // '$0.00', a date format such as 'DD/MM/YYYY', or a short description.
+  format: string;
+  // Non-empty values in the whole column that do not fit the type.
+  mismatches: number;
+}
+
+export const COLUMN_TYPES: ColumnType[] = [
+  'integer',
+  'decimal',
+  'boolean',
+  'currency',
+  'percentage',
+  'date',
+  'datetime',
+  'duration',
+  'categorical',
+  'identifier',
+  'email',
+  'url',
+  'latitude',
+  'longitude',
+  'coordinates',
+  'country',
+  'postal_code',
+  'text'
+];
+
+const SAMPLE_SIZE = 1000;
+// Share of sampled values that must fit for a type to be chosen.
+const THRESHOLD = 0.9;
+// Text columns with at most this many distinct values are categorical.
+const MAX_CATEGORIES = 50;
+
+// Returns the format the value is written in, or null when it does not fit.
+type Matcher = (value: unknown) => string | null;
+
+interface Candidate {
+  type: ColumnType;
+  match: Matcher;
+}
+
+const isEmpty = (value: unknown): boolean => value === null || value === undefined || value === '';
+
+const text = (value: unknown): string => String(value).trim();
+
+const PLAIN_NUMBER = /^[+-]?(?:\d+\.?\d*|\.\d+)$/;
+const GROUPED_NUMBER = /^[+-]?\d{1,3}(?:,\d{3})+(?:\.\d+)?$/;
+
+// Number pattern of a numeric value: '0', '0.00', '#,##0.00'. Plain integers
+// with leading zeros ("007") are codes, not numbers.
+const numberFormat = (value: unknown): string | null => {
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) return null;
+    const decimals = String(value).split('.')[1]?.length || 0;
+    return decimals > 0 ? `0.${'0'.repeat(Math.min(decimals, 4))}` : '0';
+  }
+  if (typeof value !== 'string') return null;
+  const raw = value.trim();
+  const grouped = GROUPED_NUMBER.test(raw);
+  if (!grouped && !PLAIN_NUMBER.test(raw)) return null;
+  if (/^[+-]?0\d/.test(raw)) return null;
+  const decimals = raw.split('.')[1]?.length || 0;
+  const base = grouped ? '#,##0' : '0';
+  return decimals > 0 ? `${base}.${'0'.repeat(Math.min(decimals, 4))}` : base;
+};
+
+const toNumber = (value: unknown): number => (typeof value === 'number' ? value : Number(text(value).replace(/,/g, '')));
+
+const BOOLEAN_PAIRS: [string, string][] = [['true', 'false'], ['yes', 'no'], ['y', 'n'], ['t', 'f']];
+
+const matchBoolean: Matcher = value => {
+  if (typeof value === 'boolean') return 'true/false';
+  const lower = text(value).toLowerCase();
+  const pair = BOOLEAN_PAIRS.find(candidate => candidate.includes(lower));
+  return pair ? pair.join('/') : null;
+};
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+const matchEmail: Matcher = value => (EMAIL.test(text(value)) ? 'email' : null);
+
+const URL_PATTERN = /^(https?|ftp):\/\/[^\s/$.?#][^\s]*$/i;
+const WWW = /^www\.[^\s]+\.[a-z]{2,}(\/\S*)?$/i;
+const matchUrl: Matcher = value => {
+  const raw = text(value);
+  if (URL_PATTERN.test(raw)) return raw.slice(0, raw.indexOf(':')).toLowerCase();
+  return WWW.test(raw) ? 'www' : null;
+};
+
+const ISO_DATETIME = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+// "Jan 5, 2024", "January 5 2024" and "5 Jan 2024".
+const MONTH_FIRST = /^([a-z]{3,9})\.? (\d{1,2}),? (\d{4})$/i;
+const DAY_FIRST = /^(\d{1,2}) ([a-z]{3,9})\.?,? (\d{4})$/i;
+
+/** ISO date (YYYY-MM-DD) for a date written with a month name, or null. */
+export const parseMonthNameDate = (value: string): string | null => {
+  const monthFirst = value.match(MONTH_FIRST);
+  const dayFirst = value.match(DAY_FIRST);
+  const [month, day, year] = monthFirst
+    ? [monthFirst[1], monthFirst[2], monthFirst[3]]
+    : dayFirst ? [dayFirst[2], dayFirst[1], dayFirst[3]] : [];
+  if (!month) return null;
+  const index = MONTHS.indexOf(month.slice(0, 3).toLowerCase());
+  const date = new Date(Date.UTC(Number(year), index, Number(day)));
+  if (index === -1 || date.getUTCDate() !== Number(day)) return null;
+  return date.toISOString().slice(0, 10);
+};
+
+const dateMatcher = (format: DateFormat, withTime: boolean): Matcher => value => {
+  const iso = parseDate(text(value), format);
+  if (!iso || iso.includes('T') !== withTime) return null;
+  return withTime ? `${format} HH:MM` : format;
+};
+
+const matchIsoDatetime: Matcher = value => (ISO_DATETIME.test(text(value)) ? 'ISO 8601' : null);
+const matchMonthNameDate: Matcher = value => {
+  const raw = text(value);
+  if (!parseMonthNameDate(raw)) return null;
+  return MONTH_FIRST.test(raw) ? 'MMM D, YYYY' : 'D MMM YYYY';
+};
+
+const CLOCK_DURATION = /^\d+:[0-5]\d(:[0-5]\d)?(\.\d+)?$/;
+const ISO_DURATION = /^P(?!$)(\d+Y)?(\d+M)?(\d+W)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?$/;
+const WORDED_DURATION = /^(\d+(\.\d+)?\s*(d|days?|h|hrs?|hours?|m|mins?|minutes?|s|secs?|seconds?)\s*)+$/i;
+
+const UNIT_SECONDS: Record<string, number> = { y: 31536000, w: 604800, d: 86400, h: 3600, m: 60, s: 1 };
+
+/** Length of a duration in seconds, or null when `value` is not one. */
+export const parseDuration = (value: string): number | null => {
+  const raw = value.trim();
+  if (ISO_DURATION.test(raw)) {
+    const [date, time = ''] = raw.slice(1).split('T');
+    // M means months before the T and minutes after it; months count as 30 days.
+    const sum = (part: string, month: number) => Array.from(part.matchAll(/(\d+(?:\.\d+)?)([YMWDHS])/g))
+      .reduce((total, [, amount, unit]) => total + Number(amount) * (unit === 'M' ? month : UNIT_SECONDS[unit.toLowerCase()]), 0);
+    return sum(date, 2592000) + sum(time, 60);
+  }
+  if (CLOCK_DURATION.test(raw)) {
+    const parts = raw.split(':').map(Number);
+    return parts.reduce((total, part) => total * 60 + part, 0);
+  }
+  if (!WORDED_DURATION.test(raw)) return null;
+  return Array.from(raw.matchAll(/(\d+(?:\.\d+)?)\s*([a-z]+)/gi))
+    .reduce((total, [, amount, unit]) => total + Number(amount) * UNIT_SECONDS[unit[0].toLowerCase()], 0);
+};
+
+const matchDuration: Matcher = value => {
+  const raw = text(value);
+  if (ISO_DURATION.test(raw)) return 'ISO 8601';
+  if (CLOCK_DURATION.test(raw)) return raw.split(':').length === 3 ? 'H:MM:SS' : 'M:SS';
+  return WORDED_DURATION.test(raw) ? '1h 30m' : null;
+};
+
+const PERCENT = /^[+-]?(\d+\.?\d*|\.\d+)\s?%$/;
+const matchPercent: Matcher = value => {
+  const raw = text(value);
+  if (!PERCENT.test(raw)) return null;
+  return raw.includes('.') ? '0.0%' : '0%';
+};
+
+const CURRENCY_SYMBOLS = '$€£¥₹₩₽₺₪฿';
+const CURRENCY_CODES = 'USD|EUR|GBP|JPY|CHF|CAD|AUD|NZD|CNY|INR|SEK|NOK|DKK|PLN|BRL|MXN|ZAR|KRW|SGD|HKD';
+const CURRENCY_PREFIX = new RegExp(`^[-(]?\\s?([${CURRENCY_SYMBOLS}]|(?:${CURRENCY_CODES})\\s?)\\s?-?([\\d,]*\\.?\\d+)\\)?$`, 'i');
+const CURRENCY_SUFFIX = new RegExp(`^-?([\\d.,\\s]*\\d)\\s?([${CURRENCY_SYMBOLS}]|${CURRENCY_CODES})$`, 'i');
+
+const matchCurrency: Matcher = value => {
+  const raw = text(value);
+  const prefix = raw.match(CURRENCY_PREFIX);
+  if (prefix) {
+    const symbol = prefix[1].trim().toUpperCase();
+    return `${symbol}${prefix[2].includes(',') ? '#,##0' : '0'}${prefix[2].includes('.') ? '.00' : ''}`;
+  }
+  const suffix = raw.match(CURRENCY_SUFFIX);
+  return suffix ? `0.00 ${suffix[2].toUpperCase()}` : null;
+};
+
+const COORDINATES = /^\(?\s*([+-]?\d{1,2}(\.\d+)?)\s*[,;]\s*([+-]?\d{1,3}(\.\d+)?)\s*\)?$/;
+const matchCoordinates: Matcher = value => {
+  const match = text(value).match(COORDINATES);
+  if (!match) return null;
+  return Math.abs(Number(match[1])) <= 90 && Math.abs(Number(match[3])) <= 180 ? 'lat, lon' : null;
+};
+
+const rangeMatcher = (limit: number): Matcher => value => {
+  const format = numberFormat(value);
+  return format !== null && Math.abs(toNumber(value)) <= limit ? format : null;
+};
+
+const POSTAL_PATTERNS: [RegExp, string][] = [
+  [/^\d{5}-\d{4}$/, 'ZIP+4'],
+  [/^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i, 'UK'],
+  [/^[A-Z]\d[A-Z] ?\d[A-Z]\d$/i, 'Canada'],
+  [/^\d{4}-\d{3}$/, 'Portugal'],
+  [/^\d{3}-\d{4}$/, 'Japan'],
+  [/^\d{2}-\d{3}$/, 'Poland']
+];
+
+const postalMatcher = (hinted: boolean): Matcher => value => {
+  const raw = typeof value === 'number' ? String(value) : text(value);
+  const pattern = POSTAL_PATTERNS.find(([regex]) => regex.test(raw));
+  if (pattern) return pattern[1];
+  // Bare digit codes could be anything without a column name saying otherwise.
+  return hinted && /^\d{4,6}$/.test(raw) ? `${raw.length} digits` : null;
+};
+
+// ISO 3166-1 alpha-2 codes.
+const COUNTRY_CODES = new Set((
+  'AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE BF BG BH BI BJ BL BM BN BO BQ BR BS BT BV BW BY BZ ' +
+  'CA CC CD CF CG CH CI CK CL CM CN CO CR CU CV CW CX CY CZ DE DJ DK DM DO DZ EC EE EG EH ER ES ET FI FJ FK FM FO FR ' +
+  'GA GB GD GE GF GG GH GI GL GM GN GP GQ GR GS GT GU GW GY HK HM HN HR HT HU ID IE IL IM IN IO IQ IR IS IT JE JM JO ' +
+  'JP KE KG KH KI KM KN KP KR KW KY KZ LA LB LC LI LK LR LS LT LU LV LY MA MC MD ME MF MG MH MK ML MM MN MO MP MQ MR ' +
+  'MS MT MU MV MW MX MY MZ NA NC NE NF NG NI NL NO NP NR NU NZ OM PA PE PF PG PH PK PL PM PN PR PS PT PW PY QA RE RO ' +
+  'RS RU RW SA SB SC SD SE SG SH SI SJ SK SL SM SN SO SR SS ST SV SX SY SZ TC TD TF TG TH TJ TK TL TM TN TO TR TT TV ' +
+  'TW TZ UA UG UM US UY UZ VA VC VE VG VI VN VU WF WS YE YT ZA ZM ZW UK'
+).split(' '));
+
+const COUNTRY_NAMES = new Set((
+  'afghanistan|albania|algeria|andorra|angola|antigua and barbuda|argentina|armenia|australia|austria|azerbaijan|' +
+  'bahamas|bahrain|bangladesh|barbados|belarus|belgium|belize|benin|bhutan|bolivia|bosnia and herzegovina|botswana|' +
+  'brazil|brunei|bulgaria|burkina faso|burundi|cabo verde|cape verde|cambodia|cameroon|canada|central african republic|' +
+  'chad|chile|china|colombia|comoros|congo|costa rica|croatia|cuba|cyprus|czechia|czech republic|denmark|djibouti|' +
+  'dominica|dominican republic|ecuador|egypt|el salvador|equatorial guinea|eritrea|estonia|eswatini|ethiopia|fiji|' +
+  'finland|france|gabon|gambia|georgia|germany|ghana|greece|grenada|guatemala|guinea|guinea-bissau|guyana|haiti|' +
+  'honduras|hong kong|hungary|iceland|india|indonesia|iran|iraq|ireland|israel|italy|ivory coast|jamaica|japan|jordan|' +
+  'kazakhstan|kenya|kiribati|kosovo|kuwait|kyrgyzstan|laos|latvia|lebanon|lesotho|liberia|libya|liechtenstein|' +
+  'lithuania|luxembourg|madagascar|malawi|malaysia|maldives|mali|malta|marshall islands|mauritania|mauritius|mexico|' +
+  'micronesia|moldova|monaco|mongolia|montenegro|morocco|mozambique|myanmar|namibia|nauru|nepal|netherlands|' +
+  'new zealand|nicaragua|niger|nigeria|north korea|north macedonia|norway|oman|pakistan|palau|palestine|panama|' +
+  'papua new guinea|paraguay|peru|philippines|poland|portugal|puerto rico|qatar|romania|russia|rwanda|' +
+  'saint kitts and nevis|saint lucia|saint vincent and the grenadines|samoa|san marino|sao tome and principe|' +
+  'saudi arabia|senegal|serbia|seychelles|sierra leone|singapore|slovakia|slovenia|solomon islands|somalia|' +
+  'south africa|south korea|south sudan|spain|sri lanka|sudan|suriname|sweden|switzerland|syria|taiwan|tajikistan|' +
+  'tanzania|thailand|timor-leste|togo|tonga|trinidad and tobago|tunisia|turkey|turkiye|turkmenistan|tuvalu|uganda|' +
+  'ukraine|united arab emirates|uae|united kingdom|uk|great britain|england|scotland|wales|united states|' +
+  'united states of america|usa|us|uruguay|uzbekistan|vanuatu|vatican city|venezuela|vietnam|yemen|zambia|zimbabwe'
+).split('|'));
+
+const countryMatcher = (hinted: boolean): Matcher => value => {
+  const raw = text(value);
+  if (COUNTRY_NAMES.has(raw.toLowerCase())) return 'name';
+  // Two-letter codes look like state or unit codes unless the column says otherwise.
+  return hinted && COUNTRY_CODES.has(raw.toUpperCase()) && /^[A-Za-z]{2}$/.test(raw) ? 'ISO alpha-2' : null;
+};
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const matchUuid: Matcher = value => (UUID.test(text(value)) ? 'uuid' : null);
+
+const matchNumber: Matcher = numberFormat;
+const matchInteger: Matcher = value => {
+  const format = numberFormat(value);
+  return format !== null && Number.isInteger(toNumber(value)) ? format : null;
+};
+
+// Name hints, matched against the column's words.
+const hint = (name: string, pattern: RegExp): boolean => pattern.test(name.toLowerCase().replace(/[_\s.-]+/g, ' '));
+
+const LATITUDE_HINT = /\b(lat|latitude)\b/;
+const LONGITUDE_HINT = /\b(lon|lng|long|longitude)\b/;
+const PERCENT_HINT = /\b(pct|percent|percentage|share|ratio)\b|%/;
+const CURRENCY_HINT = /\b(price|cost|amount|revenue|salary|income|fee|fees|budget|spend|usd|eur|gbp|payment|balance)\b/;
+const POSTAL_HINT = /\b(zip|zipcode|postal|postcode|plz|post code)\b/;
+const COUNTRY_HINT = /\b(country|nation|iso)\b/;
+const ID_HINT = /(^|\b)(id|uuid|guid|key|code|sku|ref|number|no)$|_id$/;
+
+/** Candidate types for a column, most specific first. */
+const candidates = (name: string): Candidate[] => [
+  { type: 'boolean', match: matchBoolean },
+  { type: 'email', match: matchEmail },
+  { type: 'url', match: matchUrl },
+  { type: 'identifier', match: matchUuid },
+  { type: 'datetime', match: matchIsoDatetime },
+  ...DATE_FORMATS.filter(format => format !== 'none').map(format => ({ type: 'datetime' as const, match: dateMatcher(format, true) })),
+  ...DATE_FORMATS.filter(format => format !== 'none').map(format => ({ type: 'date' as const, match: dateMatcher(format, false) })),
+  { type: 'date', match: matchMonthNameDate },
+  { type: 'duration', match: matchDuration },
+  { type: 'percentage', match: matchPercent },
+  { type: 'currency', match: matchCurrency },
+  { type: 'coordinates', match: matchCoordinates },
+  ...(hint(name, LATITUDE_HINT) ? [{ type: 'latitude' as const, match: rangeMatcher(90) }] : []),
+  ...(hint(name, LONGITUDE_HINT) ? [{ type: 'longitude' as const, match: rangeMatcher(180) }] : []),
+  ...(hint(name, PERCENT_HINT) ? [{ type: 'percentage' as const, match: matchNumber }] : []),
+  ...(hint(name, CURRENCY_HINT) ? [{ type: 'currency' as const, match: matchNumber }] : []),
+  { type: 'postal_code', match: postalMatcher(hint(name, POSTAL_HINT)) },
+  { type: 'country', match: countryMatcher(hint(name, COUNTRY_HINT)) },
+  { type: 'integer', match: matchInteger },
+  { type: 'decimal', match: matchNumber }
+];
+
+// Every `step`-th row, so the sample covers the whole table.
+const sampleValues = (data: DataRow[], column: string): unknown[] => {
+  const step = Math.max(1, Math.floor(data.length / SAMPLE_SIZE));
+  const values: unknown[] = [];
+  for (let i = 0; i < data.length && values.length < SAMPLE_SIZE; i += step) {
+    const value = data[i][column];
+    if (!isEmpty(value)) values.push(value);
+  }
+  return values;
+};
+
+// Calls `visit` once per distinct text value (with its count) for columnar
+// text columns, and once per value otherwise.
+const forEachValue = (data: DataRow[], column: string, visit: (value: unknown, count: number) => void) => {
+  const table = getColumnarTable(data);
+  const vector = table?.vectors[table.columns.indexOf(column)];
+  if (vector?.kind === 'text') {
+    const counts = new Uint32Array(vector.dictionary.length);
+    for (let i = 0; i < table.rowCount; i++) counts[vector.codes[i]]++;
+    for (let code = 1; code < counts.length; code++) {
+      if (counts[code] > 0) visit(vector.dictionary[code], counts[code]);
+    }
+    return;
+  }
+  if (vector?.kind === 'number') {
+    for (let i = 0; i < table.rowCount; i++) {
+      if (!isNaN(vector.values[i])) visit(vector.values[i], 1);
+    }
+    return;
+  }
+  data.forEach(row => {
+    if (!isEmpty(row[column])) visit(row[column], 1);
+  });
+};
+
+const countMismatches = (data: DataRow[], column: string, match: Matcher): number => {
+  let mismatches = 0;
+  forEachValue(data, column, (value, count) => {
+    if (match(value) === null) mismatches += count;
+  });
+  return mismatches;
+};
+
+// Number patterns differ only in how many decimals a value happened to have,
+// so the most detailed one describes the column; otherwise the most common wins.
+const mostCommon = (formats: string[]): string => {
+  if (formats.every(format => format.includes('0'))) {
+    return formats.reduce((widest, format) => (format.length > widest.length ? format : widest), '');
+  }
+  const counts = new Map<string, number>();
+  formats.forEach(format => counts.set(format, (counts.get(format) || 0) + 1));
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] || '';
+};
+
+// Fewer than 20 values say little about a column.
+const confidence = (ratio: number, sampled: number): number =>
+  Math.round(ratio * Math.min(1, 0.5 + sampled / 40) * 100) / 100;
+
+/** Infers the type of one column from a sample of its values. */
+export const inferColumnType = (data: DataRow[], column: string): InferredType => {
+  const values = sampleValues(data, column);
+  if (values.length === 0) return { type: 'text', confidence: 0, format: 'empty', mismatches: 0 };
+
+  // Among candidates of the same type (e.g. date formats), the best fit wins.
+  let best: { candidate: Candidate; formats: string[] } | null = null;
+  for (const candidate of candidates(column)) {
+    if (best && best.candidate.type !== candidate.type) break;
+    const formats = values.map(candidate.match).filter((format): format is string => format !== null);
+    if (formats.length >= values.length * THRESHOLD && (!best || formats.length > best.formats.length)) {
+      best = { candidate, formats };
+    }
+  }
+
+  if (best) {
+    const { candidate, formats } = best;
+    const distinct = new Set(values.map(value => text(value))).size;
+    // Unique integers in a column named like a key are identifiers, not quantities.
+    if (candidate.type === 'integer' && distinct === values.length && hint(column, ID_HINT)) {
+      return {
+        type: 'identifier',
+        confidence: confidence(1, values.length),
+        format: mostCommon(formats),
+        mismatches: countMismatches(data, column, candidate.match)
+      };
+    }
+    return {
+      type: candidate.type,
+      confidence: confidence(formats.length / values.length, values.length),
+      format: mostCommon(formats),
+      mismatches: countMismatches(data, column, candidate.match)
+    };
+  }
+
+  const distinct = new Set(values.map(value => text(value))).size;
+  if (distinct === values.length && (hint(column, ID_HINT) || values.every(value => /^[A-Za-z0-9_-]+$/.test(text(value)) && /\d/.test(text(value))))) {
+    return { type: 'identifier', confidence: confidence(1, values.length), format: 'alphanumeric', mismatches: 0 };
+  }
+  if (values.every(value => /^0\d+$/.test(text(value)))) {
+    return { type: 'identifier', confidence: confidence(1, values.length), format: 'zero-padded', mismatches: 0 };
+  }
+  if (distinct <= MAX_CATEGORIES && distinct <= values.length / 2) {
+    return {
+      type: 'categorical',
+      confidence: confidence(1 - distinct / values.length, values.length),
+      format: `${distinct} values`,
+      mismatches: 0
+    };
+  }
+  return { type: 'text', confidence: confidence(1, values.length), format: '', mismatches: 0 };
+};
+
+const NUMERIC_TYPES: ColumnType[] = ['integer', 'decimal', 'currency', 'percentage', 'latitude', 'longitude', 'identifier'];
+
+/**
+ * How the rest of the app should treat a column. Values written with symbols
+ * or grouping ("$1,200", "45%") are text until they are cast; only columns
+ * whose values are plain numbers (format made of 0s and a point) are numeric.
+ */
+export const typeKind = (inferred: InferredType): 'numeric' | 'date' | 'text' => {
+  if (inferred.type === 'date' || inferred.type === 'datetime') return 'date';
+  if (NUMERIC_TYPES.includes(inferred.type) && /^0(\.0+)?$/.test(inferred.format)) return 'numeric';
+  return 'text';
+};
+
+/** Whether a single value fits `type`, using the column name for hinted types. */
+export const matchesType = (value: unknown, type: ColumnType, column = ''): boolean => {
+  if (isEmpty(value) || type === 'text' || type === 'categorical') return true;
+  if (type === 'identifier') return true;
+  return candidates(column).some(candidate => candidate.type === type && candidate.match(value) !== null);
+};
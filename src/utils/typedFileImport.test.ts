@@ -0,0 +1,24 @@
+import { tableFromArrays, tableToIPC } from 'apache-arrow';
+import { describe, expect, it } from 'vitest';
+import { readArrowFile } from './typedFileImport';
+
+const arrowFile = (columns: Parameters<typeof tableFromArrays>[0]) =>
+  new File([tableToIPC(tableFromArrays(columns))], 'table.arrow');
+
+describe('readArrowFile', () => {
+  it('keeps 64-bit integers as numbers while they are exact', async () => {
+    const { data, schema } = await readArrowFile(arrowFile({ id: BigInt64Array.from([1n, 2n ** 53n]) }));
+    expect(schema[0]).toMatchObject({ name: 'id', type: 'integer' });
+    expect(data.map(row => row.id)).toEqual([1, 2 ** 53]);
+  });
+
+  it('reads a column with integers beyond 2^53 as exact text', async () => {
+    const { data, schema } = await readArrowFile(arrowFile({
+      id: BigInt64Array.from([1n, 2n ** 53n + 1n]),
+      amount: Int32Array.from([5, 6])
+    }));
+    expect(schema.map(column => column.type)).toEqual(['string', 'integer']);
+    expect(schema[0].sourceType).toBe('Int64');
+    expect(data.map(row => row.id)).toEqual(['1', '9007199254740993']);
+  });
+});
@@ -0,0 +1,179 @@
+import { DataType, Decimal, Dictionary, Field, tableFromIPC, Type } from 'apache-arrow';
+import { parquetMetadata, parquetReadObjects, parquetSchema } from 'hyparquet';
+import type { SchemaTree } from 'hyparquet';
+import { compressors } from 'hyparquet-compressors';
+import { columnarRows, createColumnarBuilder } from './columnar';
+import { ColumnMeta, columnMetadata, ColumnSchema, DataRow, LoadedTable, SchemaType } from './dataProcessor';
+
+// Import of self-describing binary formats: Parquet and Arrow IPC (including
+// Feather v2). Both are decoded in the browser, and the column types come from
+// the file's schema instead of being guessed from the values. Nested values
+// (lists, structs, maps) are kept as JSON text so no data is lost, and so are
+// integer columns with values beyond 2^53, which are then typed as text.
+
+export interface TypedFile extends LoadedTable {
+  schema: ColumnSchema[];
+}
+
+const NUMERIC_TYPES: SchemaType[] = ['integer', 'float', 'decimal'];
+
+const datePart = (iso: string): string => iso.slice(0, 10);
+
+const jsonReplacer = (_key: string, value: unknown) => {
+  if (typeof value === 'bigint') return Number.isSafeInteger(Number(value)) ? Number(value) : String(value);
+  if (value instanceof Uint8Array) return `<${value.length} bytes>`;
+  return value;
+};
+
+/** Text form of one decoded value, as stored in the columnar table. */
+const toField = (value: unknown, type: SchemaType): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return '';
+    return type === 'date' ? datePart(value.toISOString()) : value.toISOString();
+  }
+  if ((type === 'date' || type === 'timestamp') && typeof value === 'number') {
+    const iso = new Date(value).toISOString();
+    return type === 'date' ? datePart(iso) : iso;
+  }
+  if (value instanceof Uint8Array) return `<${value.length} bytes>`;
+  if (typeof value === 'object') return JSON.stringify(value, jsonReplacer);
+  return String(value);
+};
+
+const buildTable = (
+  schema: ColumnSchema[],
+  rowCount: number,
+  valueAt: (row: number, column: number) => unknown
+): { data: DataRow[]; schema: ColumnSchema[] } => {
+  const builder = createColumnarBuilder(
+    schema.map(column => column.name),
+    schema.map(column => !NUMERIC_TYPES.includes(column.type))
+  );
+  const fields: string[] = new Array(schema.length);
+  for (let row = 0; row < rowCount; row++) {
+    for (let column = 0; column < schema.length; column++) {
+      fields[column] = toField(valueAt(row, column), schema[column].type);
+    }
+    builder.append(fields);
+  }
+  const table = builder.finish();
+  // A numeric column holding a value that is not exact as a number (an INT64
+  // above 2^53) was stored as text, and is reported as text.
+  return {
+    data: columnarRows(table),
+    schema: schema.map((column, index) =>
+      (NUMERIC_TYPES.includes(column.type) && table.vectors[index].kind === 'text' ? { ...column, type: 'string' } : column))
+  };
+};
+
+const withNames = (columns: ColumnMeta[], types: { type: SchemaType; sourceType: string }[]): ColumnSchema[] =>
+  columns.map(({ name, label }, index) => ({ name, label, ...types[index] }));
+
+const arrowType = (type: DataType): SchemaType => {
+  switch (type.typeId) {
+    case Type.Int:
+      return 'integer';
+    case Type.Float:
+      return 'float';
+    case Type.Decimal:
+      return 'decimal';
+    case Type.Bool:
+      return 'boolean';
+    case Type.Date:
+      return 'date';
+    case Type.Timestamp:
+      return 'timestamp';
+    case Type.Time:
+      return 'time';
+    case Type.Binary:
+    case Type.LargeBinary:
+    case Type.BinaryView:
+    case Type.FixedSizeBinary:
+      return 'binary';
+    case Type.List:
+    case Type.LargeList:
+    case Type.FixedSizeList:
+      return 'list';
+    case Type.Struct:
+    case Type.Map:
+    case Type.Union:
+      return 'struct';
+    case Type.Dictionary:
+      return arrowType((type as Dictionary).dictionary);
+    default:
+      return 'string';
+  }
+};
+
+/** Reads an Arrow IPC file or stream (.arrow, .feather v2). */
+export const readArrowFile = async (file: File): Promise<TypedFile> => {
+  const table = tableFromIPC(new Uint8Array(await file.arrayBuffer()));
+  const fields: Field[] = table.schema.fields;
+  const columns = columnMetadata(fields.map(field => field.name));
+  const schema = withNames(
+    columns,
+    fields.map(field => ({ type: arrowType(field.type), sourceType: String(field.type) }))
+  );
+  const vectors = fields.map((_, index) => table.getChildAt(index));
+
+  const built = buildTable(schema, table.numRows, (row, column) => {
+    const value = vectors[column].get(row);
+    // Decimals come back as raw integers; apply the declared scale.
+    if (schema[column].type === 'decimal' && value !== null) {
+      const scale = (fields[column].type as Decimal).scale;
+      return Number(String(value)) / 10 ** scale;
+    }
+    return value;
+  });
+
+  return { data: built.data, columns, schema: built.schema };
+};
+
+const parquetType = (node: SchemaTree): { type: SchemaType; sourceType: string } => {
+  const { element } = node;
+  const logical = element.logical_type?.type;
+  const converted = element.converted_type;
+  const sourceType = logical || converted || element.type || 'GROUP';
+
+  if (element.repetition_type === 'REPEATED' || logical === 'LIST' || converted === 'LIST') {
+    return { type: 'list', sourceType };
+  }
+  if (node.children.length > 0 || logical === 'MAP' || converted === 'MAP') return { type: 'struct', sourceType };
+  if (logical === 'DECIMAL' || converted === 'DECIMAL') return { type: 'decimal', sourceType };
+  if (logical === 'DATE' || converted === 'DATE') return { type: 'date', sourceType };
+  if (logical === 'TIMESTAMP' || converted === 'TIMESTAMP_MILLIS' || converted === 'TIMESTAMP_MICROS' || element.type === 'INT96') {
+    return { type: 'timestamp', sourceType };
+  }
+  if (logical === 'TIME' || converted === 'TIME_MILLIS' || converted === 'TIME_MICROS') return { type: 'time', sourceType };
+  if (['STRING', 'ENUM', 'JSON', 'UUID'].includes(logical) || ['UTF8', 'ENUM', 'JSON'].includes(converted)) {
+    return { type: 'string', sourceType };
+  }
+
+  switch (element.type) {
+    case 'BOOLEAN':
+      return { type: 'boolean', sourceType };
+    case 'INT32':
+    case 'INT64':
+      return { type: 'integer', sourceType };
+    case 'FLOAT':
+    case 'DOUBLE':
+      return { type: 'float', sourceType };
+    default:
+      return { type: 'binary', sourceType };
+  }
+};
+
+/** Reads a Parquet file; all common compression codecs are supported. */
+export const readParquetFile = async (file: File): Promise<TypedFile> => {
+  const buffer = await file.arrayBuffer();
+  const metadata = parquetMetadata(buffer);
+  const nodes = parquetSchema(metadata).children;
+  const columns = columnMetadata(nodes.map(node => node.element.name));
+  const schema = withNames(columns, nodes.map(parquetType));
+
+  const rows = await parquetReadObjects({ file: buffer, metadata, compressors });
+  const { data, schema: built } = buildTable(schema, rows.length, (row, column) => rows[row][nodes[column].element.name]);
+
+  return { data, columns, schema: built };
+};
@@ -0,0 +1,163 @@
+import { ColumnMeta, ColumnSchema, DataRow, DataStats, ParseReport } from './dataProcessor';
+import { isMissing, TableSet } from './queryPlan';
+import type { CastFailure, ColumnOverride } from './schemaOverride';
+
+// A workspace holds every table loaded in this session under a SQL-friendly
+// name, so queries can reference and join them by name.
+
+export interface WorkspaceTable {
+  name: string;
+  filename: string;
+  data: DataRow[];
+  stats: DataStats;
+  // Original and display names of the columns; tables without them show the keys.
+  columns?: ColumnMeta[];
+  // Malformed rows found while importing the file, and what was done with them.
+  parseReport?: ParseReport;
+  // The workbook sheet the table came from, when the file had several.
+  sheet?: string;
+  // Column types declared by the file, when the format has a schema.
+  schema?: ColumnSchema[];
+  // JSON path of each column, for tables flattened from JSON.
+  jsonPaths?: Record<string, string>;
+  // Column types set by hand, keyed by column name.
+  overrides?: Record<string, ColumnOverride>;
+  // Rows as imported, kept while overrides are applied to `data`.
+  sourceData?: DataRow[];
+  // Cells of overridden columns that could not be cast.
+  castFailures?: Record<string, CastFailure>;
+}
+
+export interface JoinKeySuggestion {
+  leftColumn: string;
+  rightColumn: string;
+  // 0..1; higher means more likely to be the intended key.
+  score: number;
+  reason: string;
+}
+
+/**
+ * Derives a table name from a file name (and sheet, for workbooks): lower-case,
+ * underscores for anything that is not a letter or digit, and a numeric suffix
+ * if the name is taken.
+ */
+export const toTableName = (filename: string, taken: string[], sheet?: string): string => {
+  const stem = filename.replace(/\.[^.]+$/, '');
+  const base = (sheet ? `${stem}_${sheet}` : stem)
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '_')
+    .replace(/^_+|_+$/g, '') || 'table';
+  const name = /^\p{N}/u.test(base) ? `t_${base}` : base;
+
+  if (!taken.includes(name)) return name;
+  let suffix = 2;
+  while (taken.includes(`${name}_${suffix}`)) suffix++;
+  return `${name}_${suffix}`;
+};
+
+export const toTableSet = (tables: WorkspaceTable[]): TableSet =>
+  Object.fromEntries(tables.map(table => [table.name, table.data]));
+
+const compactName = (name: string): string => name.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+const singular = (name: string): string => {
+  if (name.endsWith('ies')) return `${name.slice(0, -3)}y`;
+  if (name.endsWith('s') && !name.endsWith('ss')) return name.slice(0, -1);
+  return name;
+};
+
+const columnKind = (stats: DataStats, name: string): string =>
+  stats.numericColumns.includes(name) ? 'numeric' : stats.dateColumns.includes(name) ? 'date' : 'text';
+
+const OVERLAP_SAMPLE = 1000;
+
+const keyOf = (value: unknown): string => {
+  const numeric = Number(value);
+  return typeof value !== 'boolean' && !isNaN(numeric) ? `n:${numeric}` : `s:${String(value)}`;
+};
+
+// Share of the left column's distinct (sampled) values that occur on the right.
+const valueOverlap = (left: DataRow[], leftColumn: string, right: DataRow[], rightColumn: string): number => {
+  const leftValues = new Set<string>();
+  for (const row of left) {
+    if (!isMissing(row[leftColumn])) leftValues.add(keyOf(row[leftColumn]));
+    if (leftValues.size >= OVERLAP_SAMPLE) break;
+  }
+  if (leftValues.size === 0) return 0;
+
+  const rightValues = new Set(right.filter(row => !isMissing(row[rightColumn])).map(row => keyOf(row[rightColumn])));
+  let found = 0;
+  leftValues.forEach(value => {
+    if (rightValues.has(value)) found++;
+  });
+  return found / leftValues.size;
+};
+
+/**
+ * Ranks column pairs that could join two tables. Candidates share a name
+ * (customer_id = customer_id) or follow the foreign key convention
+ * (customer_id = customers.id), must have the same kind of values, and are
+ * scored by how many left-hand values actually occur on the right.
+ */
+export const suggestJoinKeys = (left: WorkspaceTable, right: WorkspaceTable): JoinKeySuggestion[] => {
+  const leftColumns = Object.keys(left.data[0] || {});
+  const rightColumns = Object.keys(right.data[0] || {});
+  const suggestions: JoinKeySuggestion[] = [];
+
+  leftColumns.forEach(leftColumn => {
+    rightColumns.forEach(rightColumn => {
+      const a = compactName(leftColumn);
+      const b = compactName(rightColumn);
+
+      let nameScore = 0;
+      let nameReason = '';
+      if (a === b) {
+        // A bare "id" in both tables is usually each table's own key.
+        nameScore = a === 'id' ? 0.2 : 0.6;
+        nameReason = 'same column name';
+      } else if (b === 'id' && a === `${singular(compactName(right.name))}id`) {
+        nameScore = 0.5;
+        nameReason = `${leftColumn} looks like a reference to ${right.name}`;
+      } else if (a === 'id' && b === `${singular(compactName(left.name))}id`) {
+        nameScore = 0.5;
+        nameReason = `${rightColumn} looks like a reference to ${left.name}`;
+      }
+      if (nameScore === 0) return;
+
+      const kind = columnKind(left.stats, leftColumn);
+      if (kind !== columnKind(right.stats, rightColumn)) return;
+
+      const overlap = valueOverlap(left.data, leftColumn, right.data, rightColumn);
+      // Same name but no shared values: two unrelated columns (e.g. status).
+      if (overlap === 0) return;
+
+      suggestions.push({
+        leftColumn,
+        rightColumn,
+        score: Math.round((nameScore + overlap * 0.4) * 100) / 100,
+        reason: `${nameReason}, both ${kind}, ${Math.round(overlap * 100)}% of ${left.name}.${leftColumn} values found in ${right.name}.${rightColumn}`
+      });
+    });
+  });
+
+  return suggestions.sort((x, y) => y.score - x.score);
+};
+
+export type SchemaSnapshot = Record<string, string>;
+
+/** Column names and their detected kinds, for noticing later schema changes. */
+export const snapshotSchema = (table: WorkspaceTable): SchemaSnapshot =>
+  Object.fromEntries(Object.keys(table.data[0] || {}).map(name => [name, columnKind(table.stats, name)]));
+
+/** Human-readable differences between two snapshots; empty when they match. */
+export const describeSchemaChanges = (before: SchemaSnapshot, after: SchemaSnapshot): string[] => {
+  const changes: string[] = [];
+  const removed = Object.keys(before).filter(name => !(name in after));
+  const added = Object.keys(after).filter(name => !(name in before));
+  const retyped = Object.keys(before).filter(name => name in after && before[name] !== after[name]);
+
+  if (removed.length > 0) changes.push(`removed ${removed.join(', ')}`);
+  if (added.length > 0) changes.push(`added ${added.join(', ')}`);
+  retyped.forEach(name => changes.push(`${name} changed from ${before[name]} to ${after[name]}`));
+  return changes;
+};
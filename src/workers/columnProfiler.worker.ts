@@ -0,0 +1,26 @@
+import { ColumnarTable } from '@/utils/columnar';
+import { ColumnProfile, ProfileColumn, profileTable } from '@/utils/columnProfile';
+
+// Profiles the columns of a large table off the main thread. The table
+// arrives as a structured-clone copy of its columnar storage.
+
+export interface ColumnProfileRequest {
+  table: ColumnarTable;
+  columns: ProfileColumn[];
+}
+
+export type ColumnProfileMessage =
+  | { type: 'done'; profiles: ColumnProfile[] }
+  | { type: 'error'; message: string };
+
+const scope = self as unknown as Worker;
+
+const post = (message: ColumnProfileMessage) => scope.postMessage(message);
+
+scope.onmessage = (event: MessageEvent<ColumnProfileRequest>) => {
+  try {
+    post({ type: 'done', profiles: profileTable(event.data.table, event.data.columns) });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,186 @@
+import Papa from 'papaparse';
+import { columnarBuffers, ColumnarTable, createColumnarBuilder, ColumnarBuilder } from '@/utils/columnar';
+import { ColumnMeta, columnMetadata, ParseIssue, ParseIssueType, ParseReport } from '@/utils/dataProcessor';
+import { CsvFormat, fieldNormalizer } from '@/utils/csvDetect';
+
+// Parses a CSV file off the main thread. The file is read in chunks, each
+// chunk is appended to columnar storage straight away, and progress is
+// reported after every chunk; the finished columns are transferred back
+// without copying.
+//
+// Papa is given one chunk of text at a time rather than the File itself so
+// that every record's raw text and line number are known when it turns out to
+// be malformed. Malformed records are padded or truncated to the header width
+// and listed in the report; whether to keep them is decided on the main
+// thread. A quote still open at the end of the file, or after more text than
+// a chunk, is taken to be a stray quote rather than a long quoted field: only
+// its line becomes a malformed record and parsing resumes on the next line, so
+// one bad quote neither swallows the rest of the file nor makes every later
+// chunk re-parse it.
+//
+// Without a format the delimiter is guessed by Papa and the file is read as
+// UTF-8, as before the import preview existed.
+
+export interface CsvParseRequest {
+  file: File;
+  format?: CsvFormat;
+}
+
+export type CsvParseMessage =
+  | { type: 'progress'; rows: number; bytes: number; totalBytes: number }
+  | { type: 'done'; table: ColumnarTable; columns: ColumnMeta[]; report: ParseReport; badRows: Uint32Array }
+  | { type: 'error'; message: string };
+
+const CHUNK_SIZE = 1024 * 1024;
+// Beyond this the report only counts issues; every bad row is still tracked.
+const MAX_REPORTED_ISSUES = 1000;
+const MAX_RAW_LENGTH = 500;
+// A quoted field still open after this much held-back text is a stray quote.
+const MAX_QUOTED_LENGTH = CHUNK_SIZE;
+
+const scope = self as unknown as Worker;
+
+const post = (message: CsvParseMessage, transfer: Transferable[] = []) => scope.postMessage(message, transfer);
+
+const countBreaks = (text: string, breakChar: string): number => {
+  let count = 0;
+  for (let index = text.indexOf(breakChar); index !== -1; index = text.indexOf(breakChar, index + 1)) count++;
+  return count;
+};
+
+const LEADING_BREAKS = /^(?:\r\n|\n|\r)+/;
+const TRAILING_BREAK = /(?:\r\n|\n|\r)$/;
+
+const parse = async ({ file, format }: CsvParseRequest) => {
+  let builder: ColumnarBuilder | null = null;
+  let columns: ColumnMeta[] = [];
+  let width = 0;
+  let delimiter: string | undefined = format?.delimiter;
+  let linebreak: string | undefined;
+  // Line number where the not yet consumed text starts.
+  let line = 1;
+
+  // Records above the header row still to be skipped.
+  let preamble = format?.headerRow || 0;
+  const normalize = format ? fieldNormalizer(format) : null;
+
+  const issues: ParseIssue[] = [];
+  const badRows: number[] = [];
+
+  const addRecord = (fields: string[], errors: Papa.ParseError[], raw: string) => {
+    const breakChar = linebreak === '\r' ? '\r' : '\n';
+    // Skipped blank lines end up in front of the next record's text.
+    const blank = raw.charCodeAt(0) === 10 || raw.charCodeAt(0) === 13 ? raw.match(LEADING_BREAKS)[0] : '';
+    const recordLine = line + countBreaks(blank, breakChar);
+    line += countBreaks(raw, breakChar);
+
+    if (preamble > 0) {
+      preamble--;
+      return;
+    }
+    if (!builder) {
+      width = fields.length;
+      columns = columnMetadata(fields);
+      builder = createColumnarBuilder(columns.map(column => column.name));
+      return;
+    }
+
+    const quoteError = errors.find(error => error.type === 'Quotes');
+    let type: ParseIssueType | null = null;
+    let message = '';
+    if (quoteError) {
+      type = 'quote_mismatch';
+      message = quoteError.message;
+    } else if (fields.length !== width) {
+      type = fields.length > width ? 'too_many_fields' : 'too_few_fields';
+      // Same wording as Papa's own header-mode errors.
+      message = `${fields.length > width ? 'Too many' : 'Too few'} fields: expected ${width} fields but parsed ${fields.length}`;
+    }
+
+    if (type) {
+      badRows.push(builder.rowCount());
+      if (issues.length < MAX_REPORTED_ISSUES) {
+        issues.push({
+          line: recordLine,
+          row: builder.rowCount(),
+          type,
+          message,
+          raw: raw.slice(blank.length).replace(TRAILING_BREAK, '').slice(0, MAX_RAW_LENGTH)
+        });
+      }
+      fields = fields.length > width
+        ? fields.slice(0, width)
+        : fields.concat(Array(width - fields.length).fill(''));
+    }
+    builder.append(normalize ? fields.map(normalize) : fields);
+  };
+
+  // Adds the first line of `text`, which starts with a record whose quote is
+  // never closed, as a record of its own and returns the text after it.
+  const addStrayQuoteLine = (text: string): string => {
+    const blank = text.match(LEADING_BREAKS)?.[0] || '';
+    const lineEnd = text.indexOf(linebreak === '\r' ? '\r' : '\n', blank.length);
+    const raw = lineEnd === -1 ? text : text.slice(0, lineEnd + 1);
+    const parsed = Papa.parse<string[]>(raw.slice(blank.length).replace(TRAILING_BREAK, ''), {
+      delimiter,
+      quoteChar: format?.quoteChar
+    });
+    addRecord(parsed.data[0] || [], parsed.errors, raw);
+    return text.slice(raw.length);
+  };
+
+  // Parses the complete records in `text` and returns the rest. Unless this
+  // is the last chunk, a record running up to the end of the text may be cut
+  // off, so it is held back for the next chunk.
+  const parseText = (text: string, isLast: boolean): string => {
+    let rest = text;
+    for (;;) {
+      const current = rest;
+      let consumed = 0;
+      let openQuote = false;
+      Papa.parse<string[]>(current, {
+        delimiter,
+        quoteChar: format?.quoteChar,
+        newline: linebreak as Papa.ParseConfig['newline'],
+        skipEmptyLines: true,
+        step: (results, parser) => {
+          const end = results.meta.cursor;
+          if (end >= current.length) {
+            openQuote = results.errors.some(error => error.code === 'MissingQuotes');
+            if (!isLast || openQuote) {
+              parser.abort();
+              return;
+            }
+          }
+          delimiter = delimiter ?? results.meta.delimiter;
+          linebreak = linebreak ?? results.meta.linebreak;
+          addRecord(results.data, results.errors, current.slice(consumed, end));
+          consumed = end;
+        }
+      });
+      rest = current.slice(consumed);
+      if (!openQuote || (!isLast && rest.length <= MAX_QUOTED_LENGTH)) return rest;
+      rest = addStrayQuoteLine(rest);
+    }
+  };
+
+  const decoder = new TextDecoder(format?.encoding);
+  let pending = '';
+  let offset = 0;
+  do {
+    const bytes = await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer();
+    offset += bytes.byteLength;
+    const isLast = offset >= file.size;
+    pending = parseText(pending + decoder.decode(bytes, { stream: !isLast }), isLast);
+    post({ type: 'progress', rows: builder ? builder.rowCount() : 0, bytes: offset, totalBytes: file.size });
+  } while (offset < file.size);
+
+  const table = builder ? builder.finish() : { columns: [], rowCount: 0, vectors: [] };
+  const report: ParseReport = { expectedFields: width, totalIssues: badRows.length, issues };
+  const rows = Uint32Array.from(badRows);
+  post({ type: 'done', table, columns, report, badRows: rows }, [...columnarBuffers(table), rows.buffer]);
+};
+
+scope.onmessage = (event: MessageEvent<CsvParseRequest>) => {
+  parse(event.data).catch(error => post({ type: 'error', message: error instanceof Error ? error.message : String(error) }));
+};